@@ -1,14 +1,150 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Html5Qrcode } from 'html5-qrcode';
-import { createWorker } from 'tesseract.js';
 import {
+  applyLabelCorrections,
+  combineRegionLabels,
   createSocketClient,
+  DEFAULT_OCR_REGIONS,
+  describeOcrConsensus,
+  describeOcrPreprocess,
+  extractRegionLabel,
   joinRoom,
+  labelCorrections,
+  lowConfidenceFields,
+  leaveRoom,
+  ocrConsensus,
+  OCR_PREPROCESS_PRESET_NAMES,
+  OCR_REGION_DEFAULTS,
+  OCR_REGION_KEYS,
+  OCR_REGION_KINDS,
+  onCommand,
+  onDeviceRevoked,
+  onLabelFormatsUpdated,
+  parseGs1,
+  SCAN_EVENT_VERSION,
+  sendDeviceStatus,
+  PROMPT_TIMEOUT_MS,
+  recognizeLabel,
+  REVIEWABLE_LABEL_KEYS,
   sendScan,
-  type ScanPayload,
+  type DeviceBattery,
+  type LabelOutputKey,
+  type OcrConsensus,
+  type OcrDecision,
+  type OcrPreprocessPresetName,
+  type OcrPreprocessSummary,
+  type OcrProviderName,
+  type OcrRegion,
+  type OcrRegionKind,
+  type OcrRegionSummary,
+  type ScannerCaptureMode,
+  type ScannerCommandEnvelope,
+  type ScanEvent,
+  type ScanEventInit,
+  type ScanLabelFields,
 } from '@scanning-poc/shared';
-import { extractLabelFromOcr } from './labelFormats';
+import { getConfirmBeforeSend, setConfirmBeforeSend as storeConfirmBeforeSend } from './confirmScan';
+import { getDeviceId, getDeviceName, setDeviceName as storeDeviceName } from './deviceId';
+import {
+  createLocalId,
+  listOutbox,
+  MAX_DELIVERY_ATTEMPTS,
+  putOutboxEntry,
+  retryDelay,
+  type OutboxEntry,
+} from './outbox';
+import { getDeviceKey, getStoredSid, storeDeviceKey, storeSid } from './session';
+import { extractLabelFromOcr, getLabelFormatDefinitions, loadLabelFormats, type LabelFormatLoadResult } from './labelFormats';
+import { createOcrPreprocessor, labelPreprocessPreset, ocrPreprocessCycle } from './ocrPreprocess';
+import { cropRegion, detectBarcode } from './ocrRegionCapture';
+import { createOcrEngines, isOcrProviderOption, ocrProviderOptions, registerServerOcrProviders } from './ocrProviders';
+import {
+  getOcrConsensusFrames,
+  getOcrPreprocess,
+  getOcrPreprocessDebug,
+  getOcrRegions,
+  OCR_CONSENSUS_FRAME_CHOICES,
+  setOcrConsensusFrames as storeOcrConsensusFrames,
+  setOcrPreprocess as storeOcrPreprocess,
+  setOcrPreprocessDebug as storeOcrPreprocessDebug,
+  setOcrRegions as storeOcrRegions,
+  type OcrPreprocessChoice,
+} from './ocrSettings';
 import { LabelCaptureScan } from './LabelCaptureScan';
+import { OCR_REGION_TITLES, OcrRegionOverlay } from './OcrRegionOverlay';
+import type { LabelJson } from './scanditLabelToOcrFormat';
+
+/** How often the outbox checks for pending scans whose retry backoff has elapsed */
+const OUTBOX_POLL_MS = 2000;
+
+/** Continuous OCR: pause between frames, and how long to wait for the fields to agree */
+const OCR_FRAME_INTERVAL_MS = 250;
+const OCR_CONSENSUS_TIMEOUT_MS = 20000;
+
+const DELIVERY_LABELS: Record<OutboxEntry['status'], string> = {
+  pending: 'Pending',
+  delivered: 'Delivered',
+  failed: 'Failed',
+};
+
+/** Heartbeat interval: last-seen and battery for the dashboard's devices panel */
+const DEVICE_STATUS_INTERVAL_MS = 30000;
+
+/** Retry delay after a join the server did not answer (timeout, server restarting) */
+const JOIN_RETRY_MS = 5000;
+
+/** OCR or Scandit label scan; these can be confirmed and corrected before sending */
+type LabelScanInit = Extract<ScanEventInit, { kind: 'ocr-text' | 'label' }> & { label: ScanLabelFields };
+
+/** One capture region's reading of an OCR frame (image: what was sent to the engine) */
+type OcrRegionRead = {
+  kind: OcrRegionKind;
+  text: string;
+  raw: string;
+  label: ScanLabelFields;
+  decision?: OcrDecision;
+  preprocess?: OcrPreprocessSummary;
+  image?: Blob;
+};
+
+/** One frame of continuous OCR: its regions' readings, combined when there are several */
+type OcrFrame = Omit<OcrRegionRead, 'kind' | 'image'> & { regions?: OcrRegionSummary[] };
+
+/** Label scan waiting for the operator: edited field values, summary used when nothing was found */
+type PendingConfirmation = {
+  event: LabelScanInit;
+  edited: Partial<Record<LabelOutputKey, string>>;
+  fallbackSummary: string;
+};
+
+/** Fields shown for confirmation: batch, lot and expiry always, serial / ref when the scan found them */
+function confirmationKeys(label: ScanLabelFields): LabelOutputKey[] {
+  return REVIEWABLE_LABEL_KEYS.filter((key) => key === 'batch_no' || key === 'lot_no' || key === 'expiry' || label[key]);
+}
+
+function labelSummary(label: ScanLabelFields): string {
+  return [
+    label.batch_no && `Batch: ${label.batch_no}`,
+    label.lot_no && `Lot: ${label.lot_no}`,
+    label.expiry && `Exp: ${label.expiry}`,
+    label.upc_gtin && `UPC: ${label.upc_gtin}`,
+    label.serial && `Serial: ${label.serial}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+type BatteryNavigator = Navigator & { getBattery?: () => Promise<{ level: number; charging: boolean }> };
+
+/** Battery level/charging via the Battery Status API (Chrome on Android); undefined where unsupported */
+async function readBattery(): Promise<DeviceBattery | undefined> {
+  try {
+    const battery = await (navigator as BatteryNavigator).getBattery?.();
+    return battery ? { level: battery.level, charging: battery.charging } : undefined;
+  } catch {
+    return undefined;
+  }
+}
 
 /** Socket server URL: use ?socket=https://... for ngrok/HTTPS, else hostname:4001 */
 function getSocketUrl(): string {
@@ -26,22 +162,83 @@ function getSidFromUrl(): string | null {
   return params.get('sid') || params.get('room') || null;
 }
 
+/** Pairing token from the dashboard QR URL (?token=...) */
+function getTokenFromUrl(): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get('token');
+}
+
+/** Drop the pairing token from the address bar once it has paired, so a reload does not present it again */
+function removeTokenFromUrl() {
+  if (typeof window === 'undefined') return;
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has('token')) return;
+  url.searchParams.delete('token');
+  window.history.replaceState(window.history.state, '', url.toString());
+}
+
 export default function App() {
-  const [sid, setSid] = useState<string | null>(() => getSidFromUrl());
+  const [sid, setSid] = useState<string | null>(() => getSidFromUrl() ?? getStoredSid());
   const [manualSid, setManualSid] = useState('');
+  const [deviceName, setDeviceName] = useState(() => getDeviceName());
+  /** Why joining failed (no/expired pairing token, device revoked) */
+  const [joinError, setJoinError] = useState<string | null>(null);
   const [mode, setMode] = useState<'barcode' | 'ocr' | null>(null);
   const [joinScanActive, setJoinScanActive] = useState(false);
   const [joinScanError, setJoinScanError] = useState<string | null>(null);
   const [status, setStatus] = useState<string>('');
   const [lastScan, setLastScan] = useState<string>('');
-  const [ocrProvider, setOcrProvider] = useState<'tesseract' | 'vision' | 'paddle'>('tesseract');
+  const [ocrProvider, setOcrProvider] = useState<OcrProviderName>('tesseract');
+  /** Provider picker choices; the socket server's engines are added once its list arrives */
+  const [ocrProviderChoices, setOcrProviderChoices] = useState(() => ocrProviderOptions());
+  const [ocrConsensusFrames, setOcrConsensusFrames] = useState(() => getOcrConsensusFrames());
+  /** Fields read so far by continuous OCR, shown on the camera overlay */
+  const [ocrPartial, setOcrPartial] = useState<OcrConsensus | null>(null);
+  const [ocrPreprocess, setOcrPreprocess] = useState<OcrPreprocessChoice>(() => getOcrPreprocess());
+  const [ocrPreprocessDebug, setOcrPreprocessDebug] = useState(() => getOcrPreprocessDebug());
+  /** Last images handed to the OCR engine, one per capture region (debug view) */
+  const [ocrDebugImages, setOcrDebugImages] = useState<
+    Array<{ kind: OcrRegionKind; url: string; preprocess: OcrPreprocessSummary }>
+  >([]);
+  const [ocrRegions, setOcrRegions] = useState(() => getOcrRegions());
+  /** Read by the running OCR loop, so moving a region does not restart the camera */
+  const ocrRegionsRef = useRef(ocrRegions);
+  ocrRegionsRef.current = ocrRegions;
   const [showScanditLabel, setShowScanditLabel] = useState(false);
+  /** Message pushed by the dashboard (show-message / request-rescan command) */
+  const [dashboardMessage, setDashboardMessage] = useState<{ text: string; level: 'info' | 'warning' | 'error' } | null>(
+    null
+  );
+  /** Open prompt from the dashboard; answer() acks the chosen option */
+  const [prompt, setPrompt] = useState<{ text: string; options: string[]; answer: (option: string) => void } | null>(
+    null
+  );
+  const [confirmBeforeSend, setConfirmBeforeSend] = useState(() => getConfirmBeforeSend());
+  /** Label scan being confirmed; Scandit results are ignored while it is open */
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null);
+  const confirmationRef = useRef<PendingConfirmation | null>(null);
+  confirmationRef.current = confirmation;
+  const confirmBeforeSendRef = useRef(confirmBeforeSend);
+  confirmBeforeSendRef.current = confirmBeforeSend;
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const joinScannerRef = useRef<Html5Qrcode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const videoOcrRef = useRef<HTMLVideoElement | null>(null);
   const socketRef = useRef(createSocketClient(getSocketUrl()));
-  const onBarcodeSuccessRef = useRef<(decodedText: string) => void>(() => {});
+  const deviceIdRef = useRef(getDeviceId());
+  /** Latest device name for (re)joins, without rejoining on every keystroke */
+  const deviceNameRef = useRef(deviceName);
+  deviceNameRef.current = deviceName;
+  /** Pairing token from the scanned QR / URL; used once, then the device key is used to rejoin */
+  const pairingTokenRef = useRef<string | null>(getTokenFromUrl());
+  /** True once join-room succeeded on the current connection (scans are only sent then) */
+  const joinedRef = useRef(false);
+  /** Outbox entries currently being sent, so the retry loop does not send them twice */
+  const inFlightRef = useRef(new Set<string>());
+  /** Recent scans of this session with their delivery state, newest first */
+  const [deliveries, setDeliveries] = useState<OutboxEntry[]>([]);
+  const [labelFormatsLoad, setLabelFormatsLoad] = useState<LabelFormatLoadResult | null>(null);
+  const onBarcodeSuccessRef = useRef<(decodedText: string, symbology?: string) => void>(() => {});
   /** Single-scan: ignore further callbacks until user starts scan again */
   const barcodeScanDoneRef = useRef(false);
   const ocrScanDoneRef = useRef(false);
@@ -56,6 +253,40 @@ export default function App() {
     };
   }, []);
 
+  /** Engines the socket server runs join the provider picker */
+  useEffect(() => {
+    let cancelled = false;
+    registerServerOcrProviders(getSocketUrl()).then((added) => {
+      if (added && !cancelled) setOcrProviderChoices(ocrProviderOptions());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /** Label formats from the socket server drive OCR extraction and the Scandit label definition */
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      loadLabelFormats(getSocketUrl()).then((result) => {
+        if (result.errors.length) console.warn('Label formats:', result.errors);
+        if (!cancelled) setLabelFormatsLoad(result);
+        return result;
+      });
+    load();
+    // Published from a dashboard: reload and tell the operator
+    const unsubscribe = onLabelFormatsUpdated(socketRef.current, () => {
+      load().then((result) => {
+        if (!cancelled && result.source === 'server')
+          setDashboardMessage({ text: `Label formats updated (${result.count})`, level: 'info' });
+      });
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
   useEffect(() => {
     return () => {
       if (scannerRef.current) scannerRef.current.clear().catch(() => {});
@@ -80,25 +311,32 @@ export default function App() {
     preload();
   }, [sid]);
 
-  /** Extract sid from dashboard QR URL (e.g. http://host:3002?sid=xxx) or plain text */
-  function parseSidFromScannedValue(decodedText: string): string | null {
+  /** Extract sid and pairing token from dashboard QR URL (e.g. http://host:3002?sid=xxx&token=yyy) or plain text */
+  function parseSidFromScannedValue(decodedText: string): { sid: string; token: string | null } | null {
     const t = decodedText.trim();
     if (!t) return null;
     try {
       const url = new URL(t);
       const s = url.searchParams.get('sid') || url.searchParams.get('room');
-      if (s) return s;
+      if (s) return { sid: s, token: url.searchParams.get('token') };
     } catch {
       // not a URL
     }
-    return t.length > 0 && t.length < 200 ? t : null;
+    return t.length > 0 && t.length < 200 ? { sid: t, token: null } : null;
   }
 
+  /** Join from a scanned QR or typed session ID / pairing link */
+  const openSession = (pairing: { sid: string; token: string | null }) => {
+    pairingTokenRef.current = pairing.token;
+    setJoinError(null);
+    setSid(pairing.sid);
+  };
+
   const startJoinScan = () => {
     setJoinScanError(null);
     if (typeof window !== 'undefined' && !window.isSecureContext) {
       setJoinScanError(
-        'Camera requires HTTPS on this device. Use "Enter session ID" below with the ID shown on the dashboard, or open this page over HTTPS.'
+        'Camera requires HTTPS on this device. Paste the pairing link shown under the dashboard QR code, or open this page over HTTPS.'
       );
       setJoinScanActive(true);
       return;
@@ -114,7 +352,7 @@ export default function App() {
         const msg = e?.message || String(e);
         setJoinScanError(
           msg.includes('Permission') || msg.includes('NotAllowed') || msg.includes('secure')
-            ? 'Camera blocked. Allow camera in browser settings, or enter session ID manually. On Android, camera may only work over HTTPS.'
+            ? 'Camera blocked. Allow camera in browser settings, or paste the pairing link manually. On Android, camera may only work over HTTPS.'
             : `Camera: ${msg}`
         );
         setJoinScanActive(true);
@@ -139,10 +377,10 @@ export default function App() {
             if (extracted) {
               scanner.stop().then(() => scanner.clear()).catch(() => {});
               joinScannerRef.current = null;
-              setSid(extracted);
+              openSession(extracted);
               setJoinScanActive(false);
               setJoinScanError(null);
-              setStatus(`Joined: ${extracted}`);
+              setStatus(`Joining: ${extracted.sid}`);
             }
           },
           () => {}
@@ -152,7 +390,7 @@ export default function App() {
           const msg = e instanceof Error ? e.message : String(e);
           setJoinScanError(
             msg.includes('Permission') || msg.includes('NotAllowed') || msg.includes('secure')
-              ? 'Camera not available. Enter session ID manually. On Android, use HTTPS for camera.'
+              ? 'Camera not available. Paste the pairing link manually. On Android, use HTTPS for camera.'
               : msg
           );
           joinScannerRef.current = null;
@@ -167,36 +405,258 @@ export default function App() {
     };
   }, [joinScanActive]);
 
+  /**
+   * Join (and remember) the room: first with the QR pairing token, later with the stored device key.
+   * Rejoin after every reconnect since the server drops membership on disconnect. Only a join the server
+   * refuses forgets the device key; one it did not answer keeps the key and is retried.
+   */
   useEffect(() => {
+    storeSid(sid);
     if (!sid) return;
-    joinRoom(socketRef.current, sid);
-    setStatus(`Joined room: ${sid}`);
+    const socket = socketRef.current;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const join = async () => {
+      clearTimeout(retryTimer);
+      const result = await joinRoom(socket, sid, {
+        role: 'scanner',
+        deviceId: deviceIdRef.current,
+        deviceName: deviceNameRef.current,
+        token: pairingTokenRef.current ?? undefined,
+        key: getDeviceKey(sid),
+      });
+      if (!result.ok && !result.rejected) {
+        setStatus(`Could not join ${sid}: ${result.error}. Retrying…`);
+        if (socket.connected) retryTimer = setTimeout(join, JOIN_RETRY_MS);
+        return;
+      }
+      if (!result.ok) {
+        storeDeviceKey(sid, null);
+        setJoinError(`Could not join ${sid}: ${result.error}. Scan the dashboard QR code to pair this device.`);
+        setSid(null);
+        return;
+      }
+      if (result.key) storeDeviceKey(sid, result.key);
+      pairingTokenRef.current = null;
+      removeTokenFromUrl();
+      joinedRef.current = true;
+      setStatus(`Joined room: ${sid}`);
+      flushOutbox(sid);
+      reportStatus();
+    };
+    const reportStatus = () => {
+      readBattery().then((battery) => {
+        if (joinedRef.current) sendDeviceStatus(socket, sid, battery ? { battery } : {});
+      });
+    };
+    const heartbeat = setInterval(reportStatus, DEVICE_STATUS_INTERVAL_MS);
+    const onDisconnect = () => {
+      joinedRef.current = false;
+    };
+    socket.on('connect', join);
+    socket.on('disconnect', onDisconnect);
+    if (socket.connected) join();
+    const offRevoked = onDeviceRevoked(socket, (revokedSid) => {
+      if (revokedSid !== sid) return;
+      storeDeviceKey(sid, null);
+      setJoinError('This device was removed from the session by the dashboard. Scan the QR code again to pair.');
+      setSid(null);
+    });
+    return () => {
+      joinedRef.current = false;
+      clearTimeout(retryTimer);
+      clearInterval(heartbeat);
+      socket.off('connect', join);
+      socket.off('disconnect', onDisconnect);
+      offRevoked();
+      leaveRoom(socket, sid);
+    };
   }, [sid]);
 
-  const emitScan = (payload: ScanPayload) => {
+  /** Show this session's outbox and retry pending scans whose backoff has elapsed */
+  useEffect(() => {
+    if (!sid) {
+      setDeliveries([]);
+      return;
+    }
+    listOutbox(sid).then(setDeliveries).catch(() => {});
+    const timer = setInterval(() => {
+      if (joinedRef.current) flushOutbox(sid);
+    }, OUTBOX_POLL_MS);
+    return () => clearInterval(timer);
+  }, [sid]);
+
+  /** Dashboard commands: handled by the latest handleCommand (it reads current state), acked with the result */
+  const commandHandlerRef = useRef<(envelope: ScannerCommandEnvelope) => Promise<string | void> | void>(() => {});
+  useEffect(() => {
     if (!sid) return;
-    sendScan(socketRef.current, sid, {
-      ...payload,
-      timestamp: Date.now(),
-    });
-    setLastScan(payload.value);
+    return onCommand(socketRef.current, deviceIdRef.current, (envelope) => commandHandlerRef.current(envelope));
+  }, [sid]);
+
+  /** Send one outbox entry and record the outcome (delivered with server scan ID, retry later, or failed) */
+  async function deliverEntry(entry: OutboxEntry) {
+    if (inFlightRef.current.has(entry.localId)) return;
+    inFlightRef.current.add(entry.localId);
+    try {
+      const result = await sendScan(socketRef.current, entry.sid, entry.event);
+      const attempts = entry.attempts + 1;
+      const next: OutboxEntry = result.ok
+        ? { ...entry, attempts, status: 'delivered', scanId: result.scanId, error: undefined }
+        : {
+            ...entry,
+            attempts,
+            status: !result.retryable || attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending',
+            nextAttemptAt: Date.now() + retryDelay(attempts),
+            error: result.error,
+          };
+      await putOutboxEntry(next);
+      setDeliveries(await listOutbox(entry.sid));
+    } catch (e) {
+      console.warn('Outbox: could not update entry', e);
+    } finally {
+      inFlightRef.current.delete(entry.localId);
+    }
+  }
+
+  /** Send due pending entries of a session, oldest first */
+  async function flushOutbox(forSid: string) {
+    try {
+      const due = (await listOutbox(forSid))
+        .filter((e) => e.status === 'pending' && e.nextAttemptAt <= Date.now())
+        .reverse();
+      for (const entry of due) {
+        if (!joinedRef.current) break;
+        await deliverEntry(entry);
+      }
+    } catch (e) {
+      console.warn('Outbox: flush failed', e);
+    }
+  }
+
+  const retryDelivery = (entry: OutboxEntry) => {
+    const next: OutboxEntry = { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: undefined };
+    putOutboxEntry(next)
+      .then(() => listOutbox(entry.sid))
+      .then(setDeliveries)
+      .then(() => {
+        if (joinedRef.current) flushOutbox(entry.sid);
+      })
+      .catch((e) => console.warn('Outbox: retry failed', e));
+  };
+
+  /**
+   * Fill in the ScanEvent envelope (version, device, time, idempotency key), store it in the outbox and send it to the room.
+   * If offline or not yet joined, the outbox retries once the connection returns.
+   */
+  const emitScan = (event: ScanEventInit, summary: string) => {
+    if (!sid) return;
+    const now = Date.now();
+    const localId = createLocalId();
+    const entry: OutboxEntry = {
+      localId,
+      sid,
+      event: {
+        ...event,
+        version: SCAN_EVENT_VERSION,
+        deviceId: deviceIdRef.current,
+        timestamp: event.timestamp ?? now,
+        // Same key on every retry, so the server drops replays of a scan it already stored
+        idempotencyKey: localId,
+      } as ScanEvent,
+      summary,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    };
+    putOutboxEntry(entry)
+      .then(() => listOutbox(sid))
+      .then(setDeliveries)
+      .then(() => {
+        if (joinedRef.current) return deliverEntry(entry);
+      })
+      .catch((e) => console.warn('Outbox: could not queue scan', e));
+  };
+
+  const sendLabelScan = (event: LabelScanInit, fallbackSummary: string) => {
+    const summary = labelSummary(event.label) || fallbackSummary;
+    emitScan(event, summary);
+    setLastScan(summary);
+  };
+
+  /** Send a label scan, or open the confirmation first when "Confirm before sending" is on */
+  const confirmOrSendLabelScan = (event: LabelScanInit, fallbackSummary: string): 'sent' | 'confirming' => {
+    if (!confirmBeforeSendRef.current) {
+      sendLabelScan(event, fallbackSummary);
+      return 'sent';
+    }
+    const edited = Object.fromEntries(confirmationKeys(event.label).map((key) => [key, event.label[key] ?? '']));
+    const next = { event, edited, fallbackSummary };
+    confirmationRef.current = next;
+    setConfirmation(next);
+    return 'confirming';
+  };
+
+  /** Send the confirmed scan; changed fields are applied and recorded as corrections by this device */
+  const sendConfirmation = () => {
+    if (!confirmation) return;
+    const { event, edited, fallbackSummary } = confirmation;
+    const corrections = labelCorrections(event.label, edited, deviceNameRef.current);
+    sendLabelScan(
+      corrections.length
+        ? { ...event, label: applyLabelCorrections(event.label, corrections), review: { corrections } }
+        : event,
+      fallbackSummary
+    );
+    setConfirmation(null);
+    setStatus(
+      corrections.length ? `Sent with ${corrections.length} correction(s) ✓` : 'Scan complete ✓ — sending to dashboard'
+    );
+  };
+
+  /** Drop the pending scan; rescan restarts OCR (Scandit keeps scanning) */
+  const closeConfirmation = (rescan: boolean) => {
+    const event = confirmation?.event;
+    setConfirmation(null);
+    setStatus(rescan ? 'Rescanning…' : 'Scan discarded');
+    if (rescan && event?.kind === 'ocr-text') startOcr();
   };
 
-  /** Scandit Label Capture result: same format as Tesseract OCR for dashboard */
-  const handleScanditLabelResult = (labelJson: { batch_no: string; lot_no: string; expiry: string; upc_gtin?: string; serial?: string }, raw: string) => {
-    const valueToSend = JSON.stringify(labelJson);
-    emitScan({ type: 'ocr', value: valueToSend, raw: raw || '(Scandit label capture)' });
-    const summary = [
-      labelJson.batch_no && `Batch: ${labelJson.batch_no}`,
-      labelJson.lot_no && `Lot: ${labelJson.lot_no}`,
-      labelJson.expiry && `Exp: ${labelJson.expiry}`,
-      labelJson.upc_gtin && `UPC: ${labelJson.upc_gtin}`,
-      labelJson.serial && `Serial: ${labelJson.serial}`,
-    ]
-      .filter(Boolean)
-      .join(', ');
-    setLastScan(summary || 'Sent');
-    setStatus('Scan complete ✓ — sent to dashboard');
+  const changeOcrConsensusFrames = (frames: number) => {
+    storeOcrConsensusFrames(frames);
+    setOcrConsensusFrames(frames);
+  };
+
+  const changeOcrPreprocess = (choice: OcrPreprocessChoice) => {
+    storeOcrPreprocess(choice);
+    setOcrPreprocess(choice);
+  };
+
+  const toggleOcrPreprocessDebug = () => {
+    storeOcrPreprocessDebug(!ocrPreprocessDebug);
+    setOcrPreprocessDebug(!ocrPreprocessDebug);
+  };
+
+  const changeOcrRegions = (regions: OcrRegion[]) => {
+    storeOcrRegions(regions);
+    setOcrRegions(regions);
+  };
+
+  // Release the previous debug images once they are replaced
+  useEffect(() => () => ocrDebugImages.forEach((image) => URL.revokeObjectURL(image.url)), [ocrDebugImages]);
+
+  const toggleConfirmBeforeSend = () => {
+    storeConfirmBeforeSend(!confirmBeforeSend);
+    setConfirmBeforeSend(!confirmBeforeSend);
+  };
+
+  /** Scandit Label Capture result: same label fields as Tesseract OCR for dashboard */
+  const handleScanditLabelResult = (labelJson: LabelJson, raw: string) => {
+    if (confirmationRef.current) return;
+    const outcome = confirmOrSendLabelScan(
+      { kind: 'label', source: 'scandit', label: labelJson, raw: raw || '(Scandit label capture)' },
+      'Label capture'
+    );
+    setStatus(outcome === 'sent' ? 'Scan complete ✓ — sending to dashboard' : 'Check the fields, then send');
     if (typeof navigator !== 'undefined' && navigator.vibrate) navigator.vibrate(100);
   };
 
@@ -206,18 +666,19 @@ export default function App() {
     setStatus('Starting camera…');
   };
 
-  const onBarcodeSuccess = (decodedText: string) => {
+  const onBarcodeSuccess = (decodedText: string, symbology?: string) => {
     if (!sid) return;
     if (barcodeScanDoneRef.current) return;
     barcodeScanDoneRef.current = true;
-    sendScan(socketRef.current, sid, {
-      type: 'barcode',
-      value: decodedText,
-      raw: decodedText,
-      timestamp: Date.now(),
-    });
+    const gs1 = parseGs1(decodedText);
+    emitScan(
+      gs1
+        ? { kind: 'gs1', source: 'html5-qrcode', value: decodedText, symbology, elements: gs1.elements, raw: decodedText }
+        : { kind: 'barcode', source: 'html5-qrcode', value: decodedText, symbology, raw: decodedText },
+      decodedText
+    );
     setLastScan(decodedText);
-    setStatus(`Sent: ${decodedText}`);
+    setStatus(`Scanned: ${decodedText}`);
     if (typeof navigator !== 'undefined' && navigator.vibrate) navigator.vibrate(100);
     setMode(null);
   };
@@ -235,7 +696,7 @@ export default function App() {
       .start(
         { facingMode: 'environment' },
         { fps: 10, qrbox: { width: 180, height: 110 } },
-        (decodedText) => onBarcodeSuccessRef.current(decodedText),
+        (decodedText, result) => onBarcodeSuccessRef.current(decodedText, result.result.format?.formatName),
         () => {}
       )
       .then(() => setStatus('Point at a barcode or QR code'))
@@ -294,159 +755,164 @@ export default function App() {
     return out;
   };
 
-  /** Fix common OCR confusions in batch/product codes: 8↔B, 2↔Z (e.g. 8027 → B0Z7) */
-  const correctBatchOcr = (s: string): string => {
-    return s
-      .replace(/8/g, 'B')
-      .replace(/2/g, 'Z')
-      .toUpperCase();
-  };
-
-  /** Build final label JSON: use format registry + optional OCR correction for batch (e.g. 8027→B0Z7) */
-  const ocrTextToLabelJson = (ocrText: string): { batch_no: string; lot_no: string; expiry: string } => {
-    const out = extractLabelFromOcr(ocrText);
-    if (out.batch_no && /^\d{3,5}$/.test(out.batch_no))
-      out.batch_no = correctBatchOcr(out.batch_no);
-    return out;
-  };
-
   useEffect(() => {
     if (mode !== 'ocr' || !sid) return;
     ocrScanDoneRef.current = false;
     let cancelled = false;
     let stream: MediaStream | null = null;
     let timeoutId: ReturnType<typeof setTimeout>;
+    let consensusTimeoutId: ReturnType<typeof setTimeout> | undefined;
     let recognizeInProgress = false;
-    const OCR_CROP_W_RATIO = 0.5;
-    const OCR_CROP_H_RATIO = 0.2;
-
-    const workerPromise =
-      ocrProvider === 'tesseract'
-        ? (async () => {
-            const w = await createWorker('eng', 1, { logger: () => {} });
-            await w.setParameters({
-              tessedit_char_whitelist:
-                '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz -/.,:@#()\n',
-              tessedit_pageseg_mode: 6,
-            });
-            return w;
-          })()
-        : null;
+    /** Frames with text so far; the scan is sent once their fields agree (ocrConsensus) */
+    const frames: OcrFrame[] = [];
+    /** Regions the frames were read with; moving or adding a region starts over */
+    let framesRegions = ocrRegionsRef.current;
+    const startedAt = Date.now();
+    setOcrPartial(null);
+    setOcrDebugImages([]);
+
+    const preprocessor = createOcrPreprocessor();
+    const formatDefinitions = getLabelFormatDefinitions();
+    /** 'auto': try each format's preset in turn until a frame matches a format, then keep that format's preset */
+    const presetCycle = ocrPreprocessCycle(formatDefinitions);
+    let lockedPreset: OcrPreprocessPresetName | null = ocrPreprocess === 'auto' ? null : ocrPreprocess;
+    let attempt = 0;
+
+    const engines = createOcrEngines(ocrProvider, { serverUrl: getSocketUrl() });
+    if (engines.length === 0) {
+      setStatus(`OCR: unknown provider ${ocrProvider}`);
+      setMode(null);
+      return;
+    }
+    const engineLabel = ocrProvider === 'hybrid' ? 'Hybrid OCR' : engines[0].label;
+    const abortController = new AbortController();
+    // Errors surface again on recognize
+    engines.forEach((engine) => engine.prepare?.().catch(() => {}));
+
+    /** One region of the frame: its barcode, or pre-processing and OCR with the region's keys and hints */
+    const readRegion = async (
+      { region, canvas, ctx }: ReturnType<typeof cropRegion> & { region: OcrRegion },
+      preset: OcrPreprocessPresetName
+    ): Promise<OcrRegionRead | null> => {
+      if (region.kind === 'barcode') {
+        const value = await detectBarcode(canvas);
+        if (value) {
+          return { kind: region.kind, text: value, raw: value, label: extractRegionLabel('barcode', value, extractLabelFromOcr) };
+        }
+      }
+      const { image, info } = await preprocessor.run(ctx.getImageData(0, 0, canvas.width, canvas.height), preset);
+      canvas.width = image.width;
+      canvas.height = image.height;
+      ctx.putImageData(image, 0, 0);
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png', 0.9));
+      if (!blob || cancelled) return null;
+      const result = await recognizeLabel(blob, engines, {
+        signal: abortController.signal,
+        clean: filterHealthcareOcrText,
+        extract: (text) => extractRegionLabel(region.kind, text, extractLabelFromOcr),
+        keys: OCR_REGION_KEYS[region.kind],
+      });
+      return { kind: region.kind, ...result, preprocess: { ...info, preset }, image: blob };
+    };
+
+    /** Every region of the current video frame (cropped together, read one after another), combined */
+    const captureFrame = async (video: HTMLVideoElement, regions: OcrRegion[]): Promise<OcrFrame | null> => {
+      const preset = lockedPreset ?? presetCycle[attempt++ % presetCycle.length];
+      const crops = regions.map((region) => ({ region, ...cropRegion(video, region) }));
+      const reads: OcrRegionRead[] = [];
+      for (const crop of crops) {
+        const read = await readRegion(crop, preset);
+        if (!read) return null;
+        reads.push(read);
+      }
+      if (ocrPreprocessDebug) {
+        setOcrDebugImages(
+          reads.flatMap(({ kind, image, preprocess }) =>
+            image && preprocess ? [{ kind, url: URL.createObjectURL(image), preprocess }] : []
+          )
+        );
+      }
+      const preprocess = reads.find((r) => r.preprocess)?.preprocess;
+      if (reads.length === 1) {
+        const [{ text, raw, label, decision }] = reads;
+        return { text, raw, label, decision, preprocess };
+      }
+      const { label, supplied } = combineRegionLabels(reads);
+      return {
+        text: reads.map((r) => r.text).filter(Boolean).join('\n'),
+        raw: reads.map((r) => `[${r.kind}]\n${r.raw.trim()}`).join('\n\n'),
+        label,
+        preprocess,
+        regions: reads.map((r) => ({ kind: r.kind, text: r.text, keys: supplied.get(r.kind) ?? [] })),
+      };
+    };
+
+    const onOcrFrame = (frame: OcrFrame, regions: OcrRegion[]) => {
+      if (regions !== framesRegions) {
+        frames.length = 0;
+        framesRegions = regions;
+      }
+      if (frame.text) frames.push(frame);
+      if (!lockedPreset && frame.text) lockedPreset = labelPreprocessPreset(frame.label, formatDefinitions);
+      const consensus = ocrConsensus(frames.map((f) => f.label), ocrConsensusFrames);
+      if (frames.length) setOcrPartial(consensus);
+      if (!consensus.complete) {
+        timeoutId = setTimeout(runCapture, OCR_FRAME_INTERVAL_MS);
+        return;
+      }
+      ocrScanDoneRef.current = true;
+      clearTimeout(consensusTimeoutId);
+      const { text: t, raw, decision, preprocess, regions: regionSummaries } = frames[consensus.frameIndex];
+      const event: LabelScanInit = {
+        kind: 'ocr-text',
+        source: ocrProvider,
+        text: t,
+        label: consensus.label,
+        raw: raw.trim() || t,
+        ...(ocrProvider === 'hybrid' && decision && { ocrDecision: decision }),
+        consensus: {
+          frames: frames.length,
+          required: consensus.required,
+          agreed: Object.fromEntries(Object.entries(consensus.fields).map(([key, field]) => [key, field.frames])),
+          durationMs: Date.now() - startedAt,
+        },
+        ...(preprocess && { preprocess }),
+        ...(regionSummaries && { regions: regionSummaries }),
+      };
+      const fallbackSummary = raw.slice(0, 60) || 'OCR';
+      if (confirmOrSendLabelScan(event, fallbackSummary) === 'confirming') {
+        setStatus('Check the fields, then send');
+      } else {
+        setStatus('Scan complete ✓ — sending to dashboard');
+      }
+      setMode(null);
+    };
 
     const runCapture = () => {
       if (cancelled || recognizeInProgress || ocrScanDoneRef.current) return;
       const video = videoOcrRef.current;
-      if (!video || !video.videoWidth || !video.videoHeight || video.readyState < 2) return;
+      if (!video || !video.videoWidth || !video.videoHeight || video.readyState < 2) {
+        timeoutId = setTimeout(runCapture, OCR_FRAME_INTERVAL_MS);
+        return;
+      }
 
       recognizeInProgress = true;
-      const vw = video.videoWidth;
-      const vh = video.videoHeight;
-      const cw = Math.round(vw * OCR_CROP_W_RATIO);
-      const ch = Math.round(vh * OCR_CROP_H_RATIO);
-      const sx = (vw - cw) / 2;
-      const sy = (vh - ch) / 2;
-      const canvas = document.createElement('canvas');
-      canvas.width = cw;
-      canvas.height = ch;
-      const ctx = canvas.getContext('2d')!;
-      ctx.drawImage(video, sx, sy, cw, ch, 0, 0, cw, ch);
-
-      const onOcrText = (raw: string) => {
-        if (cancelled || ocrScanDoneRef.current) return;
-        ocrScanDoneRef.current = true;
-        const t = filterHealthcareOcrText(raw);
-        const labelJson = t ? ocrTextToLabelJson(t) : { batch_no: '', lot_no: '', expiry: '' };
-        const valueToSend = JSON.stringify(labelJson);
-        const rawForDashboard = raw.trim() || t || '(no text from OCR)';
-        emitScan({ type: 'ocr', value: valueToSend, raw: rawForDashboard });
-        const summary = t
-          ? [
-              labelJson.batch_no && `Batch: ${labelJson.batch_no}`,
-              labelJson.lot_no && `Lot: ${labelJson.lot_no}`,
-              labelJson.expiry && `Exp: ${labelJson.expiry}`,
-            ]
-              .filter(Boolean)
-              .join(', ')
-          : null;
-        setLastScan(summary || raw.slice(0, 60) || 'Sent');
-        setStatus(raw.trim() ? 'Scan complete ✓ — sent to dashboard' : 'No text found — check dashboard');
-        setMode(null);
-      };
-
-      canvas.toBlob(
-        (blob) => {
-          if (cancelled || !blob) {
-            recognizeInProgress = false;
-            return;
-          }
-          if (ocrProvider === 'vision' || ocrProvider === 'paddle') {
-            const baseUrl = getSocketUrl();
-            const endpoint = ocrProvider === 'vision' ? '/api/ocr' : '/api/ocr-paddle';
-            const label = ocrProvider === 'vision' ? 'Vision' : 'PaddleOCR';
-            const reader = new FileReader();
-            reader.onload = () => {
-              const dataUrl = typeof reader.result === 'string' ? reader.result : '';
-              const controller = new AbortController();
-              const timeoutId = setTimeout(() => controller.abort(), 45000);
-              fetch(`${baseUrl}${endpoint}`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ image: dataUrl }),
-                signal: controller.signal,
-              })
-                .then((r) => r.json())
-                .then((data) => {
-                  if (cancelled || ocrScanDoneRef.current) return;
-                  if (data.error) {
-                    setStatus(`${label}: ${data.error}`);
-                    setMode(null);
-                    return;
-                  }
-                  onOcrText((data.text ?? '').trim());
-                })
-                .catch((err) => {
-                  if (!cancelled) {
-                    const msg = err?.name === 'AbortError' ? 'Request timed out (45s)' : (err instanceof Error ? err.message : 'Error');
-                    setStatus(`${label}: ${msg}`);
-                    setMode(null);
-                  }
-                })
-                .finally(() => {
-                  clearTimeout(timeoutId);
-                  recognizeInProgress = false;
-                });
-            };
-            reader.onerror = () => {
-              if (!cancelled) {
-                setStatus('Failed to read image');
-                setMode(null);
-              }
-              recognizeInProgress = false;
-            };
-            reader.readAsDataURL(blob);
-            return;
-          }
-          if (workerPromise) {
-            workerPromise
-              .then((worker) => worker.recognize(blob))
-              .then(({ data: { text } }) => {
-                if (cancelled || ocrScanDoneRef.current) return;
-                onOcrText(text?.trim() ?? '');
-              })
-              .catch((err) => {
-                if (!cancelled) {
-                  setStatus(`OCR: ${err instanceof Error ? err.message : 'Error'}`);
-                  setMode(null);
-                }
-              })
-              .finally(() => {
-                recognizeInProgress = false;
-              });
+      const regions = ocrRegionsRef.current;
+      captureFrame(video, regions)
+        .then((frame) => {
+          recognizeInProgress = false;
+          if (cancelled || ocrScanDoneRef.current) return;
+          // A frame read while a region was being moved is dropped
+          if (frame && regions === ocrRegionsRef.current) onOcrFrame(frame, regions);
+          else timeoutId = setTimeout(runCapture, OCR_FRAME_INTERVAL_MS);
+        })
+        .catch((err) => {
+          recognizeInProgress = false;
+          if (!cancelled) {
+            setStatus(`${engineLabel}: ${err instanceof Error ? err.message : 'Error'}`);
+            setMode(null);
           }
-        },
-        'image/png',
-        0.9
-      );
+        });
     };
 
     navigator.mediaDevices
@@ -468,7 +934,7 @@ export default function App() {
         video.muted = true;
         video.play().then(() => {
           if (cancelled) return;
-          setStatus('Position label in blue frame — capturing once…');
+          setStatus('Position label in blue frame — reading until the fields agree…');
         });
 
         const startWhenReady = () => {
@@ -480,6 +946,17 @@ export default function App() {
           }
         };
         startWhenReady();
+        consensusTimeoutId = setTimeout(() => {
+          if (cancelled || ocrScanDoneRef.current) return;
+          ocrScanDoneRef.current = true;
+          const partial = frames.length ? describeOcrConsensus(ocrConsensus(frames.map((f) => f.label), ocrConsensusFrames)) : '';
+          setStatus(
+            partial
+              ? `No agreement in ${OCR_CONSENSUS_TIMEOUT_MS / 1000} s (${partial}) — nothing sent, try again`
+              : `No label fields read in ${OCR_CONSENSUS_TIMEOUT_MS / 1000} s — nothing sent, try again`
+          );
+          setMode(null);
+        }, OCR_CONSENSUS_TIMEOUT_MS);
       })
       .catch((e) => {
         if (!cancelled) setStatus(`OCR error: ${e instanceof Error ? e.message : String(e)}`);
@@ -488,20 +965,81 @@ export default function App() {
     return () => {
       cancelled = true;
       clearTimeout(timeoutId);
+      clearTimeout(consensusTimeoutId);
+      setOcrPartial(null);
       if (stream) stream.getTracks().forEach((t) => t.stop());
       streamRef.current = null;
-      if (ocrProvider === 'tesseract') workerPromise?.then((w) => w.terminate());
+      abortController.abort();
+      engines.forEach((engine) => engine.dispose?.());
+      preprocessor.dispose();
     };
-  }, [mode, sid, ocrProvider]);
+  }, [mode, sid, ocrProvider, ocrConsensusFrames, ocrPreprocess, ocrPreprocessDebug]);
 
   const stopOcr = () => {
     setMode(null);
     setStatus(sid ? `Joined: ${sid}` : 'Enter room');
   };
 
+  /** Start a capture mode on behalf of the dashboard; null stops the camera */
+  const startCapture = (captureMode: ScannerCaptureMode | null) => {
+    if (captureMode === 'label') {
+      setMode(null);
+      setShowScanditLabel(true);
+      return;
+    }
+    setShowScanditLabel(false);
+    if (captureMode === 'barcode') startBarcode();
+    else if (captureMode === 'ocr') startOcr();
+    else stopOcr();
+  };
+
+  const handleCommand = (envelope: ScannerCommandEnvelope): Promise<string | void> | void => {
+    if (envelope.sid !== sid) throw new Error('scanner is not in this session');
+    const { command } = envelope;
+    switch (command.type) {
+      case 'start-label-capture':
+        startCapture('label');
+        return;
+      case 'set-mode':
+        startCapture(command.mode);
+        return;
+      case 'set-ocr-provider':
+        if (!isOcrProviderOption(command.provider)) throw new Error(`Unknown OCR provider: ${command.provider}`);
+        setOcrProvider(command.provider);
+        return;
+      case 'request-rescan':
+        setDashboardMessage({ text: `Please scan again${command.reason ? `: ${command.reason}` : ''}`, level: 'warning' });
+        if (typeof navigator !== 'undefined' && navigator.vibrate) navigator.vibrate([100, 50, 100]);
+        if (command.mode) startCapture(command.mode);
+        return;
+      case 'show-message':
+        setDashboardMessage({ text: command.text, level: command.level ?? 'info' });
+        return;
+      case 'prompt':
+        return new Promise<string>((resolve, reject) => {
+          // The server stops waiting after PROMPT_TIMEOUT_MS; close the prompt then too
+          const timer = setTimeout(() => {
+            setPrompt(null);
+            reject(new Error('no answer'));
+          }, PROMPT_TIMEOUT_MS);
+          setPrompt({
+            text: command.text,
+            options: command.options?.length ? command.options : ['OK'],
+            answer: (option) => {
+              clearTimeout(timer);
+              setPrompt(null);
+              resolve(option);
+            },
+          });
+        });
+    }
+  };
+  commandHandlerRef.current = handleCommand;
+
+  /** Accepts a session ID (for an already paired device) or the full pairing link from the dashboard */
   const submitManualSid = () => {
-    const s = manualSid.trim();
-    if (s) setSid(s);
+    const pairing = parseSidFromScannedValue(manualSid);
+    if (pairing) openSession(pairing);
   };
 
   if (!sid) {
@@ -510,10 +1048,25 @@ export default function App() {
         <h1 style={styles.title}>Mobile Scanner</h1>
         {!joinScanActive ? (
           <>
-            <p style={styles.hint}>Enter session ID or scan the dashboard QR code</p>
+            {joinError && (
+              <div style={styles.errorBox}>
+                <p style={styles.errorText}>{joinError}</p>
+              </div>
+            )}
+            <label style={styles.hint} htmlFor="device-name">Device name (shown on the dashboard)</label>
             <input
+              id="device-name"
               type="text"
-              placeholder="Session ID"
+              value={deviceName}
+              onChange={(e) => setDeviceName(e.target.value)}
+              onBlur={() => storeDeviceName(deviceName)}
+              style={styles.input}
+              autoComplete="off"
+            />
+            <p style={styles.hint}>Scan the dashboard QR code, or paste its pairing link</p>
+            <input
+              type="text"
+              placeholder="Pairing link or session ID"
               value={manualSid}
               onChange={(e) => setManualSid(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && submitManualSid()}
@@ -537,7 +1090,7 @@ export default function App() {
             {joinScanError ? (
               <div style={styles.errorBox}>
                 <p style={styles.errorText}>{joinScanError}</p>
-                <p style={styles.hint}>Enter the session ID from the dashboard below instead.</p>
+                <p style={styles.hint}>Paste the pairing link from the dashboard instead.</p>
               </div>
             ) : (
               <>
@@ -570,9 +1123,80 @@ export default function App() {
     <div style={styles.container}>
       <div style={styles.header}>
         <span style={styles.badge}>{status}</span>
-        <span style={styles.sid}>Room: {sid}</span>
+        <span style={styles.sid}>
+          {deviceName} · Room: {sid}
+        </span>
+        {mode === null && !showScanditLabel && (
+          <button type="button" onClick={() => setSid(null)} style={styles.leaveButton}>
+            Leave
+          </button>
+        )}
       </div>
 
+      {dashboardMessage && (
+        <div style={{ ...styles.dashboardMessage, ...styles[`message_${dashboardMessage.level}`] }}>
+          <span>{dashboardMessage.text}</span>
+          <button type="button" onClick={() => setDashboardMessage(null)} style={styles.messageDismiss}>
+            ✕
+          </button>
+        </div>
+      )}
+
+      {prompt && (
+        <div style={styles.promptOverlay}>
+          <div style={styles.promptBox}>
+            <p style={styles.promptText}>{prompt.text}</p>
+            {prompt.options.map((option) => (
+              <button key={option} type="button" onClick={() => prompt.answer(option)} style={styles.button}>
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {confirmation && (
+        <div style={styles.promptOverlay}>
+          <div style={styles.promptBox}>
+            <p style={styles.promptText}>Check the label fields</p>
+            {(() => {
+              const lowConfidence = new Map(lowConfidenceFields(confirmation.event.label.confidence));
+              return confirmationKeys(confirmation.event.label).map((key) => {
+                const evidence = lowConfidence.get(key);
+                return (
+                  <label key={key} style={styles.confirmField}>
+                    <span style={evidence ? styles.confirmLabelLow : styles.confirmLabel}>
+                      {key}
+                      {evidence && ` · check (${Math.round(evidence.confidence * 100)}%)`}
+                    </span>
+                    <input
+                      type="text"
+                      value={confirmation.edited[key] ?? ''}
+                      onChange={(e) =>
+                        setConfirmation({ ...confirmation, edited: { ...confirmation.edited, [key]: e.target.value } })
+                      }
+                      placeholder={key === 'expiry' ? 'YYYY-MM-DD' : ''}
+                      style={evidence ? { ...styles.input, ...styles.inputLowConfidence } : styles.input}
+                      autoCapitalize="characters"
+                      autoComplete="off"
+                    />
+                  </label>
+                );
+              });
+            })()}
+            <button type="button" onClick={sendConfirmation} style={styles.button}>
+              Send
+            </button>
+            <button type="button" onClick={() => closeConfirmation(true)} style={styles.buttonSecondary}>
+              Rescan
+            </button>
+            <button type="button" onClick={() => closeConfirmation(false)} style={styles.buttonDanger}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
       {mode === 'barcode' && (
         <>
           <p style={styles.hint}>Point at a barcode or QR — one scan, then camera stops</p>
@@ -596,7 +1220,10 @@ export default function App() {
 
       {mode === 'ocr' && (
         <>
-          <p style={styles.hint}>Position label in the blue frame — one capture, then done</p>
+          <p style={styles.hint}>
+            Hold the label in the blue frame until {ocrConsensusFrames > 1 ? `${ocrConsensusFrames} frames agree` : 'the fields are read'}.
+            Drag a frame to move it, its corner to resize it.
+          </p>
           <div style={styles.videoWrap}>
             <video
               ref={videoOcrRef}
@@ -605,12 +1232,33 @@ export default function App() {
               muted
               style={styles.ocrVideo}
             />
-            <div style={styles.ocrOverlayTop} aria-hidden />
-            <div style={styles.ocrOverlayBottom} aria-hidden />
-            <div style={styles.ocrOverlayLeft} aria-hidden />
-            <div style={styles.ocrOverlayRight} aria-hidden />
-            <div style={styles.ocrFocusFrame} aria-hidden />
+            <OcrRegionOverlay regions={ocrRegions} onChange={changeOcrRegions} />
+            {ocrPartial && <div style={styles.ocrPartial}>{describeOcrConsensus(ocrPartial) || 'No label fields yet'}</div>}
+          </div>
+          <div style={styles.ocrProviderRow}>
+            {OCR_REGION_KINDS.filter((kind) => !ocrRegions.some((r) => r.kind === kind)).map((kind) => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => changeOcrRegions([...ocrRegions, OCR_REGION_DEFAULTS[kind]])}
+                style={styles.ocrProviderBtn}
+              >
+                + {OCR_REGION_TITLES[kind]} area
+              </button>
+            ))}
+            <button type="button" onClick={() => changeOcrRegions([...DEFAULT_OCR_REGIONS])} style={styles.ocrProviderBtn}>
+              Reset areas
+            </button>
           </div>
+          {ocrPreprocessDebug &&
+            ocrDebugImages.map((image) => (
+              <figure key={image.kind} style={styles.ocrDebug}>
+                <img src={image.url} alt={`${OCR_REGION_TITLES[image.kind]} area sent to OCR`} style={styles.ocrDebugImage} />
+                <figcaption style={styles.ocrDebugCaption}>
+                  {OCR_REGION_TITLES[image.kind]}: {describeOcrPreprocess(image.preprocess)}
+                </figcaption>
+              </figure>
+            ))}
           <button type="button" onClick={stopOcr} style={styles.buttonDanger}>
             Stop OCR
           </button>
@@ -619,36 +1267,88 @@ export default function App() {
 
       {!mode && (
         <>
+          {labelFormatsLoad && (
+            <details style={styles.labelFormats}>
+              <summary>
+                Label formats: {labelFormatsLoad.count} ({labelFormatsLoad.source})
+                {labelFormatsLoad.errors.length > 0 && ` · ${labelFormatsLoad.errors.length} problem(s)`}
+              </summary>
+              {labelFormatsLoad.errors.map((error) => (
+                <p key={error} style={styles.labelFormatError}>
+                  {error}
+                </p>
+              ))}
+            </details>
+          )}
           {lastScan && <p style={styles.lastScan}>Last: {lastScan}</p>}
+          {deliveries.length > 0 && (
+            <ul style={styles.deliveryList}>
+              {deliveries.slice(0, 5).map((d) => (
+                <li key={d.localId} style={styles.deliveryRow}>
+                  <span style={styles.deliverySummary}>{d.summary}</span>
+                  <span
+                    style={{ ...styles.deliveryStatus, ...styles[`delivery_${d.status}`] }}
+                    title={d.error ?? d.scanId}
+                  >
+                    {DELIVERY_LABELS[d.status]}
+                    {d.status === 'pending' && d.attempts > 0 && ` (retry ${d.attempts})`}
+                  </span>
+                  {d.status === 'failed' && (
+                    <button type="button" onClick={() => retryDelivery(d)} style={styles.retryButton}>
+                      Retry
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <label style={styles.confirmToggle}>
+            <input type="checkbox" checked={confirmBeforeSend} onChange={toggleConfirmBeforeSend} />
+            Confirm label fields before sending
+          </label>
+          <label style={styles.confirmToggle}>
+            OCR frames that must agree:
+            <select value={ocrConsensusFrames} onChange={(e) => changeOcrConsensusFrames(Number(e.target.value))}>
+              {OCR_CONSENSUS_FRAME_CHOICES.map((n) => (
+                <option key={n} value={n}>
+                  {n === 1 ? '1 (first read)' : n}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={styles.confirmToggle}>
+            OCR pre-processing:
+            <select value={ocrPreprocess} onChange={(e) => changeOcrPreprocess(e.target.value as OcrPreprocessChoice)}>
+              <option value="auto">auto (per label format)</option>
+              {OCR_PREPROCESS_PRESET_NAMES.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={styles.confirmToggle}>
+            <input type="checkbox" checked={ocrPreprocessDebug} onChange={toggleOcrPreprocessDebug} />
+            Show the processed image while reading
+          </label>
           <div style={styles.ocrProviderRow}>
             <span style={styles.ocrProviderLabel}>OCR:</span>
-            <button
-              type="button"
-              onClick={() => setOcrProvider('tesseract')}
-              style={ocrProvider === 'tesseract' ? styles.ocrProviderBtnActive : styles.ocrProviderBtn}
-            >
-              Device (Tesseract)
-            </button>
-            <button
-              type="button"
-              onClick={() => setOcrProvider('vision')}
-              style={ocrProvider === 'vision' ? styles.ocrProviderBtnActive : styles.ocrProviderBtn}
-            >
-              Cloud (Vision)
-            </button>
-            <button
-              type="button"
-              onClick={() => setOcrProvider('paddle')}
-              style={ocrProvider === 'paddle' ? styles.ocrProviderBtnActive : styles.ocrProviderBtn}
-            >
-              Cloud (PaddleOCR)
-            </button>
+            {ocrProviderChoices.map((entry) => (
+              <button
+                key={entry.name}
+                type="button"
+                onClick={() => setOcrProvider(entry.name)}
+                style={ocrProvider === entry.name ? styles.ocrProviderBtnActive : styles.ocrProviderBtn}
+              >
+                {entry.label}
+              </button>
+            ))}
           </div>
           <button type="button" onClick={startBarcode} style={styles.button}>
             Scan barcode / QR (one at a time)
           </button>
           <button type="button" onClick={startOcr} style={styles.button}>
-            Capture text (OCR) — one at a time
+            Capture text (OCR) — until fields agree
           </button>
           <button
             type="button"
@@ -693,6 +1393,96 @@ const styles: Record<string, React.CSSProperties> = {
   hint: { margin: 0, color: '#a1a1aa', fontSize: 14 },
   badge: { fontSize: 12, color: '#a1a1aa' },
   sid: { fontSize: 12, color: '#71717a' },
+  dashboardMessage: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    width: '100%',
+    maxWidth: 400,
+    padding: '10px 12px',
+    borderRadius: 8,
+    fontSize: 14,
+    boxSizing: 'border-box',
+  },
+  message_info: { background: 'rgba(59,130,246,0.2)', color: '#bfdbfe' },
+  message_warning: { background: 'rgba(234,179,8,0.2)', color: '#fde047' },
+  message_error: { background: 'rgba(239,68,68,0.2)', color: '#fca5a5' },
+  messageDismiss: {
+    marginLeft: 'auto',
+    background: 'transparent',
+    border: 'none',
+    color: 'inherit',
+    fontSize: 14,
+    cursor: 'pointer',
+  },
+  promptOverlay: {
+    position: 'fixed',
+    inset: 0,
+    zIndex: 200,
+    background: 'rgba(0,0,0,0.7)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  promptBox: {
+    width: '100%',
+    maxWidth: 340,
+    padding: 16,
+    borderRadius: 12,
+    background: '#18181b',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    gap: 8,
+  },
+  promptText: { margin: '0 0 8px', fontSize: 16, textAlign: 'center' },
+  confirmField: { display: 'flex', flexDirection: 'column', gap: 4, width: '100%', maxWidth: 320 },
+  confirmLabel: { fontSize: 12, color: '#a1a1aa' },
+  confirmLabelLow: { fontSize: 12, color: '#fde047' },
+  inputLowConfidence: { borderColor: '#eab308' },
+  confirmToggle: { display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, color: '#a1a1aa' },
+  deliveryList: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    width: '100%',
+    maxWidth: 320,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+  },
+  deliveryRow: { display: 'flex', alignItems: 'center', gap: 8, fontSize: 12 },
+  deliverySummary: {
+    flex: 1,
+    color: '#a1a1aa',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  deliveryStatus: { padding: '2px 8px', borderRadius: 6, fontSize: 11 },
+  delivery_pending: { background: 'rgba(234,179,8,0.2)', color: '#fde047' },
+  delivery_delivered: { background: 'rgba(34,197,94,0.2)', color: '#86efac' },
+  delivery_failed: { background: 'rgba(239,68,68,0.2)', color: '#fca5a5' },
+  retryButton: {
+    padding: '2px 8px',
+    fontSize: 11,
+    background: 'transparent',
+    color: '#3b82f6',
+    border: '1px solid #3b82f6',
+    borderRadius: 6,
+    cursor: 'pointer',
+  },
+  leaveButton: {
+    marginLeft: 'auto',
+    padding: '4px 10px',
+    fontSize: 12,
+    background: 'transparent',
+    color: '#a1a1aa',
+    border: '1px solid #3f3f46',
+    borderRadius: 6,
+    cursor: 'pointer',
+  },
   input: {
     width: '100%',
     maxWidth: 320,
@@ -747,6 +1537,8 @@ const styles: Record<string, React.CSSProperties> = {
   },
   errorText: { margin: '0 0 8px', fontSize: 14, color: '#fca5a5', lineHeight: 1.4 },
   lastScan: { margin: 0, fontSize: 12, color: '#a1a1aa', wordBreak: 'break-all' },
+  labelFormats: { width: '100%', maxWidth: 400, fontSize: 12, color: '#71717a' },
+  labelFormatError: { margin: '4px 0 0', color: '#fca5a5', wordBreak: 'break-all' },
   ocrProviderRow: {
     display: 'flex',
     alignItems: 'center',
@@ -807,51 +1599,19 @@ const styles: Record<string, React.CSSProperties> = {
     objectFit: 'cover',
     minHeight: 240,
   },
-  ocrOverlayTop: {
-    position: 'absolute' as const,
-    top: 0,
-    left: 0,
-    right: 0,
-    height: '40%',
-    background: 'rgba(30, 64, 175, 0.55)',
-    pointerEvents: 'none',
-  },
-  ocrOverlayBottom: {
-    position: 'absolute' as const,
-    bottom: 0,
-    left: 0,
-    right: 0,
-    height: '40%',
-    background: 'rgba(30, 64, 175, 0.55)',
-    pointerEvents: 'none',
-  },
-  ocrOverlayLeft: {
+  ocrPartial: {
     position: 'absolute' as const,
-    top: '40%',
-    left: 0,
-    width: '25%',
-    height: '20%',
-    background: 'rgba(30, 64, 175, 0.55)',
-    pointerEvents: 'none',
-  },
-  ocrOverlayRight: {
-    position: 'absolute' as const,
-    top: '40%',
-    right: 0,
-    width: '25%',
-    height: '20%',
-    background: 'rgba(30, 64, 175, 0.55)',
-    pointerEvents: 'none',
-  },
-  ocrFocusFrame: {
-    position: 'absolute' as const,
-    top: '40%',
-    left: '25%',
-    width: '50%',
-    height: '20%',
-    border: '3px solid rgba(59, 130, 246, 0.95)',
-    borderRadius: 8,
-    pointerEvents: 'none',
-    boxSizing: 'border-box' as const,
+    left: 8,
+    right: 8,
+    bottom: 8,
+    padding: '6px 8px',
+    borderRadius: 6,
+    background: 'rgba(0, 0, 0, 0.7)',
+    color: '#e4e4e7',
+    fontSize: 12,
+    fontFamily: 'monospace',
   },
+  ocrDebug: { margin: 0, width: '100%', maxWidth: 400 },
+  ocrDebugImage: { display: 'block', width: '100%', border: '1px solid #3f3f46', borderRadius: 6, background: '#fff' },
+  ocrDebugCaption: { marginTop: 4, fontSize: 12, color: '#a1a1aa', fontFamily: 'monospace' },
 };
@@ -7,7 +7,7 @@
  */
 
 import React, { useEffect, useRef, useState } from 'react';
-import { SCANDIT_FIELD_DEFINITIONS } from './labelPatterns';
+import { getScanditFieldDefinitions } from './labelPatterns';
 import { scanditLabelFieldsToLabelJson, type LabelJson } from './scanditLabelToOcrFormat';
 
 declare const __SCANDIT_LICENSE_KEY__: string;
@@ -101,7 +101,7 @@ export function LabelCaptureScan({ onResult, onClose, continuous = false }: Labe
             .build('Barcode')
         );
 
-        for (const def of SCANDIT_FIELD_DEFINITIONS) {
+        for (const def of getScanditFieldDefinitions()) {
           const textBuilder = new CustomTextBuilder()
             .setValueRegexes(def.valueRegexes)
             .isOptional(def.optional);
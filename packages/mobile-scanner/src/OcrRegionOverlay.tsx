@@ -0,0 +1,158 @@
+/**
+ * Capture regions over the OCR camera view: everything outside the regions is dimmed, each region can be
+ * dragged to move it, resized from its corner and removed (while another remains). Changes are reported once
+ * the drag ends, so the capture loop does not restart on every pointer move.
+ */
+
+import React, { useRef, useState } from 'react';
+import { clampOcrRegion, type OcrRegion, type OcrRegionKind } from '@scanning-poc/shared';
+
+export const OCR_REGION_TITLES: Record<OcrRegionKind, string> = {
+  label: 'Label',
+  lot: 'Lot',
+  expiry: 'Expiry',
+  barcode: 'Barcode',
+};
+
+export type OcrRegionOverlayProps = {
+  regions: OcrRegion[];
+  onChange: (regions: OcrRegion[]) => void;
+};
+
+type Drag = { mode: 'move' | 'resize'; startX: number; startY: number; start: OcrRegion; rect: DOMRect; current: OcrRegion };
+
+export function OcrRegionOverlay({ regions, onChange }: OcrRegionOverlayProps) {
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  /** Region being dragged, at its current position */
+  const [draft, setDraft] = useState<OcrRegion | null>(null);
+  const shown = regions.map((r) => (draft?.kind === r.kind ? draft : r));
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, region: OcrRegion, mode: Drag['mode']) => {
+    const rect = rootRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, start: region, rect, current: region };
+    setDraft(region);
+  };
+  const moveDrag = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (e.clientX - drag.startX) / drag.rect.width;
+    const dy = (e.clientY - drag.startY) / drag.rect.height;
+    const { start } = drag;
+    drag.current = clampOcrRegion(
+      drag.mode === 'move'
+        ? { ...start, x: start.x + dx, y: start.y + dy }
+        : { ...start, width: Math.min(start.width + dx, 1 - start.x), height: Math.min(start.height + dy, 1 - start.y) }
+    );
+    setDraft(drag.current);
+  };
+  const endDrag = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    setDraft(null);
+    if (drag.current !== drag.start) onChange(regions.map((r) => (r.kind === drag.current.kind ? drag.current : r)));
+  };
+
+  return (
+    <div ref={rootRef} style={styles.root}>
+      <svg style={styles.mask} viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden>
+        <defs>
+          <mask id="ocr-region-mask">
+            <rect width="100" height="100" fill="white" />
+            {shown.map((r) => (
+              <rect key={r.kind} x={r.x * 100} y={r.y * 100} width={r.width * 100} height={r.height * 100} fill="black" />
+            ))}
+          </mask>
+        </defs>
+        <rect width="100" height="100" fill="rgba(30, 64, 175, 0.55)" mask="url(#ocr-region-mask)" />
+      </svg>
+      {shown.map((region) => (
+        <div
+          key={region.kind}
+          style={{
+            ...styles.region,
+            left: `${region.x * 100}%`,
+            top: `${region.y * 100}%`,
+            width: `${region.width * 100}%`,
+            height: `${region.height * 100}%`,
+          }}
+          onPointerDown={(e) => startDrag(e, region, 'move')}
+          onPointerMove={moveDrag}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        >
+          <span style={styles.tag}>
+            {OCR_REGION_TITLES[region.kind]}
+            {regions.length > 1 && (
+              <button
+                type="button"
+                style={styles.remove}
+                aria-label={`Remove ${OCR_REGION_TITLES[region.kind]} area`}
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onChange(regions.filter((r) => r.kind !== region.kind))}
+              >
+                ✕
+              </button>
+            )}
+          </span>
+          <span
+            style={styles.handle}
+            aria-hidden
+            onPointerDown={(e) => startDrag(e, region, 'resize')}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  root: { position: 'absolute', inset: 0 },
+  mask: { position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none' },
+  region: {
+    position: 'absolute',
+    border: '3px solid rgba(59, 130, 246, 0.95)',
+    borderRadius: 8,
+    boxSizing: 'border-box',
+    cursor: 'move',
+    touchAction: 'none',
+  },
+  tag: {
+    position: 'absolute',
+    left: 4,
+    top: 4,
+    display: 'flex',
+    alignItems: 'center',
+    gap: 4,
+    padding: '1px 6px',
+    borderRadius: 4,
+    background: 'rgba(30, 64, 175, 0.85)',
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 600,
+  },
+  remove: {
+    padding: '0 2px',
+    border: 'none',
+    background: 'transparent',
+    color: '#fff',
+    fontSize: 11,
+    cursor: 'pointer',
+  },
+  handle: {
+    position: 'absolute',
+    right: -3,
+    bottom: -3,
+    width: 18,
+    height: 18,
+    borderRadius: '0 0 8px 0',
+    background: 'rgba(59, 130, 246, 0.95)',
+    cursor: 'nwse-resize',
+    touchAction: 'none',
+  },
+};
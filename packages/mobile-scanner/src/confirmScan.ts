@@ -0,0 +1,23 @@
+/**
+ * "Confirm before sending" preference, persisted in localStorage: label scans (OCR and Scandit) open an
+ * editable confirmation so the operator can correct fields before the scan goes to the dashboard. On by default.
+ */
+
+const CONFIRM_STORAGE_KEY = 'scanning-poc:scanner-confirm-before-send';
+
+export function getConfirmBeforeSend(): boolean {
+  try {
+    return localStorage.getItem(CONFIRM_STORAGE_KEY) !== 'off';
+  } catch {
+    return true;
+  }
+}
+
+export function setConfirmBeforeSend(enabled: boolean): void {
+  try {
+    if (enabled) localStorage.removeItem(CONFIRM_STORAGE_KEY);
+    else localStorage.setItem(CONFIRM_STORAGE_KEY, 'off');
+  } catch {
+    // storage blocked: preference applies to this page load only
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Stable per-browser device ID and friendly name for scan events, persisted in localStorage
+ * so the dashboard can tell scanners apart across reloads.
+ */
+
+const DEVICE_ID_STORAGE_KEY = 'scanning-poc:device-id';
+
+function randomId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export function getDeviceId(): string {
+  try {
+    const stored = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (stored) return stored;
+    const id = `scanner-${randomId()}`;
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, id);
+    return id;
+  } catch {
+    // storage blocked (private mode): ID is stable for this page load only
+    return `scanner-${randomId()}`;
+  }
+}
+
+const DEVICE_NAME_STORAGE_KEY = 'scanning-poc:device-name';
+
+/** Friendly name shown on the dashboard; defaults to "Scanner xxxx" from the device ID. */
+export function getDeviceName(): string {
+  try {
+    const stored = localStorage.getItem(DEVICE_NAME_STORAGE_KEY);
+    if (stored) return stored;
+  } catch {
+    // storage blocked
+  }
+  return `Scanner ${getDeviceId().slice(-4)}`;
+}
+
+export function setDeviceName(name: string): void {
+  try {
+    if (name.trim()) localStorage.setItem(DEVICE_NAME_STORAGE_KEY, name.trim());
+    else localStorage.removeItem(DEVICE_NAME_STORAGE_KEY);
+  } catch {
+    // storage blocked: name applies to this page load only
+  }
+}
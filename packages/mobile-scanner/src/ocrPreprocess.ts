@@ -0,0 +1,112 @@
+/**
+ * OCR image pre-processing on the scanner: runs preprocessOcrImage (@scanning-poc/shared) in a Web Worker,
+ * or on the main thread when workers are unavailable, and picks the preset for a frame from the label formats.
+ */
+import {
+  OCR_PREPROCESS_PRESETS,
+  preprocessOcrImage,
+  type LabelFormatDefinition,
+  type OcrImage,
+  type OcrPreprocessInfo,
+  type OcrPreprocessPresetName,
+  type OcrPreprocessSettings,
+  type ScanLabelFields,
+} from '@scanning-poc/shared';
+
+export type PreprocessRequest = { id: number; image: OcrImage; settings: OcrPreprocessSettings };
+export type PreprocessResponse = { id: number; image: OcrImage; info: OcrPreprocessInfo } | { id: number; error: string };
+
+export type OcrPreprocessor = {
+  run(image: ImageData, preset: OcrPreprocessPresetName): Promise<{ image: ImageData; info: OcrPreprocessInfo }>;
+  dispose(): void;
+};
+
+type Pending = {
+  request: PreprocessRequest;
+  resolve: (result: { image: OcrImage; info: OcrPreprocessInfo }) => void;
+  reject: (err: Error) => void;
+};
+
+const toImageData = ({ width, height, data }: OcrImage) => new ImageData(data, width, height);
+
+/** Pre-processor backed by one worker; falls back to the main thread for good if the worker fails */
+export function createOcrPreprocessor(): OcrPreprocessor {
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+  let worker: Worker | null = null;
+
+  const runInline = ({ request, resolve, reject }: Pending) => {
+    try {
+      resolve(preprocessOcrImage(request.image, request.settings));
+    } catch (err) {
+      reject(err instanceof Error ? err : new Error(String(err)));
+    }
+  };
+  const fallBack = (reason: unknown) => {
+    console.warn('OCR pre-processing worker unavailable, using the main thread:', reason);
+    worker?.terminate();
+    worker = null;
+    const waiting = [...pending.values()];
+    pending.clear();
+    waiting.forEach(runInline);
+  };
+
+  try {
+    worker = new Worker(new URL('./preprocessWorker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (e: MessageEvent<PreprocessResponse>) => {
+      const entry = pending.get(e.data.id);
+      if (!entry) return;
+      pending.delete(e.data.id);
+      if ('error' in e.data) entry.reject(new Error(e.data.error));
+      else entry.resolve(e.data);
+    });
+    worker.addEventListener('error', (e) => fallBack(e.message || e));
+  } catch (err) {
+    worker = null;
+    console.warn('OCR pre-processing worker unavailable, using the main thread:', err);
+  }
+
+  return {
+    run(image, preset) {
+      const request: PreprocessRequest = {
+        id: nextId++,
+        image: { width: image.width, height: image.height, data: image.data },
+        settings: OCR_PREPROCESS_PRESETS[preset],
+      };
+      return new Promise<{ image: OcrImage; info: OcrPreprocessInfo }>((resolve, reject) => {
+        const entry = { request, resolve, reject };
+        if (!worker) return runInline(entry);
+        pending.set(request.id, entry);
+        // Copied, not transferred: the frame is re-run on the main thread if the worker fails to start
+        worker.postMessage(request);
+      }).then((result) => ({ image: toImageData(result.image), info: result.info }));
+    },
+    dispose() {
+      worker?.terminate();
+      worker = null;
+      pending.forEach(({ reject }) => reject(new Error('OCR pre-processing stopped')));
+      pending.clear();
+    },
+  };
+}
+
+/** Presets to try while no format has matched: 'standard', then each other preset the formats name */
+export function ocrPreprocessCycle(definitions: readonly LabelFormatDefinition[]): OcrPreprocessPresetName[] {
+  const presets: OcrPreprocessPresetName[] = ['standard'];
+  for (const definition of definitions) {
+    if (definition.preprocess && !presets.includes(definition.preprocess)) presets.push(definition.preprocess);
+  }
+  return presets;
+}
+
+/** Preset of the format that read the label's batch/lot or expiry; null when only the fallback rules matched */
+export function labelPreprocessPreset(
+  label: ScanLabelFields,
+  definitions: readonly LabelFormatDefinition[]
+): OcrPreprocessPresetName | null {
+  for (const key of ['batch_no', 'lot_no', 'expiry'] as const) {
+    const definition = definitions.find((d) => d.id === label.confidence?.[key]?.formatId);
+    if (definition) return definition.preprocess ?? 'standard';
+  }
+  return null;
+}
@@ -0,0 +1,223 @@
+/**
+ * OCR provider registry for the capture loop. Each entry creates an OcrProvider (packages/shared ocrProvider.ts)
+ * for one OCR session; the capture loop only calls prepare / recognize / dispose, so a new on-device engine
+ * (a local ONNX model) is added by registering it here. Engines the socket server runs (Azure, Textract, …) are
+ * registered from its GET /api/ocr-providers list (registerServerOcrProviders), so they need no scanner change.
+ * 'hybrid' is not an engine: it runs HYBRID_OCR_ENGINES in order (recognizeLabel in @scanning-poc/shared), leaving
+ * out cloud engines the server has not configured.
+ */
+import { createWorker, PSM, type Worker } from 'tesseract.js';
+import {
+  createFixtureOcrProvider,
+  OCR_ENDPOINT,
+  OCR_PROVIDERS_ENDPOINT,
+  SCANNER_OCR_PROVIDERS,
+  toOcrProviderInfos,
+  toOcrResult,
+  type OcrProvider,
+  type OcrProviderName,
+  type OcrWord,
+} from '@scanning-poc/shared';
+
+/** What providers may need from the app */
+export type OcrProviderContext = { serverUrl: string };
+
+export type OcrProviderEntry = {
+  name: OcrProviderName;
+  /** Shown in the provider picker */
+  label: string;
+  /** False for a server engine the socket server has not configured (or not listed yet) */
+  configured: boolean;
+  create: (context: OcrProviderContext) => OcrProvider;
+};
+
+const SERVER_OCR_TIMEOUT_MS = 45000;
+const OCR_PROVIDERS_TIMEOUT_MS = 5000;
+
+const TESSERACT_WHITELIST = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz -/.,:@#()\n';
+
+/** Label texts returned in turn by the mock provider */
+const MOCK_OCR_FIXTURES = [
+  'Lot No.: 20054138\nExp.: 2027-02',
+  'LOT A12B34\nEXP 2026-11-30\nREF 7201-55',
+  'BATCH 8027\nEXP 03/2028\nSN 00451239',
+];
+
+/** Hybrid OCR: on-device first, then the configured cloud engines when fields are missing or uncertain */
+export const HYBRID_OCR_ENGINES: readonly OcrProviderName[] = ['tesseract', 'vision', 'paddle'];
+
+const registry = new Map<OcrProviderName, OcrProviderEntry>();
+
+export function registerOcrProvider(entry: OcrProviderEntry): void {
+  registry.set(entry.name, entry);
+}
+
+/** Registered providers in registration order */
+export function listOcrProviders(): OcrProviderEntry[] {
+  return [...registry.values()];
+}
+
+/** Choices for the provider picker: registered engines, then hybrid */
+export function ocrProviderOptions(): Array<{ name: OcrProviderName; label: string }> {
+  return [...listOcrProviders(), ...SCANNER_OCR_PROVIDERS.filter((p) => p.name === 'hybrid')];
+}
+
+/** Whether the picker (and the dashboard's set-ocr-provider command) can switch to this name */
+export function isOcrProviderOption(name: OcrProviderName): boolean {
+  return ocrProviderOptions().some((option) => option.name === name);
+}
+
+/** New provider instance, or null when the name is not registered */
+export function createOcrProvider(name: OcrProviderName, context: OcrProviderContext): OcrProvider | null {
+  return registry.get(name)?.create(context) ?? null;
+}
+
+/**
+ * Engines to run, in order, for a picker choice: one provider (empty when unknown), or the hybrid chain without
+ * unconfigured cloud engines (Tesseract alone when none is configured)
+ */
+export function createOcrEngines(name: OcrProviderName, context: OcrProviderContext): OcrProvider[] {
+  const names = name === 'hybrid' ? HYBRID_OCR_ENGINES.filter((n) => registry.get(n)?.configured) : [name];
+  return names.flatMap((n) => createOcrProvider(n, context) ?? []);
+}
+
+/** Tesseract in a web worker, created on prepare (or the first image) and terminated on dispose */
+function createTesseractProvider(label: string): OcrProvider {
+  let workerPromise: Promise<Worker> | null = null;
+  const getWorker = () => {
+    workerPromise ??= (async () => {
+      const w = await createWorker('eng', 1, { logger: () => {} });
+      await w.setParameters({
+        tessedit_char_whitelist: TESSERACT_WHITELIST,
+        tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+      });
+      return w;
+    })();
+    return workerPromise;
+  };
+  return {
+    name: 'tesseract',
+    label,
+    prepare: async () => {
+      await getWorker();
+    },
+    recognize: async (image) => {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(image);
+      // Tesseract confidences are 0–100
+      const words: OcrWord[] = (data.words ?? []).map((w) => ({
+        text: w.text,
+        confidence: w.confidence / 100,
+        box: { x: w.bbox.x0, y: w.bbox.y0, width: w.bbox.x1 - w.bbox.x0, height: w.bbox.y1 - w.bbox.y0 },
+      }));
+      return { provider: 'tesseract', text: data.text?.trim() ?? '', confidence: data.confidence / 100, words };
+    },
+    dispose: () => {
+      workerPromise?.then((w) => w.terminate());
+    },
+  };
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : '');
+    reader.onerror = () => reject(new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Engine run by the socket server (POST /api/ocr/:name with the image as a data URL) */
+function createServerOcrProvider(name: OcrProviderName, label: string, serverUrl: string): OcrProvider {
+  return {
+    name,
+    label,
+    recognize: async (image, { signal } = {}) => {
+      const dataUrl = await blobToDataUrl(image);
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), SERVER_OCR_TIMEOUT_MS);
+      const abort = () => controller.abort();
+      signal?.addEventListener('abort', abort);
+      try {
+        const response = await fetch(`${serverUrl}${OCR_ENDPOINT}/${name}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ image: dataUrl }),
+          signal: controller.signal,
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok || data.error) throw new Error(data.error || response.statusText || 'OCR request failed');
+        return toOcrResult(name, data);
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError' && !signal?.aborted) {
+          throw new Error(`Request timed out (${SERVER_OCR_TIMEOUT_MS / 1000}s)`);
+        }
+        throw err;
+      } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', abort);
+      }
+    },
+  };
+}
+
+/**
+ * Register the socket server's engines (GET /api/ocr-providers) that are not registered yet, and take over whether
+ * each server engine is configured. Returns whether any was added; an unreachable server leaves the built-in
+ * registry (its cloud engines unconfigured).
+ */
+export async function registerServerOcrProviders(serverUrl: string): Promise<boolean> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), OCR_PROVIDERS_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${serverUrl}${OCR_PROVIDERS_ENDPOINT}`, { signal: controller.signal });
+    if (!response.ok) return false;
+    const serverEngines = toOcrProviderInfos(await response.json()).filter(
+      ({ name }) => !SCANNER_OCR_PROVIDERS.some((p) => p.name === name)
+    );
+    const added = serverEngines.filter(({ name }) => !registry.has(name));
+    for (const { name, configured } of serverEngines) {
+      const entry = registry.get(name);
+      if (entry) entry.configured = configured;
+    }
+    for (const { name, label, configured } of added) {
+      registerOcrProvider({
+        name,
+        label: `Cloud (${label})`,
+        configured,
+        create: (context) => createServerOcrProvider(name, label, context.serverUrl),
+      });
+    }
+    return added.length > 0;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+registerOcrProvider({
+  name: 'tesseract',
+  label: 'Device (Tesseract)',
+  configured: true,
+  create: () => createTesseractProvider('Tesseract'),
+});
+// Built in so the picker lists them before the server's list arrives; hybrid uses them once it says configured
+registerOcrProvider({
+  name: 'vision',
+  label: 'Cloud (Vision)',
+  configured: false,
+  create: ({ serverUrl }) => createServerOcrProvider('vision', 'Vision', serverUrl),
+});
+registerOcrProvider({
+  name: 'paddle',
+  label: 'Cloud (PaddleOCR)',
+  configured: false,
+  create: ({ serverUrl }) => createServerOcrProvider('paddle', 'PaddleOCR', serverUrl),
+});
+registerOcrProvider({
+  name: 'mock',
+  label: 'Mock (fixtures)',
+  configured: true,
+  create: () => createFixtureOcrProvider(MOCK_OCR_FIXTURES, { label: 'Mock' }),
+});
@@ -0,0 +1,50 @@
+/**
+ * Capture-region helpers for the OCR loop: crop a region (fractions of the frame) out of the camera video, and
+ * decode a barcode region with the browser's BarcodeDetector where there is one (Chrome on Android). Without
+ * it the barcode region is OCR'd and its printed GS1 text parsed instead.
+ */
+import type { OcrRegion } from '@scanning-poc/shared';
+
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorLike = { detect(image: HTMLCanvasElement): Promise<DetectedBarcode[]> };
+type BarcodeDetectorWindow = Window & { BarcodeDetector?: new () => BarcodeDetectorLike };
+
+let barcodeDetector: BarcodeDetectorLike | null | undefined;
+
+/** The region's pixels of the current video frame, on a canvas of the same size */
+export function cropRegion(
+  video: HTMLVideoElement,
+  region: OcrRegion
+): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const vw = video.videoWidth;
+  const vh = video.videoHeight;
+  const sx = Math.round(region.x * vw);
+  const sy = Math.round(region.y * vh);
+  const cw = Math.max(1, Math.round(region.width * vw));
+  const ch = Math.max(1, Math.round(region.height * vh));
+  const canvas = document.createElement('canvas');
+  canvas.width = cw;
+  canvas.height = ch;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(video, sx, sy, cw, ch, 0, 0, cw, ch);
+  return { canvas, ctx };
+}
+
+/** Value of the first barcode on the canvas; null when there is none or the browser cannot detect barcodes */
+export async function detectBarcode(canvas: HTMLCanvasElement): Promise<string | null> {
+  if (barcodeDetector === undefined) {
+    const Detector = (window as BarcodeDetectorWindow).BarcodeDetector;
+    try {
+      barcodeDetector = Detector ? new Detector() : null;
+    } catch {
+      barcodeDetector = null;
+    }
+  }
+  if (!barcodeDetector) return null;
+  try {
+    const [barcode] = await barcodeDetector.detect(canvas);
+    return barcode?.rawValue || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * OCR settings, persisted in localStorage: how many frames must read the same batch/lot and expiry before a
+ * scan is sent (1 sends the first frame with those fields), the image pre-processing preset ('auto' follows
+ * the label format), whether the processed image is shown, and the capture regions.
+ */
+import {
+  clampOcrRegion,
+  DEFAULT_OCR_CONSENSUS_FRAMES,
+  DEFAULT_OCR_REGIONS,
+  OCR_PREPROCESS_PRESET_NAMES,
+  OCR_REGION_KINDS,
+  type OcrPreprocessPresetName,
+  type OcrRegion,
+} from '@scanning-poc/shared';
+
+const CONSENSUS_FRAMES_STORAGE_KEY = 'scanning-poc:scanner-ocr-consensus-frames';
+const PREPROCESS_STORAGE_KEY = 'scanning-poc:scanner-ocr-preprocess';
+const PREPROCESS_DEBUG_STORAGE_KEY = 'scanning-poc:scanner-ocr-preprocess-debug';
+const REGIONS_STORAGE_KEY = 'scanning-poc:scanner-ocr-regions';
+
+/** 'auto': the matched label format's preset (cycling through the formats' presets until one matches) */
+export type OcrPreprocessChoice = 'auto' | OcrPreprocessPresetName;
+
+export const OCR_CONSENSUS_FRAME_CHOICES = [1, 2, 3, 5] as const;
+
+export function getOcrConsensusFrames(): number {
+  try {
+    const stored = Number(localStorage.getItem(CONSENSUS_FRAMES_STORAGE_KEY));
+    return (OCR_CONSENSUS_FRAME_CHOICES as readonly number[]).includes(stored) ? stored : DEFAULT_OCR_CONSENSUS_FRAMES;
+  } catch {
+    return DEFAULT_OCR_CONSENSUS_FRAMES;
+  }
+}
+
+export function setOcrConsensusFrames(frames: number): void {
+  try {
+    if (frames === DEFAULT_OCR_CONSENSUS_FRAMES) localStorage.removeItem(CONSENSUS_FRAMES_STORAGE_KEY);
+    else localStorage.setItem(CONSENSUS_FRAMES_STORAGE_KEY, String(frames));
+  } catch {
+    // storage blocked: setting applies to this page load only
+  }
+}
+
+export function getOcrPreprocess(): OcrPreprocessChoice {
+  try {
+    const stored = localStorage.getItem(PREPROCESS_STORAGE_KEY);
+    return OCR_PREPROCESS_PRESET_NAMES.find((name) => name === stored) ?? 'auto';
+  } catch {
+    return 'auto';
+  }
+}
+
+export function setOcrPreprocess(choice: OcrPreprocessChoice): void {
+  try {
+    if (choice === 'auto') localStorage.removeItem(PREPROCESS_STORAGE_KEY);
+    else localStorage.setItem(PREPROCESS_STORAGE_KEY, choice);
+  } catch {
+    // storage blocked: setting applies to this page load only
+  }
+}
+
+export function getOcrPreprocessDebug(): boolean {
+  try {
+    return localStorage.getItem(PREPROCESS_DEBUG_STORAGE_KEY) === 'on';
+  } catch {
+    return false;
+  }
+}
+
+export function setOcrPreprocessDebug(enabled: boolean): void {
+  try {
+    if (enabled) localStorage.setItem(PREPROCESS_DEBUG_STORAGE_KEY, 'on');
+    else localStorage.removeItem(PREPROCESS_DEBUG_STORAGE_KEY);
+  } catch {
+    // storage blocked: setting applies to this page load only
+  }
+}
+
+/** Stored capture regions (one per kind, inside the frame); the single default frame when none are stored */
+export function getOcrRegions(): OcrRegion[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(REGIONS_STORAGE_KEY) || 'null') as unknown;
+    if (!Array.isArray(parsed)) return [...DEFAULT_OCR_REGIONS];
+    const regions = parsed
+      .filter(
+        (r): r is OcrRegion =>
+          OCR_REGION_KINDS.includes(r?.kind) && ['x', 'y', 'width', 'height'].every((k) => typeof r[k] === 'number')
+      )
+      .filter((r, i, list) => list.findIndex((other) => other.kind === r.kind) === i)
+      .map(clampOcrRegion);
+    return regions.length ? regions : [...DEFAULT_OCR_REGIONS];
+  } catch {
+    return [...DEFAULT_OCR_REGIONS];
+  }
+}
+
+export function setOcrRegions(regions: OcrRegion[]): void {
+  try {
+    localStorage.setItem(REGIONS_STORAGE_KEY, JSON.stringify(regions));
+  } catch {
+    // storage blocked: regions apply to this page load only
+  }
+}
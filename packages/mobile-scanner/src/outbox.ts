@@ -0,0 +1,108 @@
+/**
+ * Offline outbox for scans: every scan is stored in IndexedDB before it is sent and stays there
+ * until the socket server acknowledges it, so scans made offline or between reconnects are retried
+ * (with backoff) instead of lost. Falls back to memory when IndexedDB is unavailable.
+ */
+
+import type { ScanEvent } from '@scanning-poc/shared';
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export type OutboxEntry = {
+  /** Client-side ID (the server scan ID is only known after delivery) */
+  localId: string;
+  sid: string;
+  event: ScanEvent;
+  /** Short text for the delivery list, e.g. "Batch: A1, Exp: 2026-05-31" */
+  summary: string;
+  status: DeliveryStatus;
+  attempts: number;
+  /** Earliest time (ms) for the next send attempt */
+  nextAttemptAt: number;
+  createdAt: number;
+  /** Server scan ID from the ack */
+  scanId?: string;
+  error?: string;
+};
+
+/** Give up (status failed) after this many attempts; the user can retry manually */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/** Delivered entries kept per session for the delivery list */
+const MAX_DELIVERED_KEPT = 20;
+
+const DB_NAME = 'scanning-poc-scanner';
+const STORE = 'outbox';
+
+const memoryStore = new Map<string, OutboxEntry>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'localId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Outbox: IndexedDB unavailable, scans are kept in memory only', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(db: IDBDatabase, mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = op(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createLocalId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.set(entry.localId, entry);
+    return;
+  }
+  await run(db, 'readwrite', (store) => store.put(entry));
+}
+
+async function deleteOutboxEntry(localId: string): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.delete(localId);
+    return;
+  }
+  await run(db, 'readwrite', (store) => store.delete(localId));
+}
+
+/** Entries for a session, newest first. Old delivered entries are pruned. */
+export async function listOutbox(sid: string): Promise<OutboxEntry[]> {
+  const db = await openDb();
+  const all = db ? await run<OutboxEntry[]>(db, 'readonly', (store) => store.getAll()) : [...memoryStore.values()];
+  const entries = all.filter((e) => e.sid === sid).sort((a, b) => b.createdAt - a.createdAt);
+  const delivered = entries.filter((e) => e.status === 'delivered');
+  const stale = delivered.slice(MAX_DELIVERED_KEPT);
+  await Promise.all(stale.map((e) => deleteOutboxEntry(e.localId)));
+  const staleIds = new Set(stale.map((e) => e.localId));
+  return entries.filter((e) => !staleIds.has(e.localId));
+}
+
+/** Exponential backoff with jitter: ~1s, 2s, 4s … capped at 60s */
+export function retryDelay(attempts: number): number {
+  const base = Math.min(1000 * 2 ** Math.max(attempts - 1, 0), 60000);
+  return base / 2 + Math.random() * (base / 2);
+}
@@ -0,0 +1,18 @@
+/**
+ * Web Worker for OCR image pre-processing (see ocrPreprocess.ts), so thresholding and deskewing large crops
+ * does not block the camera preview.
+ */
+import { preprocessOcrImage } from '@scanning-poc/shared';
+import type { PreprocessRequest, PreprocessResponse } from './ocrPreprocess';
+
+self.addEventListener('message', (e: MessageEvent<PreprocessRequest>) => {
+  const { id, image, settings } = e.data;
+  let response: PreprocessResponse;
+  try {
+    response = { id, ...preprocessOcrImage(image, settings) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  const transfer = 'image' in response ? [response.image.data.buffer] : [];
+  self.postMessage(response, { transfer });
+});
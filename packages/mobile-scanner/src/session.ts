@@ -0,0 +1,50 @@
+/**
+ * Last joined session (room) persisted in localStorage, so the scanner rejoins the same
+ * dashboard session after a reload or when reopened without ?sid=.
+ */
+
+const SID_STORAGE_KEY = 'scanning-poc:scanner-sid';
+
+export function getStoredSid(): string | null {
+  try {
+    return localStorage.getItem(SID_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function storeSid(sid: string | null): void {
+  try {
+    if (sid) localStorage.setItem(SID_STORAGE_KEY, sid);
+    else localStorage.removeItem(SID_STORAGE_KEY);
+  } catch {
+    // storage blocked (private mode): rejoin needs ?sid= or the QR code again
+  }
+}
+
+const DEVICE_KEYS_STORAGE_KEY = 'scanning-poc:scanner-device-keys';
+
+function readDeviceKeys(): Record<string, string> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DEVICE_KEYS_STORAGE_KEY) || '{}') as unknown;
+    return typeof parsed === 'object' && parsed !== null ? (parsed as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Device key the server issued when this scanner paired with a session (lets it rejoin without a new QR). */
+export function getDeviceKey(sid: string): string | undefined {
+  return readDeviceKeys()[sid];
+}
+
+export function storeDeviceKey(sid: string, key: string | null): void {
+  const keys = readDeviceKeys();
+  if (key) keys[sid] = key;
+  else delete keys[sid];
+  try {
+    localStorage.setItem(DEVICE_KEYS_STORAGE_KEY, JSON.stringify(keys));
+  } catch {
+    // storage blocked (private mode): pairing lasts for this page load only
+  }
+}
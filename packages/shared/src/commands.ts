@@ -0,0 +1,141 @@
+import type { Socket } from 'socket.io-client';
+import { SOCKET_EVENTS } from './constants.js';
+
+/**
+ * OCR engine the mobile scanner can switch to: a name in its provider registry (Tesseract on the device, fixtures,
+ * and the socket server's engines from GET /api/ocr-providers), or 'hybrid', which runs Tesseract and escalates
+ * to the cloud engines (see hybridOcr.ts). Any well-formed name is accepted here; the registry that runs it
+ * rejects names it does not know.
+ */
+export type OcrProviderName = string;
+
+/** Scanner capture modes a command can start; null stops the camera */
+export type ScannerCaptureMode = 'barcode' | 'ocr' | 'label';
+
+/** Commands the dashboard can send to scanners in its room */
+export type ScannerCommand =
+  /** Open Scandit Smart Label Capture */
+  | { type: 'start-label-capture' }
+  /** Start barcode or OCR capture, or stop the camera (null) */
+  | { type: 'set-mode'; mode: ScannerCaptureMode | null }
+  | { type: 'set-ocr-provider'; provider: OcrProviderName }
+  /** Ask the operator to scan an item again (e.g. invalid or low-confidence fields) */
+  | { type: 'request-rescan'; mode?: ScannerCaptureMode; scanId?: string; reason?: string }
+  | { type: 'show-message'; text: string; level?: 'info' | 'warning' | 'error' }
+  /** Ask the operator a question; the ack carries the chosen option */
+  | { type: 'prompt'; text: string; options?: string[] };
+
+export type ScannerCommandType = ScannerCommand['type'];
+
+/** Command as delivered to a scanner */
+export type ScannerCommandEnvelope = {
+  commandId: string;
+  sid: string;
+  command: ScannerCommand;
+};
+
+/** One scanner's answer to a command; `response` is the chosen option for prompts */
+export type CommandResult =
+  | { ok: true; deviceId: string; response?: string }
+  | { ok: false; deviceId: string; error: string };
+
+/** Result of sendCommand: one entry per targeted scanner that answered in time */
+export type SendCommandResult = { ok: true; results: CommandResult[] } | { ok: false; error: string };
+
+/** Lower-case letters, digits, '-' and '_' (the name is a path segment of POST /api/ocr/:provider) */
+const OCR_PROVIDER_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+const CAPTURE_MODES: readonly ScannerCaptureMode[] = ['barcode', 'ocr', 'label'];
+
+/** How long the server waits for scanners; prompts wait for the operator */
+export const COMMAND_TIMEOUT_MS = 10000;
+export const PROMPT_TIMEOUT_MS = 120000;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+export function isOcrProviderName(v: unknown): v is OcrProviderName {
+  return typeof v === 'string' && OCR_PROVIDER_NAME_PATTERN.test(v);
+}
+
+export function isScannerCommand(v: unknown): v is ScannerCommand {
+  if (!isRecord(v)) return false;
+  switch (v.type) {
+    case 'start-label-capture':
+      return true;
+    case 'set-mode':
+      return v.mode === null || CAPTURE_MODES.includes(v.mode as ScannerCaptureMode);
+    case 'set-ocr-provider':
+      return isOcrProviderName(v.provider);
+    case 'request-rescan':
+      return (
+        (v.mode === undefined || CAPTURE_MODES.includes(v.mode as ScannerCaptureMode)) &&
+        (v.scanId === undefined || typeof v.scanId === 'string') &&
+        (v.reason === undefined || typeof v.reason === 'string')
+      );
+    case 'show-message':
+      return (
+        typeof v.text === 'string' &&
+        (v.level === undefined || v.level === 'info' || v.level === 'warning' || v.level === 'error')
+      );
+    case 'prompt':
+      return (
+        typeof v.text === 'string' &&
+        (v.options === undefined || (Array.isArray(v.options) && v.options.every((o) => typeof o === 'string')))
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Send a command to the scanners in a room (dashboard → server → scanners) and collect their acks.
+ * @param deviceId - Only this scanner; omit to send to every connected scanner in the room
+ */
+export async function sendCommand(
+  socket: Socket,
+  sid: string,
+  command: ScannerCommand,
+  deviceId?: string
+): Promise<SendCommandResult> {
+  const timeout = (command.type === 'prompt' ? PROMPT_TIMEOUT_MS : COMMAND_TIMEOUT_MS) + 5000;
+  try {
+    const response = (await socket
+      .timeout(timeout)
+      .emitWithAck(SOCKET_EVENTS.SEND_COMMAND, { sid, command, ...(deviceId && { deviceId }) })) as unknown;
+    if (isRecord(response) && response.ok === true && Array.isArray(response.results)) {
+      return { ok: true, results: response.results as CommandResult[] };
+    }
+    return { ok: false, error: isRecord(response) && typeof response.error === 'string' ? response.error : 'invalid response' };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Handle commands on the scanner. The handler's result (or thrown error) is acked back to the dashboard.
+ * Returns unsubscribe.
+ */
+export function onCommand(
+  socket: Socket,
+  deviceId: string,
+  handler: (envelope: ScannerCommandEnvelope) => Promise<string | void> | string | void
+): () => void {
+  const listener = (payload: unknown, ack?: (result: CommandResult) => void) => {
+    const reply = (result: CommandResult) => {
+      if (typeof ack === 'function') ack(result);
+    };
+    if (!isRecord(payload) || typeof payload.commandId !== 'string' || typeof payload.sid !== 'string') return;
+    if (!isScannerCommand(payload.command)) {
+      reply({ ok: false, deviceId, error: 'unsupported command' });
+      return;
+    }
+    const envelope: ScannerCommandEnvelope = { commandId: payload.commandId, sid: payload.sid, command: payload.command };
+    Promise.resolve()
+      .then(() => handler(envelope))
+      .then((response) => reply({ ok: true, deviceId, ...(typeof response === 'string' && { response }) }))
+      .catch((err) => reply({ ok: false, deviceId, error: err instanceof Error ? err.message : String(err) }));
+  };
+  socket.on(SOCKET_EVENTS.COMMAND, listener);
+  return () => socket.off(SOCKET_EVENTS.COMMAND, listener);
+}
@@ -1,8 +1,35 @@
 /** Socket event names used by backend and clients */
 export const SOCKET_EVENTS = {
   JOIN_ROOM: 'join-room',
+  LEAVE_ROOM: 'leave-room',
   SEND_SCAN: 'send-scan',
   BROADCAST_TO_DASHBOARD: 'broadcast-to-dashboard',
+  /** Dashboard → server: fetch stored scans for a room (paged, with ack) */
+  REQUEST_HISTORY: 'request-history',
+  /** Dashboard → server: list owned sessions with connected dashboard/scanner counts (with ack) */
+  LIST_SESSIONS: 'list-sessions',
+  /** Dashboard → server: signed short-lived token for the pairing QR (with ack) */
+  REQUEST_PAIRING_TOKEN: 'request-pairing-token',
+  /** Dashboard → server: unpair a scanner device (with ack) */
+  REVOKE_DEVICE: 'revoke-device',
+  /** Server → scanner: this device was revoked and removed from the room */
+  DEVICE_REVOKED: 'device-revoked',
+  /** Server → room: a scanner joined, left or checked in (DevicePresence) */
+  PRESENCE: 'presence',
+  /** Scanner → server: heartbeat with optional battery status */
+  DEVICE_STATUS: 'device-status',
+  /** Dashboard → server: command for the room's scanners (ack with each scanner's result) */
+  SEND_COMMAND: 'send-command',
+  /** Server → scanner: command to execute (ack with CommandResult) */
+  COMMAND: 'command',
+  /** Dashboard → server: replace the server's label formats (ack with the result) */
+  PUBLISH_LABEL_FORMATS: 'publish-label-formats',
+  /** Server → all clients: label formats changed; scanners reload them */
+  LABEL_FORMATS_UPDATED: 'label-formats-updated',
+  /** Dashboard → server: correct and/or approve a stored scan's label fields (ack with the result) */
+  REVIEW_SCAN: 'review-scan',
+  /** Server → room: a stored scan's label fields were corrected or approved */
+  SCAN_REVIEWED: 'scan-reviewed',
 } as const;
 
 export type SocketEventName = (typeof SOCKET_EVENTS)[keyof typeof SOCKET_EVENTS];
@@ -0,0 +1,182 @@
+/**
+ * Structured expiry dates: one parser for every expiry format found on labels, OCR text and GS1 barcodes.
+ * Scan events keep the ISO string (YYYY-MM-DD, or YYYY-MM for month precision) in `expiry`;
+ * `expiry_date` carries the parsed ExpiryDate with its source format and day/month ambiguity.
+ */
+import { gs1DateToIso, gs1YearFromYy } from './gs1.js';
+
+export type ExpiryPrecision = 'day' | 'month';
+
+/** Format the expiry was read from */
+export type ExpiryFormat =
+  | 'YYYY-MM-DD'
+  | 'YYYY-MM'
+  | 'YYYY/MM/DD'
+  | 'YYYY/MM'
+  | 'YYYY-MMM'
+  | 'MMM YYYY'
+  | 'DD MMM YYYY'
+  | 'MM/YYYY'
+  | 'MM/YY'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY'
+  | 'DD-MM-YYYY'
+  /** GS1 (17) and other 6-digit dates; DD=00 means month precision */
+  | 'YYMMDD'
+  /** Day / month / year parts, e.g. from Scandit date fields */
+  | 'parts';
+
+export type ExpiryDate = {
+  year: number;
+  /** 1–12 */
+  month: number;
+  /** Absent for month precision (the product expires at the end of the month) */
+  day?: number;
+  precision: ExpiryPrecision;
+  format: ExpiryFormat;
+  /** Day and month could be swapped (e.g. 03/04/2027 as MM/DD or DD/MM); `format` says how it was read */
+  ambiguous: boolean;
+  /** Text it was parsed from */
+  raw: string;
+};
+
+export type ParseExpiryOptions = {
+  /** Read N/N/YYYY as DD/MM/YYYY instead of MM/DD/YYYY when both parts could be a month (default false) */
+  dayFirst?: boolean;
+};
+
+export const MONTH_ABBREVIATIONS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const MONTH_NAME = '(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)';
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function build(
+  raw: string,
+  format: ExpiryFormat,
+  year: number,
+  month: number,
+  day?: number,
+  ambiguous = false
+): ExpiryDate | null {
+  if (year < 1900 || year > 2199 || month < 1 || month > 12) return null;
+  if (day != null && (day < 1 || day > daysInMonth(year, month))) return null;
+  return {
+    year,
+    month,
+    ...(day != null && { day }),
+    precision: day != null ? 'day' : 'month',
+    format,
+    ambiguous,
+    raw,
+  };
+}
+
+function monthFromName(name: string): number {
+  return MONTH_ABBREVIATIONS.indexOf(name.toUpperCase()) + 1;
+}
+
+/** Day-month-year with both orders possible; picks the only valid order, else the preferred one (ambiguous) */
+function fromNumericParts(
+  raw: string,
+  first: number,
+  second: number,
+  year: number,
+  dayFirst: boolean,
+  formats: { monthFirst: ExpiryFormat; dayFirst: ExpiryFormat }
+): ExpiryDate | null {
+  const asMonthFirst = build(raw, formats.monthFirst, year, first, second);
+  const asDayFirst = build(raw, formats.dayFirst, year, second, first);
+  if (asMonthFirst && asDayFirst) {
+    const ambiguous = first !== second;
+    const preferred = dayFirst ? asDayFirst : asMonthFirst;
+    return { ...preferred, ambiguous };
+  }
+  return asMonthFirst ?? asDayFirst;
+}
+
+/**
+ * Parse an expiry in any format the project recognizes (see ExpiryFormat). Returns null when the text is not
+ * a valid date. N/N/YYYY defaults to MM/DD (US labels) and N-N-YYYY to DD-MM; both are flagged ambiguous when
+ * either reading is valid.
+ */
+export function parseExpiry(value: string, options: ParseExpiryOptions = {}): ExpiryDate | null {
+  const raw = value;
+  const v = value.trim().toUpperCase();
+  if (!v) return null;
+  let m = /^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/.exec(v);
+  if (m) {
+    const day = m[3] != null ? Number(m[3]) : undefined;
+    // GS1 style DD=00 (no day) written as ISO
+    if (day === 0) return build(raw, 'YYYY-MM', Number(m[1]), Number(m[2]));
+    return build(raw, day != null ? 'YYYY-MM-DD' : 'YYYY-MM', Number(m[1]), Number(m[2]), day);
+  }
+  m = /^(\d{4})\/(\d{1,2})(?:\/(\d{1,2}))?$/.exec(v);
+  if (m) return build(raw, m[3] ? 'YYYY/MM/DD' : 'YYYY/MM', Number(m[1]), Number(m[2]), m[3] ? Number(m[3]) : undefined);
+  m = new RegExp(`^(\\d{4})-${MONTH_NAME}$`).exec(v);
+  if (m) return build(raw, 'YYYY-MMM', Number(m[1]), monthFromName(m[2]));
+  m = new RegExp(`^${MONTH_NAME}\\s*(\\d{4})$`).exec(v);
+  if (m) return build(raw, 'MMM YYYY', Number(m[2]), monthFromName(m[1]));
+  m = new RegExp(`^(\\d{1,2})\\s*${MONTH_NAME}\\s*(\\d{4})$`).exec(v);
+  if (m) return build(raw, 'DD MMM YYYY', Number(m[3]), monthFromName(m[2]), Number(m[1]));
+  m = /^(\d{1,2})\/(\d{4})$/.exec(v);
+  if (m) return build(raw, 'MM/YYYY', Number(m[2]), Number(m[1]));
+  m = /^(\d{1,2})\/(\d{2})$/.exec(v);
+  if (m) return build(raw, 'MM/YY', gs1YearFromYy(Number(m[2])), Number(m[1]));
+  m = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(v);
+  if (m) {
+    return fromNumericParts(raw, Number(m[1]), Number(m[2]), Number(m[3]), options.dayFirst ?? false, {
+      monthFirst: 'MM/DD/YYYY',
+      dayFirst: 'DD/MM/YYYY',
+    });
+  }
+  m = /^(\d{1,2})-(\d{1,2})-(\d{4})$/.exec(v);
+  if (m) {
+    const asDayFirst = build(raw, 'DD-MM-YYYY', Number(m[3]), Number(m[2]), Number(m[1]));
+    return asDayFirst && { ...asDayFirst, ambiguous: Number(m[1]) !== Number(m[2]) && Number(m[1]) <= 12 };
+  }
+  if (/^\d{6}$/.test(v)) {
+    const iso = gs1DateToIso(v);
+    const parts = iso && /^(\d{4})-(\d{2})(?:-(\d{2}))?/.exec(iso);
+    if (!parts) return null;
+    return build(raw, 'YYMMDD', Number(parts[1]), Number(parts[2]), parts[3] ? Number(parts[3]) : undefined);
+  }
+  return null;
+}
+
+/** Expiry from separate day / month / year values (day optional) */
+export function expiryFromParts(day: number | null, month: number | null, year: number | null): ExpiryDate | null {
+  if (year == null || month == null) return null;
+  return build(`${year}-${month}${day != null ? `-${day}` : ''}`, 'parts', year, month, day ?? undefined);
+}
+
+/** ISO form used in scan events: YYYY-MM-DD, or YYYY-MM for month precision */
+export function formatExpiry(expiry: ExpiryDate): string {
+  const ym = `${expiry.year}-${String(expiry.month).padStart(2, '0')}`;
+  return expiry.day != null ? `${ym}-${String(expiry.day).padStart(2, '0')}` : ym;
+}
+
+/** "DD MMM YYYY" or "MMM YYYY" */
+export function formatExpiryDisplay(expiry: ExpiryDate): string {
+  const month = `${MONTH_ABBREVIATIONS[expiry.month - 1]} ${expiry.year}`;
+  return expiry.day != null ? `${String(expiry.day).padStart(2, '0')} ${month}` : month;
+}
+
+/** Parse and format as ISO; text that is not a date is returned trimmed and unchanged */
+export function normalizeExpiry(value: string, options?: ParseExpiryOptions): string {
+  const parsed = parseExpiry(value, options);
+  return parsed ? formatExpiry(parsed) : value.trim();
+}
+
+/** Last valid day as a UTC timestamp (end of the month for month precision) */
+export function expiryLastDay(expiry: ExpiryDate): number {
+  return Date.UTC(expiry.year, expiry.month - 1, expiry.day ?? daysInMonth(expiry.year, expiry.month));
+}
+
+/** True when a 6-digit string reads as a YYMMDD date with a real day (so it is not taken for a batch/lot number) */
+export function isLikelyYymmdd(value: string): boolean {
+  const parsed = /^\d{6}$/.test(value) ? parseExpiry(value) : null;
+  return parsed?.precision === 'day';
+}
@@ -0,0 +1,525 @@
+/**
+ * GS1 element string parser shared by mobile-scanner and web-dashboard.
+ * Walks the Application Identifier (AI) table with fixed/variable length rules and FNC1 (GS) handling.
+ * Accepts bracketed HRI ("(01)…(17)…"), GS-separated element strings (GS, "|" or "<GS>"),
+ * symbology identifiers (]d2, ]C1, ]Q3, ]e0, ]J1) and concatenated strings without separators.
+ */
+
+/** ASCII 29: FNC1 / Group Separator between variable-length elements */
+export const GS1_GROUP_SEPARATOR = String.fromCharCode(29);
+
+/** N = digits only, X = GS1 AI encodable character set 82, Z = set 64 (base64url) */
+export type Gs1Charset = 'N' | 'X' | 'Z';
+
+export type Gs1AiDefinition = {
+  /** GS1 data title, e.g. "BATCH/LOT" */
+  title: string;
+  /** Exact value length for fixed-length AIs */
+  fixedLength?: number;
+  /** Maximum value length (equals fixedLength for fixed-length AIs) */
+  maxLength: number;
+  charset: Gs1Charset;
+  /** date = YYMMDD, datetime = YYMMDDHHMM (7003), decimal = last AI digit is the implied decimal point */
+  kind?: 'date' | 'datetime' | 'decimal';
+};
+
+export type Gs1Element = {
+  ai: string;
+  title: string;
+  value: string;
+  /** For date AIs: YYYY-MM-DD, or YYYY-MM when DD=00; YYYY-MM-DDTHH:MM for (7003). Absent if not a valid date. */
+  date?: string;
+  /** For decimal AIs (310n, 392n, …): numeric value with the implied decimal point applied */
+  decimal?: number;
+};
+
+export type Gs1ParseResult = {
+  /** Every element in scan order */
+  elements: Gs1Element[];
+  /** AI → raw value */
+  ais: Record<string, string>;
+};
+
+const fixed = (title: string, length: number, kind?: Gs1AiDefinition['kind']): Gs1AiDefinition => ({
+  title,
+  fixedLength: length,
+  maxLength: length,
+  charset: 'N',
+  kind,
+});
+const fixedX = (title: string, length: number): Gs1AiDefinition => ({
+  title,
+  fixedLength: length,
+  maxLength: length,
+  charset: 'X',
+});
+const varN = (title: string, maxLength: number, kind?: Gs1AiDefinition['kind']): Gs1AiDefinition => ({
+  title,
+  maxLength,
+  charset: 'N',
+  kind,
+});
+const varX = (title: string, maxLength: number): Gs1AiDefinition => ({ title, maxLength, charset: 'X' });
+
+/**
+ * GS1 Application Identifiers (GS1 General Specifications, section 3).
+ * Decimal families (310n–369n, 390n–395n, 703s, 723s) are keyed by their first three digits;
+ * the fourth AI digit is the decimal position (or sequence digit).
+ */
+export const GS1_APPLICATION_IDENTIFIERS: Record<string, Gs1AiDefinition> = {
+  '00': fixed('SSCC', 18),
+  '01': fixed('GTIN', 14),
+  '02': fixed('CONTENT', 14),
+  '03': fixed('MTO GTIN', 14),
+  '10': varX('BATCH/LOT', 20),
+  '11': fixed('PROD DATE', 6, 'date'),
+  '12': fixed('DUE DATE', 6, 'date'),
+  '13': fixed('PACK DATE', 6, 'date'),
+  '15': fixed('BEST BEFORE or BEST BY', 6, 'date'),
+  '16': fixed('SELL BY', 6, 'date'),
+  '17': fixed('USE BY or EXPIRY', 6, 'date'),
+  '20': fixed('VARIANT', 2),
+  '21': varX('SERIAL', 20),
+  '22': varX('CPV', 20),
+  '235': varX('TPX', 28),
+  '240': varX('ADDITIONAL ID', 30),
+  '241': varX('CUST. PART No.', 30),
+  '242': varN('MTO VARIANT', 6),
+  '243': varX('PCN', 20),
+  '250': varX('SECONDARY SERIAL', 30),
+  '251': varX('REF. TO SOURCE', 30),
+  '253': varX('GDTI', 30),
+  '254': varX('GLN EXTENSION COMPONENT', 20),
+  '255': varN('GCN', 25),
+  '30': varN('VAR. COUNT', 8),
+  '310': fixed('NET WEIGHT (kg)', 6, 'decimal'),
+  '311': fixed('LENGTH (m)', 6, 'decimal'),
+  '312': fixed('WIDTH (m)', 6, 'decimal'),
+  '313': fixed('HEIGHT (m)', 6, 'decimal'),
+  '314': fixed('AREA (m²)', 6, 'decimal'),
+  '315': fixed('NET VOLUME (l)', 6, 'decimal'),
+  '316': fixed('NET VOLUME (m³)', 6, 'decimal'),
+  '320': fixed('NET WEIGHT (lb)', 6, 'decimal'),
+  '321': fixed('LENGTH (in)', 6, 'decimal'),
+  '322': fixed('LENGTH (ft)', 6, 'decimal'),
+  '323': fixed('LENGTH (yd)', 6, 'decimal'),
+  '324': fixed('WIDTH (in)', 6, 'decimal'),
+  '325': fixed('WIDTH (ft)', 6, 'decimal'),
+  '326': fixed('WIDTH (yd)', 6, 'decimal'),
+  '327': fixed('HEIGHT (in)', 6, 'decimal'),
+  '328': fixed('HEIGHT (ft)', 6, 'decimal'),
+  '329': fixed('HEIGHT (yd)', 6, 'decimal'),
+  '330': fixed('GROSS WEIGHT (kg)', 6, 'decimal'),
+  '331': fixed('LENGTH (m), log', 6, 'decimal'),
+  '332': fixed('WIDTH (m), log', 6, 'decimal'),
+  '333': fixed('HEIGHT (m), log', 6, 'decimal'),
+  '334': fixed('AREA (m²), log', 6, 'decimal'),
+  '335': fixed('VOLUME (l), log', 6, 'decimal'),
+  '336': fixed('VOLUME (m³), log', 6, 'decimal'),
+  '337': fixed('KG PER m²', 6, 'decimal'),
+  '340': fixed('GROSS WEIGHT (lb)', 6, 'decimal'),
+  '341': fixed('LENGTH (in), log', 6, 'decimal'),
+  '342': fixed('LENGTH (ft), log', 6, 'decimal'),
+  '343': fixed('LENGTH (yd), log', 6, 'decimal'),
+  '344': fixed('WIDTH (in), log', 6, 'decimal'),
+  '345': fixed('WIDTH (ft), log', 6, 'decimal'),
+  '346': fixed('WIDTH (yd), log', 6, 'decimal'),
+  '347': fixed('HEIGHT (in), log', 6, 'decimal'),
+  '348': fixed('HEIGHT (ft), log', 6, 'decimal'),
+  '349': fixed('HEIGHT (yd), log', 6, 'decimal'),
+  '350': fixed('AREA (in²)', 6, 'decimal'),
+  '351': fixed('AREA (ft²)', 6, 'decimal'),
+  '352': fixed('AREA (yd²)', 6, 'decimal'),
+  '353': fixed('AREA (in²), log', 6, 'decimal'),
+  '354': fixed('AREA (ft²), log', 6, 'decimal'),
+  '355': fixed('AREA (yd²), log', 6, 'decimal'),
+  '356': fixed('NET WEIGHT (t oz)', 6, 'decimal'),
+  '357': fixed('NET VOLUME (oz)', 6, 'decimal'),
+  '360': fixed('NET VOLUME (qt)', 6, 'decimal'),
+  '361': fixed('NET VOLUME (gal)', 6, 'decimal'),
+  '362': fixed('VOLUME (qt), log', 6, 'decimal'),
+  '363': fixed('VOLUME (gal), log', 6, 'decimal'),
+  '364': fixed('VOLUME (in³)', 6, 'decimal'),
+  '365': fixed('VOLUME (ft³)', 6, 'decimal'),
+  '366': fixed('VOLUME (yd³)', 6, 'decimal'),
+  '367': fixed('VOLUME (in³), log', 6, 'decimal'),
+  '368': fixed('VOLUME (ft³), log', 6, 'decimal'),
+  '369': fixed('VOLUME (yd³), log', 6, 'decimal'),
+  '37': varN('COUNT', 8),
+  '390': varN('AMOUNT', 15, 'decimal'),
+  '391': varN('AMOUNT (ISO)', 18, 'decimal'),
+  '392': varN('PRICE', 15, 'decimal'),
+  '393': varN('PRICE (ISO)', 18, 'decimal'),
+  '394': fixed('PRCNT OFF', 4, 'decimal'),
+  '395': fixed('PRICE/UoM', 6, 'decimal'),
+  '400': varX('ORDER NUMBER', 30),
+  '401': varX('GINC', 30),
+  '402': fixed('GSIN', 17),
+  '403': varX('ROUTE', 30),
+  '410': fixed('SHIP TO LOC', 13),
+  '411': fixed('BILL TO', 13),
+  '412': fixed('PURCHASE FROM', 13),
+  '413': fixed('SHIP FOR LOC', 13),
+  '414': fixed('LOC No.', 13),
+  '415': fixed('PAY TO', 13),
+  '416': fixed('PROD/SERV LOC', 13),
+  '417': fixed('PARTY', 13),
+  '420': varX('SHIP TO POST', 20),
+  '421': varX('SHIP TO POST', 12),
+  '422': fixed('ORIGIN', 3),
+  '423': varN('COUNTRY - INITIAL PROCESS', 15),
+  '424': fixed('COUNTRY - PROCESS', 3),
+  '425': varN('COUNTRY - DISASSEMBLY', 15),
+  '426': fixed('COUNTRY - FULL PROCESS', 3),
+  '427': varX('ORIGIN SUBDIVISION', 3),
+  '4300': varX('SHIP TO COMP', 35),
+  '4301': varX('SHIP TO NAME', 35),
+  '4302': varX('SHIP TO ADD1', 70),
+  '4303': varX('SHIP TO ADD2', 70),
+  '4304': varX('SHIP TO SUB', 70),
+  '4305': varX('SHIP TO LOC', 70),
+  '4306': varX('SHIP TO REG', 70),
+  '4307': fixedX('SHIP TO COUNTRY', 2),
+  '4308': varX('SHIP TO PHONE', 30),
+  '4309': fixed('SHIP TO GEO', 20),
+  '4310': varX('RTN TO COMP', 35),
+  '4311': varX('RTN TO NAME', 35),
+  '4312': varX('RTN TO ADD1', 70),
+  '4313': varX('RTN TO ADD2', 70),
+  '4314': varX('RTN TO SUB', 70),
+  '4315': varX('RTN TO LOC', 70),
+  '4316': varX('RTN TO REG', 70),
+  '4317': fixedX('RTN TO COUNTRY', 2),
+  '4318': varX('RTN TO POST', 20),
+  '4319': varX('RTN TO PHONE', 30),
+  '4320': varX('SRV DESCRIPTION', 35),
+  '4321': fixed('DANGEROUS GOODS', 1),
+  '4322': fixed('AUTH LEAVE', 1),
+  '4323': fixed('SIG REQUIRED', 1),
+  '4324': fixed('NBEF DEL DT', 10, 'datetime'),
+  '4325': fixed('NAFT DEL DT', 10, 'datetime'),
+  '4326': fixed('REL DATE', 6, 'date'),
+  '7001': fixed('NSN', 13),
+  '7002': varX('MEAT CUT', 30),
+  '7003': fixed('EXPIRY TIME', 10, 'datetime'),
+  '7004': varN('ACTIVE POTENCY', 4),
+  '7005': varX('CATCH AREA', 12),
+  '7006': fixed('FIRST FREEZE DATE', 6, 'date'),
+  '7007': varN('HARVEST DATE', 12),
+  '7008': varX('AQUATIC SPECIES', 3),
+  '7009': varX('FISHING GEAR TYPE', 10),
+  '7010': varX('PROD METHOD', 2),
+  '7011': varN('TEST BY DATE', 10),
+  '7020': varX('REFURB LOT', 20),
+  '7021': varX('FUNC STAT', 20),
+  '7022': varX('REV STAT', 20),
+  '7023': varX('GIAI - ASSEMBLY', 30),
+  '703': varX('PROCESSOR #', 30),
+  '7040': fixedX('UIC+EXT', 4),
+  '710': varX('NHRN PZN', 20),
+  '711': varX('NHRN CIP', 20),
+  '712': varX('NHRN CN', 20),
+  '713': varX('NHRN DRN', 20),
+  '714': varX('NHRN AIM', 20),
+  '715': varX('NHRN NDC', 20),
+  '716': varX('NHRN AIC', 20),
+  '723': varX('CERT #', 30),
+  '7240': varX('PROTOCOL', 20),
+  '7241': fixed('AIDC MEDIA TYPE', 2),
+  '7242': varX('VCN', 25),
+  '7250': fixed('DOB', 8),
+  '7251': fixed('DOB TIME', 12),
+  '7252': fixed('BIO SEX', 1),
+  '7253': varX('FAMILY NAME', 40),
+  '7254': varX('GIVEN NAME', 40),
+  '7255': varX('SUFFIX', 10),
+  '7256': varX('FULL NAME', 90),
+  '7257': varX('PERSON ADDR', 70),
+  '7258': fixedX('BIRTH SEQUENCE', 3),
+  '7259': varX('BABY', 40),
+  '8001': fixed('DIMENSIONS', 14),
+  '8002': varX('CMT No.', 20),
+  '8003': varX('GRAI', 30),
+  '8004': varX('GIAI', 30),
+  '8005': fixed('PRICE PER UNIT', 6),
+  '8006': fixed('ITIP', 18),
+  '8007': varX('IBAN', 34),
+  '8008': varN('PROD TIME', 12),
+  '8009': varX('OPTSEN', 50),
+  '8010': varX('CPID', 30),
+  '8011': varN('CPID SERIAL', 12),
+  '8012': varX('VERSION', 20),
+  '8013': varX('GMN', 25),
+  '8014': varX('MUDI', 25),
+  '8017': fixed('GSRN - PROVIDER', 18),
+  '8018': fixed('GSRN - RECIPIENT', 18),
+  '8019': varN('SRIN', 10),
+  '8020': varX('REF No.', 25),
+  '8026': fixed('ITIP CONTENT', 18),
+  '8030': { title: 'DIGSIG', maxLength: 90, charset: 'Z' },
+  '8110': varX('-', 70),
+  '8111': fixed('POINTS', 4),
+  '8112': varX('-', 70),
+  '8200': varX('PRODUCT URL', 70),
+  '90': varX('INTERNAL', 30),
+  '91': varX('INTERNAL', 90),
+  '92': varX('INTERNAL', 90),
+  '93': varX('INTERNAL', 90),
+  '94': varX('INTERNAL', 90),
+  '95': varX('INTERNAL', 90),
+  '96': varX('INTERNAL', 90),
+  '97': varX('INTERNAL', 90),
+  '98': varX('INTERNAL', 90),
+  '99': varX('INTERNAL', 90),
+};
+
+/** AIs seen on healthcare/UDI labels; preferred when splitting a string that has no GS separators. */
+const COMMON_AIS = new Set([
+  '00', '01', '02', '10', '11', '17', '21', '30', '37', '240', '241', '7003',
+  '710', '711', '712', '713', '714', '715', '716',
+]);
+
+export const GS1_CHARSET_REGEX: Record<Gs1Charset, RegExp> = {
+  N: /^\d+$/,
+  X: /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]+$/,
+  Z: /^[A-Za-z0-9_-]+$/,
+};
+
+/** Stop exploring separator-less splits after this many steps (keeps worst case bounded). */
+const MAX_SPLIT_STEPS = 20000;
+
+/** Resolve the AI at the start of s: tries 2-, 3- then 4-digit keys (decimal families by 3-digit prefix). */
+export function lookupGs1Ai(s: string): { ai: string; definition: Gs1AiDefinition } | null {
+  for (const len of [2, 3, 4]) {
+    const key = s.slice(0, len);
+    if (key.length < len || !/^\d+$/.test(key)) return null;
+    if (len === 4) {
+      const family = GS1_APPLICATION_IDENTIFIERS[key.slice(0, 3)];
+      if (family && isAiFamily(key.slice(0, 3), family)) return { ai: key, definition: family };
+    }
+    const def = GS1_APPLICATION_IDENTIFIERS[key];
+    if (def && !isAiFamily(key, def)) return { ai: key, definition: def };
+  }
+  return null;
+}
+
+/** 3-digit keys that stand for a family of 4-digit AIs (decimal position or sequence digit). */
+function isAiFamily(key: string, def: Gs1AiDefinition): boolean {
+  return key.length === 3 && (def.kind === 'decimal' || key === '703' || key === '723');
+}
+
+/**
+ * Expand a GS1 YY to a full year using the GS1 sliding century rule
+ * (up to 49 years in the past and 50 years in the future from today).
+ */
+export function gs1YearFromYy(yy: number, now: Date = new Date()): number {
+  const currentYear = now.getFullYear();
+  const currentCentury = Math.floor(currentYear / 100) * 100;
+  const diff = yy - (currentYear % 100);
+  if (diff >= 51) return currentCentury - 100 + yy;
+  if (diff <= -50) return currentCentury + 100 + yy;
+  return currentCentury + yy;
+}
+
+/** YYMMDD → YYYY-MM-DD (or YYYY-MM when DD=00). Returns undefined when month/day are out of range. */
+export function gs1DateToIso(yymmdd: string): string | undefined {
+  if (!/^\d{6}$/.test(yymmdd)) return undefined;
+  const yyyy = gs1YearFromYy(parseInt(yymmdd.slice(0, 2), 10));
+  const mm = parseInt(yymmdd.slice(2, 4), 10);
+  const dd = parseInt(yymmdd.slice(4, 6), 10);
+  if (mm < 1 || mm > 12) return undefined;
+  const month = `${yyyy}-${String(mm).padStart(2, '0')}`;
+  if (dd === 0) return month;
+  const daysInMonth = new Date(Date.UTC(yyyy, mm, 0)).getUTCDate();
+  if (dd > daysInMonth) return undefined;
+  return `${month}-${String(dd).padStart(2, '0')}`;
+}
+
+function toElement(ai: string, def: Gs1AiDefinition, value: string): Gs1Element {
+  const el: Gs1Element = { ai, title: def.title, value };
+  if (def.kind === 'date') {
+    const date = gs1DateToIso(value);
+    if (date) el.date = date;
+  } else if (def.kind === 'datetime') {
+    const date = gs1DateToIso(value.slice(0, 6));
+    const hh = parseInt(value.slice(6, 8), 10);
+    const mi = parseInt(value.slice(8, 10), 10);
+    if (date && date.length === 10 && hh <= 23 && mi <= 59)
+      el.date = `${date}T${value.slice(6, 8)}:${value.slice(8, 10)}`;
+  } else if (def.kind === 'decimal') {
+    const places = parseInt(ai.slice(3, 4), 10);
+    // 391n/393n carry a 3-digit ISO currency before the amount
+    const digits = ai.startsWith('391') || ai.startsWith('393') ? value.slice(3) : value;
+    if (/^\d+$/.test(digits) && !Number.isNaN(places)) el.decimal = parseInt(digits, 10) / 10 ** places;
+  }
+  return el;
+}
+
+/** True when the value fits the AI's charset and length (dates are checked separately). */
+function fitsDefinition(def: Gs1AiDefinition, value: string): boolean {
+  if (value.length > def.maxLength) return false;
+  if (def.fixedLength != null && value.length !== def.fixedLength) return false;
+  return GS1_CHARSET_REGEX[def.charset].test(value);
+}
+
+/** Score for a parse branch: common AIs up, unusual and internal AIs, malformed values or invalid dates down. */
+function elementScore(el: Gs1Element, def: Gs1AiDefinition): number {
+  let s = COMMON_AIS.has(el.ai) ? 1 : -1;
+  if (/^9\d$/.test(el.ai)) s -= 1;
+  if (!fitsDefinition(def, el.value)) s -= 2;
+  if ((def.kind === 'date' || def.kind === 'datetime') && !el.date) s -= 2;
+  return s;
+}
+
+type Branch = { elements: Gs1Element[]; score: number };
+
+function better(a: Branch | null, b: Branch | null): Branch | null {
+  if (!a) return b;
+  if (!b) return a;
+  if (b.score !== a.score) return b.score > a.score ? b : a;
+  return b.elements.length < a.elements.length ? b : a;
+}
+
+function walk(s: string, pos: number, seen: Set<string>, budget: { steps: number }): Branch | null {
+  while (s[pos] === GS1_GROUP_SEPARATOR) pos += 1;
+  if (pos >= s.length) return { elements: [], score: 0 };
+  if (--budget.steps < 0) return null;
+
+  const found = lookupGs1Ai(s.slice(pos));
+  if (!found || seen.has(found.ai)) return null;
+  const { ai, definition: def } = found;
+  const start = pos + ai.length;
+
+  // delimited = the value boundary is known (fixed length, GS or end of data), so a malformed value is kept
+  // for validation to report; guessed split points must fit the definition exactly.
+  const tryValue = (value: string, next: number, delimited: boolean): Branch | null => {
+    if (!value || (!delimited && !fitsDefinition(def, value))) return null;
+    const el = toElement(ai, def, value);
+    seen.add(ai);
+    const rest = walk(s, next, seen, budget);
+    seen.delete(ai);
+    if (!rest) return null;
+    return { elements: [el, ...rest.elements], score: rest.score + elementScore(el, def) };
+  };
+
+  if (def.fixedLength != null) {
+    const end = start + def.fixedLength;
+    if (end > s.length) return null;
+    return tryValue(s.slice(start, end), end, true);
+  }
+
+  const gs = s.indexOf(GS1_GROUP_SEPARATOR, start);
+  if (gs !== -1) return tryValue(s.slice(start, gs), gs, true);
+
+  // No separator until end of data: the value may run to the end, or the encoder dropped the GS
+  // (e.g. (10)MK8701(21)943321361918 printed as 10MK870121943321361918). Try every split and keep the best.
+  let best = tryValue(s.slice(start), s.length, true);
+  const maxEnd = Math.min(s.length - 1, start + def.maxLength);
+  for (let end = start + 1; end <= maxEnd && budget.steps > 0; end += 1) {
+    best = better(best, tryValue(s.slice(start, end), end, false));
+  }
+  return best;
+}
+
+/**
+ * Normalize scanner output: strip symbology identifier and whitespace, map "|" / "<GS>" / "{GS}" to ASCII 29,
+ * drop a leading FNC1.
+ */
+export function normalizeGs1Input(raw: string): string {
+  if (!raw || typeof raw !== 'string') return '';
+  let s = raw.trim().replace(/^\][A-Za-z]\d/, '');
+  s = s.replace(/<GS>|\{GS\}|\\x1[dD]|\|/g, GS1_GROUP_SEPARATOR).replace(/[\r\n\t ]/g, '');
+  while (s.startsWith(GS1_GROUP_SEPARATOR)) s = s.slice(1);
+  return s;
+}
+
+/** The "(AI)" marker at `index` when it names a known AI, with its length */
+function aiMarkerAt(s: string, index: number): { ai: string; definition: Gs1AiDefinition; length: number } | null {
+  const m = /^\((\d{2,4})\)/.exec(s.slice(index));
+  const found = m ? lookupGs1Ai(m[1]) : null;
+  return m && found && found.ai === m[1] ? { ...found, length: m[0].length } : null;
+}
+
+/** "(01)…(10)…" — a value runs to the next "(AI)" marker, so it may itself contain "(" (CSET 82, e.g. AI 21) */
+function parseBracketed(s: string): Gs1ParseResult | null {
+  const elements: Gs1Element[] = [];
+  let start = 0;
+  let marker = aiMarkerAt(s, 0);
+  if (!marker) return null;
+  while (marker) {
+    const valueStart = start + marker.length;
+    let end = s.indexOf('(', valueStart);
+    let next: ReturnType<typeof aiMarkerAt> = null;
+    while (end !== -1 && !(next = aiMarkerAt(s, end))) end = s.indexOf('(', end + 1);
+    const value = s.slice(valueStart, end === -1 ? s.length : end).split(GS1_GROUP_SEPARATOR).join('');
+    if (!value) return null;
+    elements.push(toElement(marker.ai, marker.definition, value));
+    start = end;
+    marker = next;
+  }
+  return toResult(elements);
+}
+
+function toResult(elements: Gs1Element[]): Gs1ParseResult {
+  const ais: Record<string, string> = {};
+  for (const el of elements) if (!(el.ai in ais)) ais[el.ai] = el.value;
+  return { elements, ais };
+}
+
+/**
+ * Parse a GS1 element string (DataMatrix, GS1-128, DataBar, GS1 QR) into all of its AIs.
+ * Returns null when the input is not a GS1 element string (e.g. a plain EAN-13/UPC-A).
+ */
+export function parseGs1(raw: string): Gs1ParseResult | null {
+  const hasSymbologyId = /^\s*\][A-Za-z]\d/.test(raw ?? '');
+  const s = normalizeGs1Input(raw);
+  if (!s) return null;
+  if (s.startsWith('(')) return parseBracketed(s);
+  // Plain EAN-8 / UPC-A / EAN-13 digits are not element strings even if they happen to start with "10" or "21"
+  if (!hasSymbologyId && !s.includes(GS1_GROUP_SEPARATOR) && /^\d{8}$|^\d{12,13}$/.test(s)) return null;
+  const branch = walk(s, 0, new Set(), { steps: MAX_SPLIT_STEPS });
+  if (!branch || branch.elements.length === 0) return null;
+  return toResult(branch.elements);
+}
+
+/** Commonly used fields of a parsed GS1 string, keyed by meaning instead of AI. */
+export type Gs1Fields = {
+  gtin?: string;
+  batch?: string;
+  /** (17) as YYYY-MM-DD, or YYYY-MM when DD=00 */
+  expiry?: string;
+  /** (7003) as YYYY-MM-DDTHH:MM */
+  expiryTime?: string;
+  /** (11) as YYYY-MM-DD */
+  productionDate?: string;
+  /** (15) as YYYY-MM-DD */
+  bestBefore?: string;
+  serial?: string;
+  /** (30) variable count, or (37) count of trade items */
+  quantity?: string;
+  /** (240) */
+  additionalId?: string;
+  /** First NHRN (710–716), e.g. PZN, CIP, NDC */
+  nhrn?: string;
+};
+
+/** Pick the commonly used fields out of a parse result. */
+export function gs1Fields(result: Gs1ParseResult): Gs1Fields {
+  const byAi = new Map(result.elements.map((el) => [el.ai, el]));
+  const dateOf = (ai: string) => byAi.get(ai)?.date ?? byAi.get(ai)?.value;
+  const out: Gs1Fields = {};
+  const set = (key: keyof Gs1Fields, value: string | undefined) => {
+    if (value) out[key] = value;
+  };
+  set('gtin', result.ais['01'] ?? result.ais['02']);
+  set('batch', result.ais['10']);
+  set('expiry', dateOf('17'));
+  set('expiryTime', dateOf('7003'));
+  set('productionDate', dateOf('11'));
+  set('bestBefore', dateOf('15'));
+  set('serial', result.ais['21']);
+  set('quantity', result.ais['30'] ?? result.ais['37']);
+  set('additionalId', result.ais['240']);
+  set('nhrn', result.elements.find((el) => /^71[0-6]$/.test(el.ai))?.value);
+  return out;
+}
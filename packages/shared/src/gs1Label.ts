@@ -0,0 +1,73 @@
+/**
+ * Parse GS1 barcode (e.g. DataMatrix) to label JSON keys: batch_no, lot_no, expiry.
+ * Uses the GS1 AI parser in gs1.ts (same as web-dashboard); (10)=batch/lot, (17)=expiry, (01)=GTIN, (21)=serial.
+ */
+
+import { parseExpiry, type ExpiryDate } from './expiry.js';
+import { gs1Fields, parseGs1, type Gs1Element, type Gs1Fields } from './gs1.js';
+import { validateGs1, type Gs1ValidationError } from './gs1Validate.js';
+
+/** Fields that fill a label JSON key; an element string with none of them (e.g. only (15) best before) is not a label */
+const LABEL_GS1_FIELDS: readonly (keyof Gs1Fields)[] = [
+  'batch',
+  'expiry',
+  'gtin',
+  'serial',
+  'productionDate',
+  'quantity',
+  'additionalId',
+  'expiryTime',
+  'nhrn',
+];
+
+export type Gs1LabelResult = {
+  batch_no: string;
+  lot_no: string;
+  expiry: string;
+  /** (17) parsed, source format YYMMDD */
+  expiry_date?: ExpiryDate;
+  upc_gtin?: string;
+  serial?: string;
+  /** (11) production date, YYYY-MM-DD */
+  production_date?: string;
+  /** (30) variable count or (37) count */
+  quantity?: string;
+  /** (240) additional product identification */
+  additional_id?: string;
+  /** (7003) expiration date and time, YYYY-MM-DDTHH:MM */
+  expiry_time?: string;
+  /** First NHRN (710–716), e.g. PZN or NDC */
+  nhrn?: string;
+  /** Every AI found in the barcode, in scan order */
+  elements: Gs1Element[];
+  /** Check-digit, date, charset and length problems per AI; empty when every field is valid */
+  validationErrors: Gs1ValidationError[];
+};
+
+/**
+ * Parse GS1 barcode string to label JSON. (10) -> batch_no and lot_no, (17) -> expiry (YYYY-MM-DD, or YYYY-MM when DD=00).
+ * Handles GS/FNC1-separated, bracketed and concatenated (no separator) element strings. Null when nothing parses
+ * or no AI maps to a label key, so a string with only (30) quantity or an NHRN still gives a label.
+ */
+export function parseGs1ToLabelJson(raw: string): Gs1LabelResult | null {
+  const result = parseGs1(raw);
+  if (!result) return null;
+  const f = gs1Fields(result);
+  if (!LABEL_GS1_FIELDS.some((key) => f[key])) return null;
+  const expiryDate = f.expiry ? parseExpiry(result.ais['17'] ?? '') : null;
+  return {
+    batch_no: f.batch ?? '',
+    lot_no: f.batch ?? '',
+    expiry: f.expiry ?? '',
+    ...(expiryDate && { expiry_date: expiryDate }),
+    ...(f.gtin && { upc_gtin: f.gtin }),
+    ...(f.serial && { serial: f.serial }),
+    ...(f.productionDate && { production_date: f.productionDate }),
+    ...(f.quantity && { quantity: f.quantity }),
+    ...(f.additionalId && { additional_id: f.additionalId }),
+    ...(f.expiryTime && { expiry_time: f.expiryTime }),
+    ...(f.nhrn && { nhrn: f.nhrn }),
+    elements: result.elements,
+    validationErrors: validateGs1(result),
+  };
+}
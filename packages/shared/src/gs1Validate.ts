@@ -0,0 +1,125 @@
+/**
+ * Validation for parsed GS1 elements and plain GTINs: mod-10 check digits, YYMMDD dates
+ * (DD=00 = end of month), charset and length per AI. Catches misreads that still look like valid data.
+ */
+
+import {
+  GS1_CHARSET_REGEX,
+  gs1YearFromYy,
+  lookupGs1Ai,
+  type Gs1Element,
+  type Gs1ParseResult,
+} from './gs1.js';
+
+export type Gs1ValidationCode = 'check_digit' | 'date' | 'charset' | 'length' | 'unknown_ai';
+
+export type Gs1ValidationError = {
+  /** AI of the offending element, e.g. "01"; empty for a plain (non-GS1) UPC/EAN */
+  ai: string;
+  code: Gs1ValidationCode;
+  /** Human-readable reason, e.g. "check digit should be 4" */
+  message: string;
+  value: string;
+};
+
+/** AIs whose last digit is a GS1 mod-10 check digit (GTIN, SSCC, GSIN, GLN, GSRN) */
+const CHECK_DIGIT_AIS = new Set([
+  '00', '01', '02', '03', '402', '410', '411', '412', '413', '414', '415', '416', '417', '8017', '8018',
+]);
+
+/** GS1 mod-10 check digit for the data digits (everything except the check digit). */
+export function computeGs1CheckDigit(dataDigits: string): number {
+  let sum = 0;
+  for (let i = 0; i < dataDigits.length; i += 1) {
+    const digit = dataDigits.charCodeAt(dataDigits.length - 1 - i) - 48;
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/** True when the last digit of a numeric key (GTIN-8/12/13/14, SSCC, GLN…) matches its mod-10 check digit. */
+export function isValidGs1CheckDigit(digits: string): boolean {
+  if (!/^\d{2,}$/.test(digits)) return false;
+  return computeGs1CheckDigit(digits.slice(0, -1)) === Number(digits.slice(-1));
+}
+
+/**
+ * Check a YYMMDD value: month 01–12, day within the month; DD=00 is valid and means the last day of the month.
+ * Returns a reason, or null when valid.
+ */
+export function validateGs1Date(yymmdd: string): string | null {
+  if (!/^\d{6}$/.test(yymmdd)) return 'date must be 6 digits YYMMDD';
+  const mm = parseInt(yymmdd.slice(2, 4), 10);
+  const dd = parseInt(yymmdd.slice(4, 6), 10);
+  if (mm < 1 || mm > 12) return `month ${yymmdd.slice(2, 4)} is not 01–12`;
+  if (dd === 0) return null;
+  const yyyy = gs1YearFromYy(parseInt(yymmdd.slice(0, 2), 10));
+  const daysInMonth = new Date(Date.UTC(yyyy, mm, 0)).getUTCDate();
+  if (dd > daysInMonth) return `day ${yymmdd.slice(4, 6)} does not exist in ${yyyy}-${yymmdd.slice(2, 4)}`;
+  return null;
+}
+
+function validateDateTime(value: string): string | null {
+  const dateError = validateGs1Date(value.slice(0, 6));
+  if (dateError) return dateError;
+  const hh = parseInt(value.slice(6, 8), 10);
+  const mi = parseInt(value.slice(8, 10), 10);
+  if (hh > 23 || mi > 59) return `time ${value.slice(6, 8)}:${value.slice(8, 10)} is not a valid HH:MM`;
+  return null;
+}
+
+/** Validate one element against its AI definition. */
+export function validateGs1Element(el: Gs1Element): Gs1ValidationError[] {
+  const found = lookupGs1Ai(el.ai);
+  const def = found?.ai === el.ai ? found.definition : undefined;
+  if (!def) return [{ ai: el.ai, code: 'unknown_ai', message: `unknown AI (${el.ai})`, value: el.value }];
+
+  const errors: Gs1ValidationError[] = [];
+  const fail = (code: Gs1ValidationCode, message: string) => errors.push({ ai: el.ai, code, message, value: el.value });
+
+  if (def.fixedLength != null && el.value.length !== def.fixedLength)
+    fail('length', `must be exactly ${def.fixedLength} characters (got ${el.value.length})`);
+  else if (el.value.length > def.maxLength)
+    fail('length', `must be at most ${def.maxLength} characters (got ${el.value.length})`);
+
+  if (!GS1_CHARSET_REGEX[def.charset].test(el.value)) {
+    const allowed = def.charset === 'N' ? 'digits only' : 'GS1 characters only';
+    fail('charset', `must contain ${allowed}`);
+    return errors;
+  }
+
+  if (CHECK_DIGIT_AIS.has(el.ai) && el.value.length === def.fixedLength && !isValidGs1CheckDigit(el.value)) {
+    const expected = computeGs1CheckDigit(el.value.slice(0, -1));
+    fail('check_digit', `check digit should be ${expected}`);
+  }
+  if (def.kind === 'date' && el.value.length === 6) {
+    const reason = validateGs1Date(el.value);
+    if (reason) fail('date', reason);
+  }
+  if (def.kind === 'datetime' && el.value.length === 10) {
+    const reason = validateDateTime(el.value);
+    if (reason) fail('date', reason);
+  }
+  return errors;
+}
+
+/** Validate every element of a parse result. Empty array = all fields valid. */
+export function validateGs1(result: Gs1ParseResult): Gs1ValidationError[] {
+  return result.elements.flatMap(validateGs1Element);
+}
+
+/**
+ * Validate a plain GTIN / UPC / EAN (8, 12, 13 or 14 digits) outside a GS1 element string.
+ * Returns null for values that are not GTIN-shaped, so arbitrary barcodes are not flagged.
+ */
+export function validateGtin(value: string): Gs1ValidationError | null {
+  const digits = value.trim();
+  if (!/^(\d{8}|\d{12,14})$/.test(digits)) return null;
+  if (isValidGs1CheckDigit(digits)) return null;
+  return {
+    ai: '',
+    code: 'check_digit',
+    message: `check digit should be ${computeGs1CheckDigit(digits.slice(0, -1))}`,
+    value: digits,
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * Hybrid OCR: run a local engine first and score its text with label extraction; when a required field is
+ * missing or below LABEL_LOW_CONFIDENCE, escalate to the next engine (cloud). Once several engines returned
+ * text, the label fields are merged by voting. The decision path (each attempt, why it escalated, the votes)
+ * travels with the scan as OcrTextScanEvent.ocrDecision.
+ */
+import type { OcrProviderName } from './commands.js';
+import { lowConfidenceFields } from './labelExtract.js';
+import { LABEL_OUTPUT_KEYS, type LabelOutputKey } from './labelFormats.js';
+import type { OcrProvider, OcrRecognizeOptions } from './ocrProvider.js';
+import type { ScanLabelFields } from './socket.js';
+
+/** Keys whose confidence decides escalation (batch or lot, and expiry, must be present) */
+const ESCALATION_KEYS: readonly LabelOutputKey[] = ['batch_no', 'lot_no', 'expiry'];
+/** Engines read the same key differently (as in extractLabelFromOcr) */
+const CONTESTED_FACTOR = 0.75;
+/** Confidence of a value without evidence (a standalone match) */
+const UNSCORED_CONFIDENCE = 0.6;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/** One engine run in the decision path */
+export type OcrAttempt = {
+  provider: OcrProviderName;
+  durationMs: number;
+  /** Engine's own text confidence (0–1), when reported */
+  confidence?: number;
+  /** Required keys the extracted label lacks */
+  missing?: LabelOutputKey[];
+  /** Required keys found below LABEL_LOW_CONFIDENCE */
+  lowConfidence?: LabelOutputKey[];
+  error?: string;
+};
+
+/** How a merged field was chosen: the winning value, the engines that read it and the values outvoted */
+export type OcrFieldVote = {
+  key: LabelOutputKey;
+  value: string;
+  providers: OcrProviderName[];
+  confidence: number;
+  rejected?: Array<{ value: string; providers: OcrProviderName[] }>;
+  /** An outvoted value had the same total (decided by engine order); another engine should break the tie */
+  tied?: boolean;
+};
+
+export type OcrDecision = {
+  attempts: OcrAttempt[];
+  /** Why the first engine's label was not accepted, e.g. "missing expiry; low confidence lot_no"; absent when it was */
+  escalation?: string;
+  /** Per-key votes, when more than one engine returned text */
+  votes?: OcrFieldVote[];
+  /** Engine whose text is sent as the scan text */
+  textFrom: OcrProviderName;
+};
+
+/** One engine's text and the label extracted from it */
+export type OcrLabelReading = { provider: OcrProviderName; raw: string; text: string; label: ScanLabelFields };
+
+export type OcrLabelResult = {
+  text: string;
+  /** Unfiltered engine output; one "[provider]" section per engine when several were voted */
+  raw: string;
+  label: ScanLabelFields;
+  decision: OcrDecision;
+};
+
+export type RecognizeLabelOptions = OcrRecognizeOptions & {
+  /** Clean raw OCR text before extraction (e.g. drop garbage lines); default trim */
+  clean?: (raw: string) => string;
+  extract: (text: string) => ScanLabelFields;
+  /** Keys the image can hold (e.g. a lot-only capture region); escalation only looks at these; default all */
+  keys?: readonly LabelOutputKey[];
+};
+
+const EMPTY_LABEL: ScanLabelFields = { batch_no: '', lot_no: '', expiry: '' };
+
+/** Required keys (of `keys`) a label lacks and required keys it has with low confidence */
+export function labelShortfall(
+  label: ScanLabelFields,
+  keys: readonly LabelOutputKey[] = ESCALATION_KEYS
+): { missing: LabelOutputKey[]; lowConfidence: LabelOutputKey[] } {
+  const required = ESCALATION_KEYS.filter((key) => keys.includes(key));
+  const lotKeys = required.filter((key) => key === 'batch_no' || key === 'lot_no');
+  const missing: LabelOutputKey[] = [];
+  if (lotKeys.length && lotKeys.every((key) => !label[key])) missing.push(...lotKeys);
+  if (required.includes('expiry') && !label.expiry) missing.push('expiry');
+  const lowConfidence = lowConfidenceFields(label.confidence)
+    .map(([key]) => key)
+    .filter((key) => required.includes(key));
+  return { missing, lowConfidence };
+}
+
+function describeShortfall({ missing, lowConfidence }: ReturnType<typeof labelShortfall>): string {
+  return [
+    missing.length ? `missing ${missing.join(', ')}` : '',
+    lowConfidence.length ? `low confidence ${lowConfidence.join(', ')}` : '',
+  ]
+    .filter(Boolean)
+    .join('; ');
+}
+
+const normalizeVote = (value: string) => value.toUpperCase().replace(/\s+/g, '');
+
+/**
+ * Merge labels read by several engines, key by key. Readings of the same value (ignoring case and spaces) add
+ * up their confidences; the highest total wins, ties going to the later engine (the one escalated to). Agreeing
+ * engines raise the field's confidence (1 − Π(1 − c)); a field read differently by another engine is lowered.
+ */
+export function voteLabelFields(readings: readonly OcrLabelReading[]): { label: ScanLabelFields; votes: OcrFieldVote[] } {
+  const label: ScanLabelFields = { ...EMPTY_LABEL };
+  const votes: OcrFieldVote[] = [];
+  for (const key of LABEL_OUTPUT_KEYS) {
+    const groups = new Map<string, Array<{ reading: OcrLabelReading; confidence: number }>>();
+    for (const reading of readings) {
+      const value = reading.label[key]?.trim();
+      if (!value) continue;
+      const confidence = reading.label.confidence?.[key]?.confidence ?? UNSCORED_CONFIDENCE;
+      const group = groups.get(normalizeVote(value)) ?? [];
+      group.push({ reading, confidence });
+      groups.set(normalizeVote(value), group);
+    }
+    if (groups.size === 0) continue;
+    const total = (group: Array<{ confidence: number }>) => group.reduce((sum, g) => sum + g.confidence, 0);
+    const latest = (group: Array<{ reading: OcrLabelReading }>) => readings.indexOf(group[group.length - 1].reading);
+    // Highest total first; on a tie, the group whose last reading came later
+    const ranked = [...groups.values()].sort((a, b) => total(b) - total(a) || latest(b) - latest(a));
+    const [winner, ...rest] = ranked;
+    const best = winner.reduce((a, b) => (b.confidence >= a.confidence ? b : a));
+    const agreed = 1 - winner.reduce((p, g) => p * (1 - g.confidence), 1);
+    const confidence = round(rest.length ? agreed * CONTESTED_FACTOR : agreed);
+    const tied = rest.length > 0 && Math.abs(total(rest[0]) - total(winner)) < 1e-9;
+    const value = best.reading.label[key]!.trim();
+    label[key] = value;
+    const evidence = best.reading.label.confidence?.[key];
+    if (evidence) label.confidence = { ...label.confidence, [key]: { ...evidence, confidence } };
+    if (key === 'expiry' && best.reading.label.expiry_date) label.expiry_date = best.reading.label.expiry_date;
+    const corrections = best.reading.label.ocrCorrections?.filter((c) => c.key === key) ?? [];
+    if (corrections.length) label.ocrCorrections = [...(label.ocrCorrections ?? []), ...corrections];
+    votes.push({
+      key,
+      value,
+      providers: winner.map((g) => g.reading.provider),
+      confidence,
+      ...(rest.length && {
+        rejected: rest.map((group) => ({
+          value: group[0].reading.label[key]!.trim(),
+          providers: group.map((g) => g.reading.provider),
+        })),
+      }),
+      ...(tied && { tied }),
+    });
+  }
+  return { label, votes };
+}
+
+/**
+ * Recognize a label with engines in order: the first engine's label is kept when it has batch or lot and expiry
+ * at sufficient confidence; otherwise the next engine runs and all readings so far are voted, until the merged
+ * label is sufficient (with no tied batch, lot or expiry vote) or the engines are exhausted. Failing engines are
+ * recorded and skipped; rejects only when no engine returned a result.
+ */
+export async function recognizeLabel(
+  image: Blob,
+  engines: readonly OcrProvider[],
+  options: RecognizeLabelOptions
+): Promise<OcrLabelResult> {
+  const { clean = (raw: string) => raw.trim(), extract, signal, keys = ESCALATION_KEYS } = options;
+  const attempts: OcrAttempt[] = [];
+  const readings: OcrLabelReading[] = [];
+  let merged: { label: ScanLabelFields; votes?: OcrFieldVote[] } | null = null;
+  let escalation: string | undefined;
+  let lastError: unknown;
+  for (const engine of engines) {
+    if (signal?.aborted) break;
+    if (merged) {
+      const shortfall = labelShortfall(merged.label, keys);
+      const ties = (merged.votes ?? [])
+        .filter((v) => v.tied && ESCALATION_KEYS.includes(v.key) && keys.includes(v.key))
+        .map((v) => v.key);
+      if (shortfall.missing.length === 0 && shortfall.lowConfidence.length === 0 && ties.length === 0) break;
+      escalation ??= describeShortfall(shortfall);
+    } else if (readings.length === 0 && attempts.length > 0) {
+      escalation ??= `${attempts[0].provider} failed`;
+    }
+    const started = Date.now();
+    try {
+      const result = await engine.recognize(image, { signal });
+      const text = clean(result.text);
+      const label = text ? extract(text) : EMPTY_LABEL;
+      const { missing, lowConfidence } = labelShortfall(label, keys);
+      attempts.push({
+        provider: engine.name,
+        durationMs: Date.now() - started,
+        ...(result.confidence !== undefined && { confidence: round(result.confidence) }),
+        ...(missing.length && { missing }),
+        ...(lowConfidence.length && { lowConfidence }),
+      });
+      readings.push({ provider: engine.name, raw: result.text, text, label });
+      merged = readings.length > 1 ? voteLabelFields(readings) : { label };
+    } catch (err) {
+      lastError = err;
+      const error = err instanceof Error ? err.message : String(err);
+      attempts.push({ provider: engine.name, durationMs: Date.now() - started, error });
+    }
+  }
+  if (!merged || readings.length === 0) throw lastError ?? new Error('No OCR engine');
+  // Scan text from the engine that supplied the most merged values (later engines win ties)
+  const mergedLabel = merged.label;
+  const supplied = (reading: OcrLabelReading) =>
+    LABEL_OUTPUT_KEYS.filter((key) => mergedLabel[key] && normalizeVote(reading.label[key] ?? '') === normalizeVote(mergedLabel[key]!))
+      .length;
+  const textReading = readings.reduce((a, b) => (supplied(b) >= supplied(a) ? b : a));
+  return {
+    text: textReading.text,
+    raw: readings.length > 1 ? readings.map((r) => `[${r.provider}]\n${r.raw.trim()}`).join('\n\n') : readings[0].raw,
+    label: merged.label,
+    decision: {
+      attempts,
+      ...(escalation && { escalation }),
+      ...(merged.votes && { votes: merged.votes }),
+      textFrom: textReading.provider,
+    },
+  };
+}
+
+/**
+ * The decision on one line, e.g. 'tesseract 45% (missing expiry) → vision 91% · batch_no "B0Z7" by tesseract,
+ * vision; expiry "2027-02" by vision'
+ */
+export function describeOcrDecision(decision: OcrDecision): string {
+  const path = decision.attempts
+    .map((a) => {
+      const confidence = a.confidence !== undefined ? ` ${Math.round(a.confidence * 100)}%` : '';
+      const problems = a.error ?? describeShortfall({ missing: a.missing ?? [], lowConfidence: a.lowConfidence ?? [] });
+      return `${a.provider}${confidence}${problems ? ` (${problems})` : ''}`;
+    })
+    .join(' → ');
+  const votes = (decision.votes ?? [])
+    .map((v) => {
+      const rejected = (v.rejected ?? []).map((r) => `"${r.value}" by ${r.providers.join(', ')}`).join(', ');
+      return `${v.key} "${v.value}" by ${v.providers.join(', ')}${rejected ? ` over ${rejected}` : ''}`;
+    })
+    .join('; ');
+  return votes ? `${path} · ${votes}` : path;
+}
@@ -1,9 +1,225 @@
 export {
   createSocketClient,
   joinRoom,
+  leaveRoom,
+  listSessions,
+  onDeviceRevoked,
+  onPresence,
+  requestPairingToken,
+  revokeDevice,
+  sendDeviceStatus,
   sendScan,
   onBroadcastToDashboard,
+  requestHistory,
   SOCKET_EVENTS,
+  SCAN_EVENT_VERSION,
+  isScanEvent,
+  scanEventError,
+  scanEventFromLegacy,
+  toScanEvent,
+} from './socket.js';
+export type {
+  BarcodeScanEvent,
+  DeviceBattery,
+  DevicePresence,
+  Gs1ScanEvent,
+  JoinRoomOptions,
+  JoinRoomResult,
+  LabelCaptureScanEvent,
+  OcrTextScanEvent,
+  PairedDevice,
+  PairingToken,
+  ReceivedScanEvent,
+  ScanEnvelope,
+  ScanEvent,
+  ScanEventInit,
+  ScanEventKind,
+  ScanHistoryPage,
+  ScanLabelFields,
+  ScanPayload,
+  ScanSourceEngine,
+  SendScanResult,
+  SessionCredential,
+  SessionInfo,
+  SessionRole,
 } from './socket.js';
-export type { ScanPayload } from './socket.js';
 export type { SocketEventName } from './constants.js';
+export {
+  COMMAND_TIMEOUT_MS,
+  isOcrProviderName,
+  isScannerCommand,
+  onCommand,
+  PROMPT_TIMEOUT_MS,
+  sendCommand,
+} from './commands.js';
+export type {
+  CommandResult,
+  OcrProviderName,
+  ScannerCaptureMode,
+  ScannerCommand,
+  ScannerCommandEnvelope,
+  ScannerCommandType,
+  SendCommandResult,
+} from './commands.js';
+export {
+  exportScans,
+  filterScans,
+  SCAN_EXPORT_COLUMNS,
+  SCAN_EXPORT_FORMATS,
+  SCAN_EXPORT_MIME_TYPES,
+  scansToCsv,
+  scansToNdjson,
+  scansToXlsx,
+  toScanExportRow,
+} from './scanExport.js';
+export type { ScanExportColumn, ScanExportFilter, ScanExportFormat, ScanExportRow } from './scanExport.js';
+export { createXlsx } from './xlsx.js';
+export {
+  expiryFromParts,
+  expiryLastDay,
+  formatExpiry,
+  formatExpiryDisplay,
+  isLikelyYymmdd,
+  MONTH_ABBREVIATIONS,
+  normalizeExpiry,
+  parseExpiry,
+} from './expiry.js';
+export type { ExpiryDate, ExpiryFormat, ExpiryPrecision, ParseExpiryOptions } from './expiry.js';
+export {
+  GS1_APPLICATION_IDENTIFIERS,
+  GS1_GROUP_SEPARATOR,
+  gs1DateToIso,
+  gs1Fields,
+  gs1YearFromYy,
+  lookupGs1Ai,
+  normalizeGs1Input,
+  parseGs1,
+} from './gs1.js';
+export type {
+  Gs1AiDefinition,
+  Gs1Charset,
+  Gs1Element,
+  Gs1Fields,
+  Gs1ParseResult,
+} from './gs1.js';
+export {
+  computeGs1CheckDigit,
+  isValidGs1CheckDigit,
+  validateGs1,
+  validateGs1Date,
+  validateGs1Element,
+  validateGtin,
+} from './gs1Validate.js';
+export type { Gs1ValidationCode, Gs1ValidationError } from './gs1Validate.js';
+export {
+  DEFAULT_LABEL_FORMATS,
+  LABEL_FORMATS_ENDPOINT,
+  LABEL_OUTPUT_KEYS,
+  onLabelFormatsUpdated,
+  publishLabelFormats,
+  validateLabelFormats,
+} from './labelFormats.js';
+export type {
+  LabelEngine,
+  LabelExpiryOrder,
+  LabelFieldDefinition,
+  LabelFormatDefinition,
+  LabelFormatSample,
+  LabelFormatValidation,
+  LabelOutputKey,
+  PublishLabelFormatsResult,
+} from './labelFormats.js';
+export { parseGs1ToLabelJson } from './gs1Label.js';
+export type { Gs1LabelResult } from './gs1Label.js';
+export {
+  checkLabelFormatSample,
+  compileLabelFormat,
+  compileLabelFormats,
+  extractLabelFromOcr,
+  LABEL_LOW_CONFIDENCE,
+  lowConfidenceFields,
+  matchLabelField,
+} from './labelExtract.js';
+export type {
+  LabelFieldConfidence,
+  LabelFieldEvidence,
+  LabelFormat,
+  LabelFormatResult,
+  LabelSampleCheck,
+} from './labelExtract.js';
+export {
+  scanditFieldDefinitions,
+  scanditFieldsToLabelJson,
+  scanditLabelFieldsToLabelJson,
+  simulateScanditFields,
+} from './scanditLabel.js';
+export type { LabelJson, ScanditField, ScanditFieldDefinition } from './scanditLabel.js';
+export { correctOcrValue, describeOcrCorrection, OCR_CONFUSIONS } from './ocrCorrect.js';
+export type { LabelOcrCorrection, OcrCharSubstitution, OcrValueCorrection } from './ocrCorrect.js';
+export {
+  createFixtureOcrProvider,
+  meanOcrConfidence,
+  OCR_ENDPOINT,
+  OCR_PROVIDERS_ENDPOINT,
+  SCANNER_OCR_PROVIDERS,
+  toOcrProviderInfos,
+  toOcrResult,
+} from './ocrProvider.js';
+export type { OcrBox, OcrProvider, OcrProviderInfo, OcrRecognizeOptions, OcrResult, OcrWord } from './ocrProvider.js';
+export { describeOcrDecision, labelShortfall, recognizeLabel, voteLabelFields } from './hybridOcr.js';
+export type {
+  OcrAttempt,
+  OcrDecision,
+  OcrFieldVote,
+  OcrLabelReading,
+  OcrLabelResult,
+  RecognizeLabelOptions,
+} from './hybridOcr.js';
+export {
+  describeOcrPreprocess,
+  estimateSkew,
+  OCR_PREPROCESS_PRESET_NAMES,
+  OCR_PREPROCESS_PRESETS,
+  preprocessOcrImage,
+} from './ocrPreprocess.js';
+export type {
+  OcrImage,
+  OcrPreprocessInfo,
+  OcrPreprocessPresetName,
+  OcrPreprocessSettings,
+  OcrPreprocessSummary,
+} from './ocrPreprocess.js';
+export {
+  clampOcrRegion,
+  combineRegionLabels,
+  DEFAULT_OCR_REGIONS,
+  describeOcrRegions,
+  extractRegionLabel,
+  OCR_REGION_DEFAULTS,
+  OCR_REGION_KEYS,
+  OCR_REGION_KINDS,
+} from './ocrRegions.js';
+export type { OcrRegion, OcrRegionKind, OcrRegionSummary } from './ocrRegions.js';
+export {
+  DEFAULT_OCR_CONSENSUS_FRAMES,
+  describeOcrConsensus,
+  describeOcrConsensusSummary,
+  OCR_CONSENSUS_KEYS,
+  ocrConsensus,
+} from './ocrConsensus.js';
+export type { OcrConsensus, OcrConsensusField, OcrConsensusSummary } from './ocrConsensus.js';
+export {
+  applyLabelCorrections,
+  labelCorrections,
+  labelSamplesEndpoint,
+  onScanReviewed,
+  REVIEWABLE_LABEL_KEYS,
+  reviewScan,
+} from './review.js';
+export type {
+  CorrectedLabelSample,
+  LabelFieldCorrection,
+  ReviewScanResult,
+  ScanReview,
+  ScanReviewedEvent,
+} from './review.js';
@@ -0,0 +1,372 @@
+/**
+ * OCR label extraction: declarative label formats (labelFormats.ts) compiled to regex extractors, plus a
+ * generic fallback; extractLabelFromOcr keeps the format whose fields add up to the highest confidence and
+ * reports, per field, how sure it is, which format and text produced it and what other formats read instead.
+ * Values of fields with character-class templates get misread characters corrected (ocrCorrect.ts).
+ * Shared so the scanner and the dashboard's label-format editor produce the same result for the same text.
+ */
+import { formatExpiry, isLikelyYymmdd, parseExpiry, type ExpiryDate } from './expiry.js';
+import {
+  DEFAULT_LABEL_FORMATS,
+  LABEL_OUTPUT_KEYS,
+  type LabelExpiryOrder,
+  type LabelFieldDefinition,
+  type LabelFormatDefinition,
+  type LabelFormatSample,
+  type LabelOutputKey,
+} from './labelFormats.js';
+import { correctOcrValue, type LabelOcrCorrection, type OcrValueCorrection } from './ocrCorrect.js';
+
+/** Where an extracted value came from and how sure the extractor is about it */
+export type LabelFieldEvidence = {
+  value: string;
+  /** 0–1: anchored match > standalone value > generic guess; lower when another format reads it differently */
+  confidence: number;
+  /** Format that produced the value ('fallback' for the generic patterns, 'first_line' for a lone first line) */
+  formatId: string;
+  /** Format field (or fallback rule) that matched, e.g. "Lot no" */
+  field: string;
+  /** Found after an anchor such as "LOT NUMBER:" */
+  anchored: boolean;
+  /** Matched text (anchor and value) and its [start, end) offsets in the whitespace-normalized OCR text */
+  match?: { text: string; start: number; end: number };
+  /** Different values other formats read for the same key, most confident first */
+  candidates?: Array<{ value: string; confidence: number; formatId: string }>;
+  /** Misread characters corrected to fit the field's charTemplates (value is the corrected text) */
+  correction?: OcrValueCorrection;
+};
+
+/** Evidence per output key */
+export type LabelFieldConfidence = Partial<Record<LabelOutputKey, LabelFieldEvidence>>;
+
+export type LabelFormatResult = {
+  batch_no?: string;
+  lot_no?: string;
+  /** YYYY-MM-DD or YYYY-MM (see ExpiryDate in @scanning-poc/shared) */
+  expiry?: string;
+  expiry_date?: ExpiryDate;
+  serial?: string;
+  ref?: string;
+  /** How each value was found; a value without evidence counts as a standalone match */
+  evidence?: LabelFieldConfidence;
+};
+
+export type LabelFormat = {
+  id: string;
+  name: string;
+  /** Character templates of the format's OCR fields per output key (used for the lone first-line batch) */
+  charTemplates?: Partial<Record<LabelOutputKey, string[]>>;
+  /** Extract fields from normalized OCR text. Return only fields that were clearly found. */
+  extract: (text: string) => LabelFormatResult;
+};
+
+/** Base confidence by how a value was found */
+const CONFIDENCE = { anchored: 0.9, standalone: 0.6, guess: 0.35 };
+/** Expiry text that is not a date, or a date whose day and month could be swapped, is less certain */
+const UNPARSED_EXPIRY_FACTOR = 0.5;
+const AMBIGUOUS_EXPIRY_FACTOR = 0.8;
+/** Another format read a different value with at least the same confidence */
+const CONTESTED_FACTOR = 0.75;
+/** Characters were corrected to fit a template */
+const CORRECTED_FACTOR = 0.85;
+
+/** Fields below this confidence should be checked by a person */
+export const LABEL_LOW_CONFIDENCE = 0.6;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/** Set expiry (ISO) and expiry_date from the shared parser; text that is not a date is kept as found */
+function setExpiry(out: LabelFormatResult, raw: string, order?: LabelExpiryOrder): void {
+  const parsed = parseExpiry(raw, { dayFirst: order === 'DMY' });
+  out.expiry = parsed ? formatExpiry(parsed) : raw;
+  if (parsed) out.expiry_date = parsed;
+}
+
+/** Record how out[key] was found; expiry confidence also depends on how well the date parsed */
+function addEvidence(
+  out: LabelFormatResult,
+  key: LabelOutputKey,
+  base: number,
+  source: Omit<LabelFieldEvidence, 'value' | 'confidence' | 'candidates'>
+): void {
+  let confidence = source.correction ? base * CORRECTED_FACTOR : base;
+  if (key === 'expiry')
+    confidence *= !out.expiry_date ? UNPARSED_EXPIRY_FACTOR : out.expiry_date.ambiguous ? AMBIGUOUS_EXPIRY_FACTOR : 1;
+  out.evidence = { ...out.evidence, [key]: { value: out[key] ?? '', confidence: round(confidence), ...source } };
+}
+
+/** Matched text found at `start` in the normalized text */
+function matchAt(text: string, start: number): NonNullable<LabelFieldEvidence['match']> {
+  return { text, start, end: start + text.length };
+}
+
+/** Characters that continue a token: a value must not start or end inside a longer word, number or date */
+const TOKEN_CHAR = '[A-Za-z0-9/-]';
+
+/** One regex per anchor × value; the value is the named group (anchors and values may have their own groups) */
+function fieldRegexes(field: LabelFieldDefinition): RegExp[] {
+  const anchors = field.anchors.length ? field.anchors.map((a) => `(?:${a})\\s*`) : [`(?<!${TOKEN_CHAR})`];
+  return anchors.flatMap((anchor) => field.values.map((value) => new RegExp(`${anchor}(?<value>${value})(?!${TOKEN_CHAR})`, 'i')));
+}
+
+/** First match of a field in text (anchor then value, or a standalone value): trimmed value and matched span */
+function findLabelField(
+  field: LabelFieldDefinition,
+  text: string
+): { value: string; match: ReturnType<typeof matchAt> } | undefined {
+  for (const re of fieldRegexes(field)) {
+    const m = text.match(re);
+    const value = m?.groups?.value?.trim();
+    if (m && value) return { value, match: matchAt(m[0], m.index ?? 0) };
+  }
+  return undefined;
+}
+
+/** First value of a field in text (anchor then value, or a standalone value), trimmed */
+export function matchLabelField(field: LabelFieldDefinition, text: string): string | undefined {
+  return findLabelField(field, text)?.value;
+}
+
+/**
+ * OCR extractor for a declarative format: each OCR field in order fills the output keys that are still empty
+ * with its first match, corrected to the field's charTemplates. A standalone 6-digit batch/lot that reads as
+ * YYMMDD fills expiry instead (as a guess).
+ */
+export function compileLabelFormat(definition: LabelFormatDefinition): LabelFormat {
+  const fields = definition.fields.filter((field) => field.engines.includes('ocr'));
+  const charTemplates: Partial<Record<LabelOutputKey, string[]>> = {};
+  for (const field of fields) {
+    for (const key of field.outputKeys) {
+      if (key !== 'expiry' && field.charTemplates?.length) charTemplates[key] = [...(charTemplates[key] ?? []), ...field.charTemplates];
+    }
+  }
+  return {
+    id: definition.id,
+    name: definition.name,
+    ...(Object.keys(charTemplates).length && { charTemplates }),
+    extract(t) {
+      const out: LabelFormatResult = {};
+      for (const field of fields) {
+        const found = findLabelField(field, t);
+        if (!found) continue;
+        const { value, match } = found;
+        const anchored = field.anchors.length > 0;
+        const source = { formatId: definition.id, field: field.name, anchored, match };
+        const keys = field.outputKeys;
+        if (!anchored && isLikelyYymmdd(value) && (keys.includes('batch_no') || keys.includes('lot_no'))) {
+          if (!out.expiry) {
+            setExpiry(out, value);
+            addEvidence(out, 'expiry', CONFIDENCE.guess, source);
+          }
+          continue;
+        }
+        const { value: corrected, correction } = correctOcrValue(value, field.charTemplates);
+        for (const key of keys) {
+          if (out[key]) continue;
+          if (key === 'expiry') setExpiry(out, value, field.expiryFormat);
+          else out[key] = corrected;
+          const base = anchored ? CONFIDENCE.anchored : CONFIDENCE.standalone;
+          addEvidence(out, key, base, key !== 'expiry' && correction ? { ...source, correction } : source);
+        }
+      }
+      return out;
+    },
+  };
+}
+
+/** Fallback: try to get expiry in any common form, lot as long alphanumeric or digits, batch as short token */
+const fallback: LabelFormat = {
+  id: 'fallback',
+  name: 'Fallback (generic patterns)',
+  extract(t) {
+    const out: LabelFormatResult = {};
+    const source = (field: string, anchored: boolean, text: string, start = t.indexOf(text)) => ({
+      formatId: 'fallback',
+      field,
+      anchored,
+      match: matchAt(text, start),
+    });
+    const expiryYyyyMm = t.match(/\d{4}-\d{2}(-\d{2})?/);
+    const expirySlash = t.match(/(\d{1,2}\/\d{4})/);
+    const expiryMatch = expiryYyyyMm ?? expirySlash;
+    if (expiryMatch) {
+      setExpiry(out, expiryMatch[0]);
+      addEvidence(out, 'expiry', CONFIDENCE.standalone, source('Date', false, expiryMatch[0], expiryMatch.index));
+    }
+
+    const expiryDigits = (out.expiry ?? '').replace(/-/g, '').replace(/\//g, '');
+    if (!out.lot_no) {
+      const lotLothash = t.match(/LOT\s*#?\s*:?\s*([A-Za-z0-9]{4,14})/i);
+      if (lotLothash) {
+        out.lot_no = lotLothash[1].toUpperCase();
+        addEvidence(out, 'lot_no', CONFIDENCE.anchored, source('LOT', true, lotLothash[0], lotLothash.index));
+      } else {
+        const digitStrings = t.match(/\d{6,14}/g) ?? [];
+        const lot = digitStrings
+          .filter((s) => s !== expiryDigits && !expiryDigits.startsWith(s))
+          .sort((a, b) => b.length - a.length)[0];
+        if (lot) {
+          out.lot_no = lot;
+          addEvidence(out, 'lot_no', CONFIDENCE.guess, source('Longest number', false, lot));
+        }
+      }
+    }
+    if (!out.batch_no) {
+      const batch = t.match(/\b([A-Za-z][A-Za-z0-9]{2,7})\b/g)?.find(
+        (w) => /[A-Za-z]/.test(w) && /\d/.test(w)
+      );
+      if (batch) {
+        out.batch_no = batch.toUpperCase();
+        addEvidence(out, 'batch_no', CONFIDENCE.guess, source('Short code', false, batch));
+      } else {
+        const d = t.match(/\b(\d{3,5})\b/g)?.find(
+          (s) => s !== out.lot_no && !expiryDigits.startsWith(s)
+        );
+        if (d) {
+          out.batch_no = d;
+          addEvidence(out, 'batch_no', CONFIDENCE.guess, source('Short number', false, d));
+        }
+      }
+    }
+    return out;
+  },
+};
+
+/** Declarative formats in order, then the generic fallback */
+export function compileLabelFormats(definitions: LabelFormatDefinition[]): LabelFormat[] {
+  return [...definitions.map(compileLabelFormat), fallback];
+}
+
+let defaultLabelFormats: LabelFormat[] | null = null;
+
+const SCORED_KEYS: LabelOutputKey[] = ['batch_no', 'lot_no', 'expiry'];
+
+/** Confidence of a result's value for key; 0 when empty */
+function confidenceOf(result: LabelFormatResult, key: LabelOutputKey): number {
+  if (!result[key]?.trim()) return 0;
+  return result.evidence?.[key]?.confidence ?? CONFIDENCE.standalone;
+}
+
+/** Sum of batch/lot/expiry confidences, so anchored matches outweigh standalone values and guesses */
+function score(result: LabelFormatResult): number {
+  return SCORED_KEYS.reduce((sum, key) => sum + confidenceOf(result, key), 0);
+}
+
+/**
+ * Run all registered formats and return the result with the highest score (on a tie, the first format).
+ * Normalizes to consistent shape { batch_no, lot_no, expiry } (empty string if missing); serial and ref when found.
+ * `confidence` holds the evidence per found field, with the other formats' different readings as candidates;
+ * `ocrCorrections` lists the misread characters corrected to fit a field's templates.
+ */
+export function extractLabelFromOcr(
+  ocrText: string,
+  /** Compiled formats (compileLabelFormats); default DEFAULT_LABEL_FORMATS */
+  formats: LabelFormat[] = (defaultLabelFormats ??= compileLabelFormats(DEFAULT_LABEL_FORMATS))
+): {
+  batch_no: string;
+  lot_no: string;
+  expiry: string;
+  expiry_date?: ExpiryDate;
+  serial?: string;
+  ref?: string;
+  confidence?: LabelFieldConfidence;
+  ocrCorrections?: LabelOcrCorrection[];
+} {
+  const t = ocrText.replace(/\s+/g, ' ').trim();
+  const lines = ocrText.split(/\r?\n/).map((s) => s.trim()).filter(Boolean);
+
+  const results = formats.map((format) => ({ formatId: format.id, result: format.extract(t) }));
+  let best: LabelFormatResult = {};
+  let bestFormat: LabelFormat | undefined;
+  let bestScore = 0;
+  results.forEach(({ result }, i) => {
+    const s = score(result);
+    if (s > bestScore) {
+      bestScore = s;
+      best = result;
+      bestFormat = formats[i];
+    }
+  });
+
+  const firstLine = lines[0]?.match(/^[A-Z0-9]{2,10}$/i)?.[0];
+  if (!best.batch_no && firstLine && best.lot_no !== firstLine && best.expiry !== firstLine) {
+    // A lone first line is read with the winning format's batch templates (e.g. 8027 → B0Z7)
+    const { value, correction } = correctOcrValue(firstLine, bestFormat?.charTemplates?.batch_no);
+    best = { ...best, batch_no: value };
+    addEvidence(best, 'batch_no', CONFIDENCE.guess, {
+      formatId: 'first_line',
+      field: 'First line',
+      anchored: false,
+      match: matchAt(firstLine, 0),
+      ...(correction && { correction }),
+    });
+  }
+
+  const confidence: LabelFieldConfidence = {};
+  for (const key of LABEL_OUTPUT_KEYS) {
+    const value = best[key]?.trim();
+    if (!value) continue;
+    const evidence: LabelFieldEvidence = best.evidence?.[key] ?? {
+      value,
+      confidence: CONFIDENCE.standalone,
+      formatId: results.find((r) => r.result === best)?.formatId ?? '',
+      field: key,
+      anchored: false,
+    };
+    // Other formats' readings of the same key that differ, most confident (then first) per value
+    const candidates = new Map<string, { value: string; confidence: number; formatId: string }>();
+    for (const { formatId, result } of results) {
+      const other = result[key]?.trim();
+      if (result === best || !other || other === value) continue;
+      const c = { value: other, confidence: confidenceOf(result, key), formatId };
+      if ((candidates.get(other)?.confidence ?? -1) < c.confidence) candidates.set(other, c);
+    }
+    const sorted = [...candidates.values()].sort((a, b) => b.confidence - a.confidence);
+    const contested = sorted.length > 0 && sorted[0].confidence >= evidence.confidence;
+    confidence[key] = {
+      ...evidence,
+      value,
+      confidence: contested ? round(evidence.confidence * CONTESTED_FACTOR) : evidence.confidence,
+      ...(sorted.length && { candidates: sorted }),
+    };
+  }
+
+  const ocrCorrections = (Object.entries(confidence) as Array<[LabelOutputKey, LabelFieldEvidence]>).flatMap(
+    ([key, evidence]) => (evidence.correction ? [{ key, formatId: evidence.formatId, field: evidence.field, ...evidence.correction }] : [])
+  );
+
+  return {
+    batch_no: (best.batch_no ?? '').trim(),
+    lot_no: (best.lot_no ?? '').trim(),
+    expiry: (best.expiry ?? '').trim(),
+    ...(best.expiry_date && { expiry_date: best.expiry_date }),
+    ...(best.serial && { serial: best.serial }),
+    ...(best.ref && { ref: best.ref }),
+    ...(Object.keys(confidence).length && { confidence }),
+    ...(ocrCorrections.length && { ocrCorrections }),
+  };
+}
+
+/** Found fields below LABEL_LOW_CONFIDENCE, lowest first, for human review */
+export function lowConfidenceFields(confidence: LabelFieldConfidence | undefined): Array<[LabelOutputKey, LabelFieldEvidence]> {
+  return (Object.entries(confidence ?? {}) as Array<[LabelOutputKey, LabelFieldEvidence]>)
+    .filter(([, evidence]) => evidence.confidence < LABEL_LOW_CONFIDENCE)
+    .sort(([, a], [, b]) => a.confidence - b.confidence);
+}
+
+export type LabelSampleCheck = {
+  pass: boolean;
+  /** What the format extracted from the sample */
+  actual: LabelFormatResult;
+  /** Expected keys whose value differs */
+  mismatched: LabelOutputKey[];
+};
+
+/** Run one format (alone, without the others or the fallback) over a sample and compare with its expected values */
+export function checkLabelFormatSample(format: LabelFormat, sample: LabelFormatSample): LabelSampleCheck {
+  const actual = format.extract(sample.text.replace(/\s+/g, ' ').trim());
+  const mismatched = (Object.keys(sample.expected) as LabelOutputKey[]).filter(
+    (key) => (actual[key] ?? '').trim() !== (sample.expected[key] ?? '').trim()
+  );
+  return { pass: mismatched.length === 0, actual, mismatched };
+}
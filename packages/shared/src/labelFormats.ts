@@ -0,0 +1,327 @@
+/**
+ * Declarative label formats: per manufacturer, the fields to read (anchor and value regexes, output keys,
+ * expiry order). One definition drives both the scanner's OCR text extraction and the Scandit Smart Label
+ * Capture custom-text fields. The socket server serves the active set (label-formats.json) at
+ * LABEL_FORMATS_ENDPOINT; DEFAULT_LABEL_FORMATS is the built-in set the scanner uses when it cannot load them.
+ * The socket server (packages/socket-server, through jiti) validates published formats with validateLabelFormats.
+ */
+import type { Socket } from 'socket.io-client';
+import { SOCKET_EVENTS } from './constants.js';
+import { OCR_PREPROCESS_PRESET_NAMES, type OcrPreprocessPresetName } from './ocrPreprocess.js';
+
+export type LabelOutputKey = 'batch_no' | 'lot_no' | 'expiry' | 'serial' | 'ref';
+
+/** Where a field is used: OCR text extraction, Scandit custom-text field, or both */
+export type LabelEngine = 'ocr' | 'scandit';
+
+/** How N/N/YYYY expiries are read */
+export type LabelExpiryOrder = 'MDY' | 'DMY';
+
+export type LabelFieldDefinition = {
+  /** Field name; also the Scandit field name, so fields with the same name in several formats must be identical */
+  name: string;
+  /** Anchor regexes (case-insensitive); empty = standalone value */
+  anchors: string[];
+  /** Value regexes; the value must match one of them */
+  values: string[];
+  /** Label JSON keys the value fills (e.g. a Batch/Lot field fills batch_no and lot_no) */
+  outputKeys: LabelOutputKey[];
+  /** Default true */
+  optional: boolean;
+  /** Default both */
+  engines: LabelEngine[];
+  /** Only for fields with the expiry output key; default MDY */
+  expiryFormat?: LabelExpiryOrder;
+  /**
+   * Character-class templates of the value (L letter, D digit, A either, other characters as is), e.g. "LDLD";
+   * misread characters (0/O, 1/I/L, 5/S, 8/B, 2/Z) are corrected when that makes the value fit (see ocrCorrect.ts).
+   * Not applied to expiries.
+   */
+  charTemplates?: string[];
+};
+
+/** Sample label text with the fields the format must extract from it */
+export type LabelFormatSample = {
+  text: string;
+  /** Expected values (expiry as YYYY-MM-DD / YYYY-MM); '' = must not be found; missing keys are not checked */
+  expected: Partial<Record<LabelOutputKey, string>>;
+};
+
+export type LabelFormatDefinition = {
+  id: string;
+  name: string;
+  /** Anchored fields should come first: the first field that fills an output key wins */
+  fields: LabelFieldDefinition[];
+  /** Regression samples (checked by the dashboard's format editor before publishing) */
+  samples?: LabelFormatSample[];
+  /** Image pre-processing before OCR (see ocrPreprocess.ts); default 'standard' */
+  preprocess?: OcrPreprocessPresetName;
+};
+
+/** Result of publishLabelFormats; `errors` lists invalid definitions */
+export type PublishLabelFormatsResult = { ok: true; count: number } | { ok: false; error: string; errors?: string[] };
+
+export type LabelFormatValidation = {
+  /** Valid formats with defaults filled in; a format with any error is left out */
+  formats: LabelFormatDefinition[];
+  /** One message per problem, e.g. "formats[2] (acme): fields[0].values[1]: invalid regex (...)" */
+  errors: string[];
+};
+
+export const LABEL_FORMATS_ENDPOINT = '/api/label-formats';
+
+export const LABEL_OUTPUT_KEYS: readonly LabelOutputKey[] = ['batch_no', 'lot_no', 'expiry', 'serial', 'ref'];
+
+const LABEL_ENGINES: readonly LabelEngine[] = ['ocr', 'scandit'];
+
+/** Field names used by the built-in Scandit barcode and expiry-date fields */
+const RESERVED_FIELD_NAMES = ['Barcode', 'Expiry Date'];
+
+const MONTHS = '(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)';
+
+function field(
+  name: string,
+  anchors: string[],
+  values: string[],
+  outputKeys: LabelOutputKey[],
+  engines: LabelEngine[] = ['ocr', 'scandit']
+): LabelFieldDefinition {
+  return { name, anchors, values, outputKeys, optional: true, engines };
+}
+
+/** Built-in formats (keep in sync with packages/socket-server/label-formats.json) */
+export const DEFAULT_LABEL_FORMATS: LabelFormatDefinition[] = [
+  {
+    id: 'gs1_style',
+    name: 'GS1-style (Lot No., Exp. YYYY-MM)',
+    fields: [
+      field('Lot no', ['Lot\\s*(No\\.?|Number|#)?\\s*:?\\s*'], ['[0-9]{4,14}', '[0-9A-Za-z]{4,14}'], ['lot_no']),
+      field(
+        'Expiry',
+        ['(Exp\\.?|Expiry|Expiration|Use\\s*[- ]?By)\\s*:?\\s*'],
+        ['[0-9]{4}-[0-9]{2}(-[0-9]{2})?', '[0-9]{2}/[0-9]{2}/[0-9]{4}', '[0-9]{2}-[0-9]{2}-[0-9]{4}'],
+        ['expiry']
+      ),
+      field('Expiry (YYYY-MM)', [], ['[0-9]{4}-[0-9]{2}(-[0-9]{2})?'], ['expiry'], ['ocr']),
+      field('Batch no', ['Batch\\s*no\\s*:?'], ['[0-9A-Za-z]{3,15}'], ['batch_no']),
+      field('Ref no', ['REF\\s*(No\\.?|Number|#)?\\s*:?\\s*', 'Reference\\s*:?\\s*'], ['[0-9]{4,12}', '[A-Za-z0-9]{4,15}'], ['ref']),
+      field(
+        'Serial no',
+        ['Serial\\s*(No\\.?|Number|#)?\\s*:?\\s*', 'SN\\s*:?\\s*', 'S/N\\s*:?\\s*'],
+        ['[0-9]{10,20}', '[A-Za-z0-9]{8,20}'],
+        ['serial']
+      ),
+      {
+        ...field('Product code', [], ['[A-Za-z]+[0-9][A-Za-z0-9]{2,}'], ['batch_no', 'lot_no']),
+        // Also corrects a lone first-line batch such as "8027" (B0Z7 misread)
+        charTemplates: ['LDLD', 'LLDDDD', 'LLLDDD'],
+      },
+    ],
+  },
+  {
+    id: 'numeric_lot_yyyy_mmm',
+    name: '6-digit batch/lot, YYYY-MMM expiry',
+    fields: [
+      field('Expiry (YYYY-MMM)', [], [`[0-9]{4}-${MONTHS}`], ['expiry']),
+      // A 6-digit value that reads as YYMMDD (e.g. 261201) is taken as expiry, not batch/lot
+      field('Batch/Lot (numeric)', [], ['[0-9]{6}'], ['batch_no', 'lot_no']),
+    ],
+  },
+  {
+    id: 'lot_exp_mmm_yyyy',
+    name: 'LOT 6digits / EXP MMM YYYY',
+    // Lot and expiry are usually embossed into the pouch or stamped on the carton flap
+    preprocess: 'embossed',
+    fields: [
+      field('Lot no (LOT prefix)', ['LOT\\s+'], ['[0-9]{6,15}'], ['lot_no']),
+      field('Expiry (EXP MMM YYYY)', ['EXP\\s+'], [`${MONTHS}\\s+[0-9]{4}`, `${MONTHS}[0-9]{4}`], ['expiry']),
+    ],
+  },
+  {
+    id: 'numeric_lot_exp_mm_yy',
+    name: '6-digit batch/lot, EXP MM/YY',
+    fields: [
+      field('Expiry (EXP MM/YY)', ['EXP\\s+'], ['[0-9]{1,2}/[0-9]{2}'], ['expiry']),
+      field('Batch/Lot (numeric)', [], ['[0-9]{6}'], ['batch_no', 'lot_no']),
+    ],
+  },
+  {
+    id: 'lot_number_expiration_date',
+    name: 'LOT NUMBER / EXPIRATION DATE YYYY/MM',
+    fields: [
+      field('Lot no (LOT NUMBER)', ['LOT\\s*NUMBER\\s*:?\\s*'], ['[A-Z0-9]{6,15}'], ['lot_no']),
+      field('Expiry (EXPIRATION DATE)', ['EXPIRATION\\s*DATE\\s*:?\\s*'], ['[0-9]{4}/[0-9]{1,2}', '[0-9]{4}-[0-9]{2}'], ['expiry']),
+    ],
+  },
+  {
+    id: 'lot_hash_exp_slash',
+    name: 'LOT # / EXP MM/YYYY',
+    fields: [
+      field('Lot no (LOT #)', ['LOT\\s*#\\s*:?\\s*'], ['[A-Za-z0-9]{4,14}'], ['lot_no']),
+      field('Expiry (EXP MM/YYYY)', ['EXP?\\.?\\s*:?\\s*'], ['[0-9]{1,2}/[0-9]{4}'], ['expiry']),
+      field('Expiry (MM/YYYY)', [], ['[0-9]{1,2}/[0-9]{4}'], ['expiry'], ['ocr']),
+      field('Batch no (digits)', [], ['[0-9]{3,5}'], ['batch_no'], ['ocr']),
+    ],
+  },
+];
+
+function regexError(source: unknown): string | null {
+  if (typeof source !== 'string' || !source) return 'must be a non-empty regex string';
+  try {
+    new RegExp(source);
+    return null;
+  } catch (e) {
+    return `invalid regex (${e instanceof Error ? e.message : String(e)})`;
+  }
+}
+
+function validateField(input: unknown, path: string, errors: string[]): LabelFieldDefinition | null {
+  const errorCount = errors.length;
+  const f = (typeof input === 'object' && input ? input : {}) as Record<string, unknown>;
+  if (typeof f.name !== 'string' || !f.name.trim()) errors.push(`${path}.name: required`);
+  else if (RESERVED_FIELD_NAMES.includes(f.name)) errors.push(`${path}.name: "${f.name}" is reserved`);
+  const anchors = f.anchors ?? [];
+  if (!Array.isArray(anchors)) errors.push(`${path}.anchors: must be an array`);
+  else anchors.forEach((a, i) => {
+    const error = regexError(a);
+    if (error) errors.push(`${path}.anchors[${i}]: ${error}`);
+  });
+  if (!Array.isArray(f.values) || f.values.length === 0) errors.push(`${path}.values: at least one value regex required`);
+  else f.values.forEach((v, i) => {
+    const error = regexError(v);
+    if (error) errors.push(`${path}.values[${i}]: ${error}`);
+  });
+  const outputKeys = f.outputKeys;
+  if (!Array.isArray(outputKeys) || outputKeys.length === 0) errors.push(`${path}.outputKeys: at least one key required`);
+  else {
+    const unknown = outputKeys.filter((k) => !LABEL_OUTPUT_KEYS.includes(k as LabelOutputKey));
+    if (unknown.length) errors.push(`${path}.outputKeys: unknown ${unknown.join(', ')} (use ${LABEL_OUTPUT_KEYS.join(', ')})`);
+  }
+  if (f.optional != null && typeof f.optional !== 'boolean') errors.push(`${path}.optional: must be true or false`);
+  const engines = f.engines ?? LABEL_ENGINES;
+  if (!Array.isArray(engines) || engines.length === 0 || engines.some((e) => !LABEL_ENGINES.includes(e as LabelEngine)))
+    errors.push(`${path}.engines: must list ${LABEL_ENGINES.join(' and/or ')}`);
+  if (f.expiryFormat != null) {
+    if (f.expiryFormat !== 'MDY' && f.expiryFormat !== 'DMY') errors.push(`${path}.expiryFormat: must be MDY or DMY`);
+    else if (Array.isArray(outputKeys) && !outputKeys.includes('expiry'))
+      errors.push(`${path}.expiryFormat: only for fields with the expiry output key`);
+  }
+  if (f.charTemplates != null && (!Array.isArray(f.charTemplates) || f.charTemplates.some((t) => typeof t !== 'string' || !t.trim())))
+    errors.push(`${path}.charTemplates: must be an array of non-empty strings`);
+  if (errors.length > errorCount) return null;
+  const charTemplates = ((f.charTemplates ?? []) as string[]).map((t) => t.trim());
+  return {
+    name: (f.name as string).trim(),
+    anchors: anchors as string[],
+    values: f.values as string[],
+    outputKeys: outputKeys as LabelOutputKey[],
+    optional: (f.optional as boolean | undefined) ?? true,
+    engines: engines as LabelEngine[],
+    ...(f.expiryFormat != null && { expiryFormat: f.expiryFormat as LabelExpiryOrder }),
+    ...(charTemplates.length && { charTemplates }),
+  };
+}
+
+function validateSample(input: unknown, path: string, errors: string[]): LabelFormatSample | null {
+  const s = (typeof input === 'object' && input ? input : {}) as Record<string, unknown>;
+  const expected = (typeof s.expected === 'object' && s.expected ? s.expected : null) as Record<string, unknown> | null;
+  const errorCount = errors.length;
+  if (typeof s.text !== 'string' || !s.text.trim()) errors.push(`${path}.text: required`);
+  if (!expected) errors.push(`${path}.expected: must be an object`);
+  else {
+    for (const [key, value] of Object.entries(expected)) {
+      if (!LABEL_OUTPUT_KEYS.includes(key as LabelOutputKey)) errors.push(`${path}.expected: unknown key ${key}`);
+      else if (typeof value !== 'string') errors.push(`${path}.expected.${key}: must be a string`);
+    }
+  }
+  return errors.length > errorCount ? null : { text: s.text as string, expected: expected as LabelFormatSample['expected'] };
+}
+
+function sameField(a: LabelFieldDefinition, b: LabelFieldDefinition): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Check label-format JSON (an array of formats, or { formats: [...] }) and fill in defaults.
+ * Invalid formats are left out and reported; valid ones are returned in order.
+ */
+export function validateLabelFormats(input: unknown): LabelFormatValidation {
+  const list = Array.isArray(input) ? input : (input as { formats?: unknown } | null)?.formats;
+  if (!Array.isArray(list)) return { formats: [], errors: ['Label formats must be an array or { formats: [...] }'] };
+  const formats: LabelFormatDefinition[] = [];
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const fieldsByName = new Map<string, LabelFieldDefinition>();
+  list.forEach((input, index) => {
+    const errorCount = errors.length;
+    const f = (typeof input === 'object' && input ? input : {}) as Record<string, unknown>;
+    const path = `formats[${index}]${typeof f.id === 'string' && f.id ? ` (${f.id})` : ''}`;
+    if (typeof f.id !== 'string' || !f.id.trim()) errors.push(`${path}.id: required`);
+    else if (ids.has(f.id)) errors.push(`${path}.id: duplicate`);
+    if (typeof f.name !== 'string' || !f.name.trim()) errors.push(`${path}.name: required`);
+    const fields: LabelFieldDefinition[] = [];
+    if (!Array.isArray(f.fields) || f.fields.length === 0) errors.push(`${path}.fields: at least one field required`);
+    else {
+      f.fields.forEach((input, i) => {
+        const fieldDef = validateField(input, `${path}.fields[${i}]`, errors);
+        if (!fieldDef) return;
+        if (fields.some((other) => other.name === fieldDef.name)) {
+          errors.push(`${path}.fields[${i}].name: "${fieldDef.name}" is used twice in this format`);
+          return;
+        }
+        const existing = fieldsByName.get(fieldDef.name);
+        if (existing && !sameField(existing, fieldDef))
+          errors.push(`${path}.fields[${i}].name: "${fieldDef.name}" is defined differently in another format`);
+        fields.push(fieldDef);
+      });
+    }
+    const samples: LabelFormatSample[] = [];
+    if (f.samples != null && !Array.isArray(f.samples)) errors.push(`${path}.samples: must be an array`);
+    else (f.samples ?? []).forEach((input: unknown, i: number) => {
+      const sample = validateSample(input, `${path}.samples[${i}]`, errors);
+      if (sample) samples.push(sample);
+    });
+    if (f.preprocess != null && !OCR_PREPROCESS_PRESET_NAMES.includes(f.preprocess as OcrPreprocessPresetName))
+      errors.push(`${path}.preprocess: must be one of ${OCR_PREPROCESS_PRESET_NAMES.join(', ')}`);
+    if (errors.length > errorCount) return;
+    ids.add(f.id as string);
+    for (const fieldDef of fields) if (!fieldsByName.has(fieldDef.name)) fieldsByName.set(fieldDef.name, fieldDef);
+    formats.push({
+      id: (f.id as string).trim(),
+      name: (f.name as string).trim(),
+      fields,
+      ...(samples.length && { samples }),
+      ...(f.preprocess != null && { preprocess: f.preprocess as OcrPreprocessPresetName }),
+    });
+  });
+  return { formats, errors };
+}
+
+/**
+ * Replace the server's label formats (dashboard only, with the server's LABEL_FORMATS_ADMIN_KEY); the server
+ * validates them, re-runs every sample and tells scanners to reload
+ */
+export async function publishLabelFormats(
+  socket: Socket,
+  sid: string,
+  formats: LabelFormatDefinition[],
+  adminKey: string
+): Promise<PublishLabelFormatsResult> {
+  try {
+    const response = (await socket
+      .timeout(10000)
+      .emitWithAck(SOCKET_EVENTS.PUBLISH_LABEL_FORMATS, { sid, formats, adminKey })) as
+      | PublishLabelFormatsResult
+      | undefined;
+    return response ?? { ok: false, error: 'invalid response' };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Called when another dashboard published label formats. Returns unsubscribe. */
+export function onLabelFormatsUpdated(socket: Socket, handler: () => void): () => void {
+  const listener = () => handler();
+  socket.on(SOCKET_EVENTS.LABEL_FORMATS_UPDATED, listener);
+  return () => socket.off(SOCKET_EVENTS.LABEL_FORMATS_UPDATED, listener);
+}
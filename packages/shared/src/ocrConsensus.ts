@@ -0,0 +1,123 @@
+/**
+ * Multi-frame OCR consensus: the scanner recognizes frame after frame and only sends once batch/lot and expiry
+ * read the same across `required` frames. Frames without text are not counted; only the latest frames are
+ * considered, so moving to another label does not mix the two.
+ */
+import type { LabelOutputKey } from './labelFormats.js';
+import type { ScanLabelFields } from './socket.js';
+
+/** Keys that must agree before a consensus result is sent */
+export const OCR_CONSENSUS_KEYS: readonly LabelOutputKey[] = ['batch_no', 'lot_no', 'expiry'];
+
+export const DEFAULT_OCR_CONSENSUS_FRAMES = 3;
+
+/** Agreement on one key: the leading value and how many of the considered frames read it */
+export type OcrConsensusField = { value: string; frames: number; otherValues: number };
+
+export type OcrConsensus = {
+  /**
+   * The chosen frame's label (`frameIndex`) with the voted keys replaced by the leading values, each with the
+   * evidence of the latest frame that read it; its other fields (serial, REF, GTIN, …) are kept as read
+   */
+  label: ScanLabelFields;
+  fields: Partial<Record<LabelOutputKey, OcrConsensusField>>;
+  /** Frames considered (with text) */
+  frames: number;
+  required: number;
+  /** Expiry and batch or lot agree across `required` frames, as does every key most frames read */
+  complete: boolean;
+  /**
+   * Index (in the frames passed) of the latest frame that matches the leading values best; among those, the one
+   * that read the most other fields
+   */
+  frameIndex: number;
+};
+
+/** Stored with the scan: how the consensus was reached */
+export type OcrConsensusSummary = {
+  frames: number;
+  required: number;
+  agreed: Partial<Record<LabelOutputKey, number>>;
+  durationMs: number;
+};
+
+const normalize = (value: string) => value.toUpperCase().replace(/\s+/g, '');
+
+/** Consensus over frame labels (oldest first); the latest max(2 × required, 3) frames are considered */
+export function ocrConsensus(frames: readonly ScanLabelFields[], required: number = DEFAULT_OCR_CONSENSUS_FRAMES): OcrConsensus {
+  const offset = Math.max(frames.length - Math.max(required * 2, 3), 0);
+  const recent = frames.slice(offset);
+  const leading: ScanLabelFields = { batch_no: '', lot_no: '', expiry: '' };
+  const fields: OcrConsensus['fields'] = {};
+  for (const key of OCR_CONSENSUS_KEYS) {
+    const counts = new Map<string, { count: number; last: number }>();
+    recent.forEach((frame, i) => {
+      const value = frame[key]?.trim();
+      if (!value) return;
+      const entry = counts.get(normalize(value)) ?? { count: 0, last: i };
+      counts.set(normalize(value), { count: entry.count + 1, last: i });
+    });
+    // Most frames first; on a tie, the value read most recently
+    const ranked = [...counts.values()].sort((a, b) => b.count - a.count || b.last - a.last);
+    if (ranked.length === 0) continue;
+    const source = recent[ranked[0].last];
+    const value = source[key]!.trim();
+    leading[key] = value;
+    const evidence = source.confidence?.[key];
+    if (evidence) leading.confidence = { ...leading.confidence, [key]: evidence };
+    if (key === 'expiry' && source.expiry_date) leading.expiry_date = source.expiry_date;
+    const corrections = source.ocrCorrections?.filter((c) => c.key === key) ?? [];
+    if (corrections.length) leading.ocrCorrections = [...(leading.ocrCorrections ?? []), ...corrections];
+    fields[key] = { value, frames: ranked[0].count, otherValues: ranked.length - 1 };
+  }
+  const agrees = (key: LabelOutputKey) => (fields[key]?.frames ?? 0) >= required;
+  // A key most frames read must agree too (e.g. both batch and lot on the label)
+  const readByMost = OCR_CONSENSUS_KEYS.filter((key) => recent.filter((f) => f[key]?.trim()).length * 2 > recent.length);
+  const complete = agrees('expiry') && (agrees('batch_no') || agrees('lot_no')) && readByMost.every(agrees);
+  const voted = (key: string) => (OCR_CONSENSUS_KEYS as readonly string[]).includes(key);
+  const matches = (frame: ScanLabelFields) =>
+    OCR_CONSENSUS_KEYS.filter((key) => leading[key] && normalize(frame[key] ?? '') === normalize(leading[key] ?? '')).length;
+  // Fields read besides the voted keys (a frame whose barcode region was not decoded has fewer)
+  const extras = (frame: ScanLabelFields) =>
+    Object.entries(frame).filter(([key, value]) => typeof value === 'string' && value.trim() && !voted(key)).length;
+  const better = (a: ScanLabelFields, b: ScanLabelFields) => matches(a) - matches(b) || extras(a) - extras(b);
+  let frameIndex = recent.length - 1;
+  recent.forEach((frame, i) => {
+    if (better(frame, recent[frameIndex]) >= 0) frameIndex = i;
+  });
+  // The chosen frame's other fields (serial, REF, a barcode region's GTIN, …) are kept; only the voted keys,
+  // with their evidence, come from the frames that read the leading values
+  const base = recent[Math.max(frameIndex, 0)] ?? leading;
+  const { expiry_date: _expiryDate, confidence: _confidence, ocrCorrections: _corrections, ...rest } = base;
+  const confidence = {
+    ...Object.fromEntries(Object.entries(base.confidence ?? {}).filter(([key]) => !voted(key))),
+    ...leading.confidence,
+  };
+  const ocrCorrections = [...(base.ocrCorrections ?? []).filter((c) => !voted(c.key)), ...(leading.ocrCorrections ?? [])];
+  const label: ScanLabelFields = {
+    ...rest,
+    batch_no: leading.batch_no,
+    lot_no: leading.lot_no,
+    expiry: leading.expiry,
+    ...(leading.expiry_date && { expiry_date: leading.expiry_date }),
+    ...(Object.keys(confidence).length && { confidence }),
+    ...(ocrCorrections.length && { ocrCorrections }),
+  };
+  return { label, fields, frames: recent.length, required, complete, frameIndex: offset + Math.max(frameIndex, 0) };
+}
+
+/** e.g. 'lot_no 20054138 (3/3) · expiry 2027-02 (2/3)' — keys not read yet are left out */
+export function describeOcrConsensus(consensus: OcrConsensus): string {
+  return OCR_CONSENSUS_KEYS.flatMap((key) => {
+    const field = consensus.fields[key];
+    return field ? [`${key} ${field.value} (${Math.min(field.frames, consensus.required)}/${consensus.required})`] : [];
+  }).join(' · ');
+}
+
+/** e.g. 'lot_no 3/3 · expiry 3/3 · 4 frames in 2.4 s' */
+export function describeOcrConsensusSummary(summary: OcrConsensusSummary): string {
+  const agreed = OCR_CONSENSUS_KEYS.flatMap((key) =>
+    summary.agreed[key] ? [`${key} ${Math.min(summary.agreed[key]!, summary.required)}/${summary.required}`] : []
+  );
+  return [...agreed, `${summary.frames} frame${summary.frames === 1 ? '' : 's'} in ${(summary.durationMs / 1000).toFixed(1)} s`].join(' · ');
+}
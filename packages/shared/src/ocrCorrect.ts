@@ -0,0 +1,82 @@
+/**
+ * Context-aware OCR character correction. A label field can list character-class templates for its values
+ * (charTemplates, e.g. "LDLD" for product codes like B0Z7); a value is only changed when swapping commonly
+ * confused characters (0/O, 1/I/L, 5/S, 8/B, 2/Z) makes it fit a template it does not fit as read.
+ * Values that already fit, or cannot be made to fit, are kept as read, so numeric batches stay numeric.
+ */
+import type { LabelOutputKey } from './labelFormats.js';
+
+/** Characters OCR confuses, with what they may really be (first = preferred) */
+export const OCR_CONFUSIONS: Readonly<Record<string, string>> = {
+  '0': 'O',
+  O: '0',
+  '1': 'IL',
+  I: '1',
+  L: '1',
+  '5': 'S',
+  S: '5',
+  '8': 'B',
+  B: '8',
+  '2': 'Z',
+  Z: '2',
+};
+
+export type OcrCharSubstitution = { index: number; from: string; to: string };
+
+/** One corrected value: what was read, the template it was made to fit and every character changed */
+export type OcrValueCorrection = {
+  original: string;
+  value: string;
+  template: string;
+  substitutions: OcrCharSubstitution[];
+};
+
+/** A correction applied to a label key, with the format field whose template was used */
+export type LabelOcrCorrection = OcrValueCorrection & { key: LabelOutputKey; formatId?: string; field: string };
+
+/** Template characters: L = letter, D = digit, A = letter or digit; anything else must appear as is (case-insensitive) */
+function fitsClass(char: string, templateChar: string): boolean {
+  if (templateChar === 'L') return /[A-Za-z]/.test(char);
+  if (templateChar === 'D') return /[0-9]/.test(char);
+  if (templateChar === 'A') return /[A-Za-z0-9]/.test(char);
+  return char.toUpperCase() === templateChar.toUpperCase();
+}
+
+/** Substitutions that make value fit template, or null when it cannot */
+function fitTemplate(value: string, template: string): OcrCharSubstitution[] | null {
+  if (value.length !== template.length) return null;
+  const substitutions: OcrCharSubstitution[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const from = value[i];
+    if (fitsClass(from, template[i])) continue;
+    const to = [...(OCR_CONFUSIONS[from.toUpperCase()] ?? '')].find((c) => fitsClass(c, template[i]));
+    if (!to) return null;
+    substitutions.push({ index: i, from, to });
+  }
+  return substitutions;
+}
+
+/**
+ * Correct a value against its field's templates. Returns the value unchanged (no correction) when it already
+ * fits a template or no template can be reached by confusion swaps; otherwise the fit with the fewest swaps
+ * (the first template on a tie).
+ */
+export function correctOcrValue(value: string, templates: readonly string[] = []): { value: string; correction?: OcrValueCorrection } {
+  let best: { template: string; substitutions: OcrCharSubstitution[] } | null = null;
+  for (const template of templates) {
+    const substitutions = fitTemplate(value, template);
+    if (!substitutions) continue;
+    if (substitutions.length === 0) return { value };
+    if (!best || substitutions.length < best.substitutions.length) best = { template, substitutions };
+  }
+  if (!best) return { value };
+  const chars = [...value];
+  for (const { index, to } of best.substitutions) chars[index] = to;
+  const corrected = chars.join('');
+  return { value: corrected, correction: { original: value, value: corrected, ...best } };
+}
+
+/** e.g. 'batch_no 8027 → B0Z7 (LDLD)' */
+export function describeOcrCorrection(correction: LabelOcrCorrection): string {
+  return `${correction.key} ${correction.original} → ${correction.value} (${correction.template})`;
+}
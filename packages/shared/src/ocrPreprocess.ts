@@ -0,0 +1,294 @@
+/**
+ * Image pre-processing before OCR: greyscale, contrast stretch, deskew, upscaling, adaptive threshold and
+ * inversion, in that order, on RGBA pixels (ImageData layout). Pure functions, so the scanner runs them in a
+ * Web Worker and they can be checked outside a browser. Label formats name a preset (LabelFormatDefinition.preprocess),
+ * e.g. 'embossed' for stamped "EXP MAR2027" lot/expiry text.
+ */
+
+/** RGBA pixels, 4 bytes per pixel (same layout as ImageData) */
+export type OcrImage = { width: number; height: number; data: Uint8ClampedArray<ArrayBuffer> };
+
+export type OcrPreprocessSettings = {
+  /** Convert to luminance first; colour is kept otherwise (a threshold always produces greyscale) */
+  greyscale: boolean;
+  /** Stretch the 1st–99th luminance percentile to the full range */
+  contrastStretch: boolean;
+  /** Straighten text rotated by up to ±10° */
+  deskew: boolean;
+  /** Scale factor 1–4 (bilinear); Tesseract reads small print better at about 30 px per character */
+  upscale: number;
+  /** Black/white per pixel against the mean of a windowSize × windowSize neighbourhood (after upscaling) minus offset */
+  adaptiveThreshold: { windowSize: number; offset: number } | null;
+  /** true: light text on dark; 'auto': invert when the result is mostly dark */
+  invert: boolean | 'auto';
+};
+
+export type OcrPreprocessPresetName = 'none' | 'standard' | 'embossed' | 'dot-matrix' | 'inverted';
+
+export const OCR_PREPROCESS_PRESETS: Readonly<Record<OcrPreprocessPresetName, OcrPreprocessSettings>> = {
+  none: { greyscale: false, contrastStretch: false, deskew: false, upscale: 1, adaptiveThreshold: null, invert: false },
+  standard: { greyscale: true, contrastStretch: true, deskew: true, upscale: 2, adaptiveThreshold: null, invert: 'auto' },
+  /** Embossed or debossed text: relief shows as faint shading, so threshold against the local mean */
+  embossed: {
+    greyscale: true,
+    contrastStretch: true,
+    deskew: true,
+    upscale: 2,
+    adaptiveThreshold: { windowSize: 41, offset: 6 },
+    invert: 'auto',
+  },
+  /** Dot-matrix print: upscale more so dots blur into strokes before thresholding */
+  'dot-matrix': {
+    greyscale: true,
+    contrastStretch: true,
+    deskew: true,
+    upscale: 3,
+    adaptiveThreshold: { windowSize: 31, offset: 4 },
+    invert: 'auto',
+  },
+  inverted: { greyscale: true, contrastStretch: true, deskew: true, upscale: 2, adaptiveThreshold: null, invert: true },
+};
+
+export const OCR_PREPROCESS_PRESET_NAMES = Object.keys(OCR_PREPROCESS_PRESETS) as OcrPreprocessPresetName[];
+
+export type OcrPreprocessInfo = {
+  width: number;
+  height: number;
+  /** Rotation applied to straighten the text, when deskewing found any */
+  skewDegrees?: number;
+  inverted: boolean;
+};
+
+/** Stored with the scan: the preset the sent frame was processed with */
+export type OcrPreprocessSummary = OcrPreprocessInfo & { preset: OcrPreprocessPresetName };
+
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+const MAX_UPSCALE = 4;
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+function toPlanes({ width, height, data }: OcrImage, greyscale: boolean): Float32Array[] {
+  const n = width * height;
+  const planes = greyscale ? [new Float32Array(n)] : [new Float32Array(n), new Float32Array(n), new Float32Array(n)];
+  for (let i = 0; i < n; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    if (greyscale) planes[0][i] = luma(r, g, b);
+    else {
+      planes[0][i] = r;
+      planes[1][i] = g;
+      planes[2][i] = b;
+    }
+  }
+  return planes;
+}
+
+function luminance(planes: Float32Array[]): Float32Array {
+  if (planes.length === 1) return planes[0];
+  const out = new Float32Array(planes[0].length);
+  for (let i = 0; i < out.length; i++) out[i] = luma(planes[0][i], planes[1][i], planes[2][i]);
+  return out;
+}
+
+/** Luminance value below which `fraction` of the pixels lie */
+function percentile(lum: Float32Array, fraction: number): number {
+  const histogram = new Uint32Array(256);
+  for (const v of lum) histogram[Math.max(0, Math.min(255, Math.round(v)))]++;
+  const target = lum.length * fraction;
+  let count = 0;
+  for (let v = 0; v < 256; v++) {
+    count += histogram[v];
+    if (count >= target) return v;
+  }
+  return 255;
+}
+
+function stretch(planes: Float32Array[]): void {
+  const lum = luminance(planes);
+  const lo = percentile(lum, 0.01);
+  const hi = percentile(lum, 0.99);
+  if (hi - lo < 1) return;
+  const scale = 255 / (hi - lo);
+  for (const plane of planes) {
+    for (let i = 0; i < plane.length; i++) plane[i] = Math.max(0, Math.min(255, (plane[i] - lo) * scale));
+  }
+}
+
+function mean(values: Float32Array): number {
+  let sum = 0;
+  for (const v of values) sum += v;
+  return values.length ? sum / values.length : 0;
+}
+
+/**
+ * Skew angle in degrees: the rotation whose row projection of dark (text) pixels has the highest variance,
+ * i.e. where text lines fall into the fewest rows. 0 when there is too little text.
+ */
+export function estimateSkew(lum: Float32Array, width: number, height: number): number {
+  const threshold = mean(lum);
+  // Text is the minority: dark on light, or light on dark
+  let dark = 0;
+  for (const v of lum) if (v < threshold) dark++;
+  const textIsDark = dark <= lum.length / 2;
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const stride = Math.max(1, Math.floor(Math.sqrt((width * height) / 40000)));
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      const v = lum[y * width + x];
+      if (textIsDark ? v < threshold : v >= threshold) {
+        xs.push(x - width / 2);
+        ys.push(y - height / 2);
+      }
+    }
+  }
+  if (xs.length < 50) return 0;
+  let best = { angle: 0, score: -1 };
+  const rows = new Float64Array(height * 2 + 1);
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const tan = Math.tan((angle * Math.PI) / 180);
+    rows.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      const row = Math.round(ys[i] - xs[i] * tan + height);
+      if (row >= 0 && row < rows.length) rows[row]++;
+    }
+    let score = 0;
+    for (const count of rows) score += count * count;
+    if (score > best.score) best = { angle, score };
+  }
+  return best.angle;
+}
+
+/** Rotate about the centre by -degrees (undoing a skew of `degrees`), filling uncovered pixels with `fill` */
+function rotate(plane: Float32Array, width: number, height: number, degrees: number, fill: number): Float32Array {
+  const out = new Float32Array(plane.length);
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const cx = width / 2;
+  const cy = height / 2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Source of the output pixel: rotate back by +degrees
+      const sx = Math.round(cos * (x - cx) - sin * (y - cy) + cx);
+      const sy = Math.round(sin * (x - cx) + cos * (y - cy) + cy);
+      out[y * width + x] = sx >= 0 && sx < width && sy >= 0 && sy < height ? plane[sy * width + sx] : fill;
+    }
+  }
+  return out;
+}
+
+function resize(plane: Float32Array, width: number, height: number, newWidth: number, newHeight: number): Float32Array {
+  const out = new Float32Array(newWidth * newHeight);
+  const fx = width / newWidth;
+  const fy = height / newHeight;
+  for (let y = 0; y < newHeight; y++) {
+    const sy = Math.max(0, Math.min(height - 1, (y + 0.5) * fy - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(height - 1, y0 + 1);
+    const wy = sy - y0;
+    for (let x = 0; x < newWidth; x++) {
+      const sx = Math.max(0, Math.min(width - 1, (x + 0.5) * fx - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const wx = sx - x0;
+      const top = plane[y0 * width + x0] * (1 - wx) + plane[y0 * width + x1] * wx;
+      const bottom = plane[y1 * width + x0] * (1 - wx) + plane[y1 * width + x1] * wx;
+      out[y * newWidth + x] = top * (1 - wy) + bottom * wy;
+    }
+  }
+  return out;
+}
+
+/** Bradley-style local threshold using an integral image */
+function adaptiveThreshold(lum: Float32Array, width: number, height: number, windowSize: number, offset: number): Float32Array {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += lum[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+  const half = Math.max(1, Math.floor(windowSize / 2));
+  const out = new Float32Array(lum.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum =
+        integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1] - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const localMean = sum / ((x1 - x0) * (y1 - y0));
+      out[y * width + x] = lum[y * width + x] < localMean - offset ? 0 : 255;
+    }
+  }
+  return out;
+}
+
+/** Mean of the border pixels: the background to fill in when rotating */
+function borderMean(plane: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let count = 0;
+  for (let x = 0; x < width; x++) {
+    sum += plane[x] + plane[(height - 1) * width + x];
+    count += 2;
+  }
+  for (let y = 0; y < height; y++) {
+    sum += plane[y * width] + plane[y * width + width - 1];
+    count += 2;
+  }
+  return count ? sum / count : 255;
+}
+
+/** Run the pipeline; returns a new image (the input is not changed) */
+export function preprocessOcrImage(image: OcrImage, settings: OcrPreprocessSettings): { image: OcrImage; info: OcrPreprocessInfo } {
+  let { width, height } = image;
+  let planes = toPlanes(image, settings.greyscale || settings.adaptiveThreshold != null);
+  if (settings.contrastStretch) stretch(planes);
+  let skewDegrees: number | undefined;
+  if (settings.deskew) {
+    const angle = estimateSkew(luminance(planes), width, height);
+    if (angle !== 0) {
+      skewDegrees = angle;
+      planes = planes.map((plane) => rotate(plane, width, height, angle, borderMean(plane, width, height)));
+    }
+  }
+  const factor = Math.max(1, Math.min(MAX_UPSCALE, settings.upscale || 1));
+  if (factor > 1) {
+    const newWidth = Math.round(width * factor);
+    const newHeight = Math.round(height * factor);
+    planes = planes.map((plane) => resize(plane, width, height, newWidth, newHeight));
+    width = newWidth;
+    height = newHeight;
+  }
+  if (settings.adaptiveThreshold) {
+    const { windowSize, offset } = settings.adaptiveThreshold;
+    planes = [adaptiveThreshold(planes[0], width, height, windowSize, offset)];
+  }
+  const inverted = settings.invert === 'auto' ? mean(luminance(planes)) < 128 : settings.invert;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) {
+      const v = planes[planes.length === 1 ? 0 : c][i];
+      data[i * 4 + c] = inverted ? 255 - v : v;
+    }
+    data[i * 4 + 3] = 255;
+  }
+  return { image: { width, height, data }, info: { width, height, ...(skewDegrees !== undefined && { skewDegrees }), inverted } };
+}
+
+/** e.g. 'embossed · 1280×288 · deskewed -2.5° · inverted' */
+export function describeOcrPreprocess(summary: OcrPreprocessSummary): string {
+  return [
+    summary.preset,
+    `${summary.width}×${summary.height}`,
+    summary.skewDegrees !== undefined ? `deskewed ${summary.skewDegrees}°` : '',
+    summary.inverted ? 'inverted' : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
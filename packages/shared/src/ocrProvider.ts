@@ -0,0 +1,125 @@
+/**
+ * OCR provider interface. Every engine (Tesseract on the device, Vision or PaddleOCR through the socket server,
+ * fixtures for offline tests) takes a cropped image and returns the text with its words, boxes and confidences,
+ * so the scanner's capture loop does not depend on the engine. The socket server's providers (ocrProviders.js)
+ * answer POST /api/ocr/:provider with the same OcrResult JSON.
+ */
+import { isOcrProviderName, type OcrProviderName } from './commands.js';
+
+/** Server OCR route; the provider name is appended (/api/ocr/vision) */
+export const OCR_ENDPOINT = '/api/ocr';
+
+/** The socket server's OCR engines: { providers: OcrProviderInfo[] } */
+export const OCR_PROVIDERS_ENDPOINT = '/api/ocr-providers';
+
+/** An OCR engine as listed for pickers; `configured` is false for a server engine without its credentials */
+export type OcrProviderInfo = { name: OcrProviderName; label: string; configured: boolean };
+
+/** Engines scanners run without the socket server's list: Tesseract and fixtures on the device, the hybrid chain */
+export const SCANNER_OCR_PROVIDERS: readonly OcrProviderInfo[] = [
+  { name: 'tesseract', label: 'Device (Tesseract)', configured: true },
+  { name: 'mock', label: 'Mock (fixtures)', configured: true },
+  { name: 'hybrid', label: 'Hybrid (Tesseract → cloud)', configured: true },
+];
+
+/** Pixels in the recognized image, top-left origin */
+export type OcrBox = { x: number; y: number; width: number; height: number };
+
+export type OcrWord = {
+  text: string;
+  /** 0–1; missing when the engine does not report one */
+  confidence?: number;
+  box?: OcrBox;
+};
+
+export type OcrResult = {
+  provider: OcrProviderName;
+  text: string;
+  /** 0–1, mean word confidence unless the engine reports its own */
+  confidence?: number;
+  /** In reading order; empty when the engine returns text only */
+  words: OcrWord[];
+};
+
+export type OcrRecognizeOptions = { signal?: AbortSignal };
+
+export type OcrProvider = {
+  name: OcrProviderName;
+  /** Shown in the scanner's provider picker and status messages */
+  label: string;
+  /** Start loading models or workers before the first image (optional) */
+  prepare?: () => Promise<void>;
+  recognize: (image: Blob, options?: OcrRecognizeOptions) => Promise<OcrResult>;
+  /** Release workers; the provider is not used afterwards */
+  dispose?: () => void;
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isConfidence(v: unknown): v is number {
+  return typeof v === 'number' && v >= 0 && v <= 1;
+}
+
+function toBox(v: unknown): OcrBox | undefined {
+  if (!isRecord(v)) return undefined;
+  const { x, y, width, height } = v;
+  if (typeof x !== 'number' || typeof y !== 'number' || typeof width !== 'number' || typeof height !== 'number') return undefined;
+  return { x, y, width, height };
+}
+
+/** Mean word confidence, undefined when no word has one */
+export function meanOcrConfidence(words: readonly OcrWord[]): number | undefined {
+  const scores = words.map((w) => w.confidence).filter(isConfidence);
+  return scores.length ? scores.reduce((sum, c) => sum + c, 0) / scores.length : undefined;
+}
+
+/** OcrResult from a server response body; malformed words are dropped */
+export function toOcrResult(provider: OcrProviderName, data: unknown): OcrResult {
+  const body = isRecord(data) ? data : {};
+  const words: OcrWord[] = (Array.isArray(body.words) ? body.words : []).flatMap((w): OcrWord[] => {
+    if (!isRecord(w) || typeof w.text !== 'string') return [];
+    const box = toBox(w.box);
+    return [{ text: w.text, ...(isConfidence(w.confidence) && { confidence: w.confidence }), ...(box && { box }) }];
+  });
+  const confidence = isConfidence(body.confidence) ? body.confidence : meanOcrConfidence(words);
+  return {
+    provider,
+    text: typeof body.text === 'string' ? body.text.trim() : '',
+    ...(confidence !== undefined && { confidence }),
+    words,
+  };
+}
+
+/** Providers from an OCR_PROVIDERS_ENDPOINT response; malformed entries are dropped */
+export function toOcrProviderInfos(data: unknown): OcrProviderInfo[] {
+  const providers = isRecord(data) && Array.isArray(data.providers) ? data.providers : [];
+  return providers.flatMap((p): OcrProviderInfo[] =>
+    isRecord(p) && isOcrProviderName(p.name)
+      ? [{ name: p.name, label: typeof p.label === 'string' && p.label ? p.label : p.name, configured: p.configured !== false }]
+      : []
+  );
+}
+
+/**
+ * Offline provider for tests and demos: returns the fixture texts in turn (wrapping around), one word per
+ * whitespace-separated token with full confidence and no boxes.
+ */
+export function createFixtureOcrProvider(
+  texts: readonly string[],
+  options: { name?: OcrProviderName; label?: string } = {}
+): OcrProvider {
+  const name = options.name ?? 'mock';
+  let next = 0;
+  return {
+    name,
+    label: options.label ?? 'Mock (fixtures)',
+    recognize: async (_image, { signal } = {}) => {
+      if (signal?.aborted) throw new Error('Aborted');
+      const text = texts.length ? texts[next++ % texts.length] : '';
+      const words = text.split(/\s+/).filter(Boolean).map((word) => ({ text: word, confidence: 1 }));
+      return { provider: name, text: text.trim(), ...(words.length && { confidence: 1 }), words };
+    },
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * OCR capture regions: parts of the camera frame read separately and combined into one label. The default is
+ * one 'label' region (the blue focus frame) that supplies every key. Labels with lot and expiry printed apart
+ * get a 'lot' and an 'expiry' region, each read only for its keys and with its anchor as a hint; a 'barcode'
+ * region is decoded as a GS1 element string (its barcode, or its human-readable text).
+ */
+import { parseGs1ToLabelJson } from './gs1Label.js';
+import { LABEL_OUTPUT_KEYS, type LabelOutputKey } from './labelFormats.js';
+import type { ScanLabelFields } from './socket.js';
+
+export type OcrRegionKind = 'label' | 'lot' | 'expiry' | 'barcode';
+
+/** Position and size as fractions (0–1) of the camera frame; one region per kind */
+export type OcrRegion = { kind: OcrRegionKind; x: number; y: number; width: number; height: number };
+
+/** Stored with the scan: what each region read and which keys of the label it supplied */
+export type OcrRegionSummary = { kind: OcrRegionKind; text: string; keys: LabelOutputKey[] };
+
+export const OCR_REGION_KINDS: readonly OcrRegionKind[] = ['label', 'lot', 'expiry', 'barcode'];
+
+/** Keys each kind of region supplies */
+export const OCR_REGION_KEYS: Readonly<Record<OcrRegionKind, readonly LabelOutputKey[]>> = {
+  label: LABEL_OUTPUT_KEYS,
+  lot: ['batch_no', 'lot_no'],
+  expiry: ['expiry'],
+  barcode: LABEL_OUTPUT_KEYS,
+};
+
+/** Where a region is placed when it is added */
+export const OCR_REGION_DEFAULTS: Readonly<Record<OcrRegionKind, OcrRegion>> = {
+  label: { kind: 'label', x: 0.25, y: 0.4, width: 0.5, height: 0.2 },
+  lot: { kind: 'lot', x: 0.1, y: 0.25, width: 0.38, height: 0.14 },
+  expiry: { kind: 'expiry', x: 0.52, y: 0.25, width: 0.38, height: 0.14 },
+  barcode: { kind: 'barcode', x: 0.3, y: 0.55, width: 0.4, height: 0.25 },
+};
+
+export const DEFAULT_OCR_REGIONS: readonly OcrRegion[] = [OCR_REGION_DEFAULTS.label];
+
+/** Smallest region side, as a fraction of the frame */
+const MIN_REGION_SIZE = 0.05;
+
+/** Anchors tried in front of a region's text (e.g. a bare "20054138" in a lot region reads as "LOT 20054138") */
+const REGION_HINTS: Partial<Record<OcrRegionKind, string>> = { lot: 'LOT', expiry: 'EXP' };
+
+/** Kinds later in this list win a key both supply: a dedicated region over the barcode over the whole label */
+const REGION_PRIORITY: readonly OcrRegionKind[] = ['label', 'barcode', 'lot', 'expiry'];
+
+/** Keys taken together from one region, so batch and lot never come from different regions */
+const KEY_GROUPS: readonly (readonly LabelOutputKey[])[] = [['batch_no', 'lot_no'], ['expiry'], ['serial'], ['ref']];
+
+/** Label JSON keys only a barcode region fills */
+const GS1_ONLY_KEYS: ReadonlyArray<keyof ScanLabelFields> = [
+  'upc_gtin',
+  'production_date',
+  'quantity',
+  'additional_id',
+  'expiry_time',
+  'nhrn',
+  'validationErrors',
+];
+
+const EMPTY_LABEL: ScanLabelFields = { batch_no: '', lot_no: '', expiry: '' };
+
+/** Keep the region inside the frame and at least MIN_REGION_SIZE wide and high */
+export function clampOcrRegion(region: OcrRegion): OcrRegion {
+  const width = Math.min(1, Math.max(MIN_REGION_SIZE, region.width));
+  const height = Math.min(1, Math.max(MIN_REGION_SIZE, region.height));
+  return {
+    kind: region.kind,
+    x: Math.min(1 - width, Math.max(0, region.x)),
+    y: Math.min(1 - height, Math.max(0, region.y)),
+    width,
+    height,
+  };
+}
+
+/** `keys` of `source`, with their evidence and corrections */
+function pickKeys(source: ScanLabelFields, keys: readonly LabelOutputKey[]): ScanLabelFields {
+  const label: ScanLabelFields = { ...EMPTY_LABEL };
+  for (const key of keys) {
+    const value = source[key]?.trim();
+    if (!value) continue;
+    label[key] = value;
+    const evidence = source.confidence?.[key];
+    if (evidence) label.confidence = { ...label.confidence, [key]: evidence };
+  }
+  if (label.expiry && source.expiry_date) label.expiry_date = source.expiry_date;
+  const corrections = source.ocrCorrections?.filter((c) => keys.includes(c.key)) ?? [];
+  if (corrections.length) label.ocrCorrections = corrections;
+  return label;
+}
+
+/**
+ * Label fields from one region's text: a barcode region is parsed as GS1 (bracketed AIs in the printed text
+ * work too); other regions run `extract` (the label formats) and keep only their keys. Lot and expiry regions
+ * also try the text behind their anchor (LOT, EXP) and keep whichever reading is more confident.
+ */
+export function extractRegionLabel(kind: OcrRegionKind, text: string, extract: (text: string) => ScanLabelFields): ScanLabelFields {
+  if (kind === 'barcode') {
+    const gs1 = parseGs1ToLabelJson(text);
+    if (!gs1) return { ...EMPTY_LABEL };
+    const { elements: _elements, validationErrors, ...fields } = gs1;
+    return { ...fields, ...(validationErrors.length && { validationErrors }) };
+  }
+  const keys = OCR_REGION_KEYS[kind];
+  const hint = REGION_HINTS[kind];
+  const label = extract(text);
+  if (kind === 'label') return label;
+  if (!hint) return pickKeys(label, keys);
+  const hinted = extract(`${hint} ${text}`);
+  const score = (l: ScanLabelFields) => keys.reduce((sum, key) => sum + (l[key] ? (l.confidence?.[key]?.confidence ?? 0) : 0), 0);
+  return pickKeys(score(hinted) > score(label) ? hinted : label, keys);
+}
+
+/**
+ * One label from the regions' labels: each key comes from the highest-priority region that read it (a lot or
+ * expiry region, then the barcode, then the whole label); batch and lot come from the same region. Returns the
+ * label and the keys each region supplied.
+ */
+export function combineRegionLabels(readings: ReadonlyArray<{ kind: OcrRegionKind; label: ScanLabelFields }>): {
+  label: ScanLabelFields;
+  supplied: Map<OcrRegionKind, LabelOutputKey[]>;
+} {
+  const ordered = [...readings].sort((a, b) => REGION_PRIORITY.indexOf(b.kind) - REGION_PRIORITY.indexOf(a.kind));
+  const supplied = new Map<OcrRegionKind, LabelOutputKey[]>(readings.map((r) => [r.kind, []]));
+  const label: ScanLabelFields = { ...EMPTY_LABEL };
+  for (const group of KEY_GROUPS) {
+    const reading = ordered.find((r) => group.some((key) => OCR_REGION_KEYS[r.kind].includes(key) && r.label[key]?.trim()));
+    if (!reading) continue;
+    const picked = pickKeys(reading.label, group.filter((key) => OCR_REGION_KEYS[reading.kind].includes(key)));
+    for (const key of group) {
+      if (!picked[key]) continue;
+      label[key] = picked[key];
+      supplied.get(reading.kind)!.push(key);
+    }
+    if (picked.confidence) label.confidence = { ...label.confidence, ...picked.confidence };
+    if (picked.expiry_date) label.expiry_date = picked.expiry_date;
+    if (picked.ocrCorrections) label.ocrCorrections = [...(label.ocrCorrections ?? []), ...picked.ocrCorrections];
+  }
+  // GS1-only fields (GTIN, production date, …) and their validation come from the barcode
+  const barcode = readings.find((r) => r.kind === 'barcode')?.label;
+  for (const key of GS1_ONLY_KEYS) if (barcode?.[key]) Object.assign(label, { [key]: barcode[key] });
+  return { label, supplied };
+}
+
+/** e.g. 'lot: batch_no, lot_no · expiry: expiry · barcode: nothing read' */
+export function describeOcrRegions(regions: readonly OcrRegionSummary[]): string {
+  return regions
+    .map((r) => `${r.kind}: ${r.keys.length ? r.keys.join(', ') : r.text ? 'no fields used' : 'nothing read'}`)
+    .join(' · ');
+}
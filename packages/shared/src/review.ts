@@ -0,0 +1,138 @@
+/**
+ * Human review of extracted label fields. A correction keeps the value it replaced, who made it and when;
+ * dashboards can also approve a scan as checked. Scanners attach a review to the scan event when the operator
+ * corrected fields before sending; dashboards review stored scans with 'review-scan', and the server records
+ * the same ScanReview on the stored scan, broadcasts 'scan-reviewed' and keeps corrected OCR text as a
+ * labelled sample (GET /api/rooms/:sid/label-samples) for format tuning.
+ */
+import type { Socket } from 'socket.io-client';
+import { SOCKET_EVENTS } from './constants.js';
+import { normalizeExpiry, parseExpiry } from './expiry.js';
+import type { LabelFormatSample, LabelOutputKey } from './labelFormats.js';
+import type { ScanLabelFields } from './socket.js';
+
+/** Label fields a person can correct */
+export const REVIEWABLE_LABEL_KEYS: readonly LabelOutputKey[] = ['batch_no', 'lot_no', 'expiry', 'serial', 'ref'];
+
+/** A session's corrected OCR scans kept as labelled samples, newest first (owner key in X-Session-Key) */
+export function labelSamplesEndpoint(sid: string): string {
+  return `/api/rooms/${encodeURIComponent(sid)}/label-samples`;
+}
+
+export type LabelFieldCorrection = {
+  key: LabelOutputKey;
+  /** Value before the correction (empty when the field was missing) */
+  original: string;
+  value: string;
+  /** Device name on the scanner, reviewer name on the dashboard */
+  editor: string;
+  at: number;
+};
+
+export type ScanReview = {
+  /** Every correction, oldest first (a field corrected twice has two entries) */
+  corrections: LabelFieldCorrection[];
+  /** Set when a dashboard reviewer confirmed the fields; cleared by a later correction without approval */
+  approvedBy?: string;
+  approvedAt?: number;
+};
+
+/** Broadcast to the room after a review */
+export type ScanReviewedEvent = {
+  sid: string;
+  seq: number;
+  scanId: string;
+  label: ScanLabelFields;
+  review: ScanReview;
+};
+
+export type ReviewScanResult = { ok: true; label: ScanLabelFields; review: ScanReview } | { ok: false; error: string };
+
+/** Corrected OCR scan as stored by the server: the OCR text with the corrected fields as expected values */
+export type CorrectedLabelSample = LabelFormatSample & {
+  sid: string;
+  scanId: string;
+  /** Keys a person corrected (the other expected values were confirmed by leaving them) */
+  corrected: LabelOutputKey[];
+  editor: string;
+  at: number;
+};
+
+/**
+ * Corrections for edited fields whose value differs from the label. Edited expiries are normalized to
+ * YYYY-MM-DD / YYYY-MM when they parse.
+ */
+export function labelCorrections(
+  label: ScanLabelFields,
+  edited: Partial<Record<LabelOutputKey, string>>,
+  editor: string,
+  at: number = Date.now()
+): LabelFieldCorrection[] {
+  return REVIEWABLE_LABEL_KEYS.flatMap((key) => {
+    const input = edited[key];
+    if (input == null) return [];
+    const value = key === 'expiry' ? normalizeExpiry(input) : input.trim();
+    const original = label[key] ?? '';
+    return value === original ? [] : [{ key, original, value, editor, at }];
+  });
+}
+
+/**
+ * Label with corrections applied. A corrected field drops its extraction confidence (a person set it);
+ * a corrected expiry is parsed again.
+ */
+export function applyLabelCorrections(label: ScanLabelFields, corrections: LabelFieldCorrection[]): ScanLabelFields {
+  const next: ScanLabelFields = { ...label, ...(label.confidence && { confidence: { ...label.confidence } }) };
+  for (const { key, value } of corrections) {
+    next[key] = value;
+    delete next.confidence?.[key];
+    if (key === 'expiry') {
+      const parsed = parseExpiry(value);
+      if (parsed) next.expiry_date = parsed;
+      else delete next.expiry_date;
+    }
+  }
+  if (next.confidence && Object.keys(next.confidence).length === 0) delete next.confidence;
+  return next;
+}
+
+const REVIEW_TIMEOUT_MS = 10000;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Correct and/or approve a stored scan (dashboard). `fields` holds edited values (an edited expiry is normalized
+ * as in labelCorrections); the server compares them with the stored label, so only real changes are recorded.
+ */
+export async function reviewScan(
+  socket: Socket,
+  sid: string,
+  seq: number,
+  review: { fields: Partial<Record<LabelOutputKey, string>>; approve: boolean; editor: string }
+): Promise<ReviewScanResult> {
+  const { fields, approve, editor } = review;
+  const normalized = fields.expiry == null ? fields : { ...fields, expiry: normalizeExpiry(fields.expiry) };
+  try {
+    const response = (await socket
+      .timeout(REVIEW_TIMEOUT_MS)
+      .emitWithAck(SOCKET_EVENTS.REVIEW_SCAN, { sid, seq, fields: normalized, approve, editor })) as unknown;
+    if (isRecord(response) && response.ok === true && isRecord(response.label) && isRecord(response.review)) {
+      return { ok: true, label: response.label as ScanLabelFields, review: response.review as ScanReview };
+    }
+    return { ok: false, error: isRecord(response) && typeof response.error === 'string' ? response.error : 'invalid response' };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Subscribe to reviews of the room's stored scans (dashboard). Returns unsubscribe. */
+export function onScanReviewed(socket: Socket, handler: (event: ScanReviewedEvent) => void): () => void {
+  const listener = (payload: unknown) => {
+    if (!isRecord(payload) || typeof payload.seq !== 'number' || !isRecord(payload.label) || !isRecord(payload.review)) return;
+    handler(payload as ScanReviewedEvent);
+  };
+  socket.on(SOCKET_EVENTS.SCAN_REVIEWED, listener);
+  return () => socket.off(SOCKET_EVENTS.SCAN_REVIEWED, listener);
+}
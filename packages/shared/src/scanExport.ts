@@ -0,0 +1,133 @@
+/**
+ * Scan export: every scan flattened to one row of normalized fields (GTIN, batch, lot, expiry, serial, ref)
+ * plus raw text, source, device and time, written as CSV, NDJSON or XLSX.
+ * Used by the dashboard, and by the socket server (loaded with jiti) for GET /api/rooms/:sid/export.
+ */
+import type { ReceivedScanEvent } from './socket.js';
+import { createXlsx } from './xlsx.js';
+
+export type ScanExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+export const SCAN_EXPORT_FORMATS: ScanExportFormat[] = ['csv', 'ndjson', 'xlsx'];
+
+export const SCAN_EXPORT_COLUMNS = [
+  'gtin',
+  'batch',
+  'lot',
+  'expiry',
+  'serial',
+  'ref',
+  'raw',
+  'source',
+  'device',
+  'timestamp',
+] as const;
+
+export type ScanExportColumn = (typeof SCAN_EXPORT_COLUMNS)[number];
+
+/** One exported scan; empty string when the scan has no value for a field */
+export type ScanExportRow = Record<ScanExportColumn, string>;
+
+export const SCAN_EXPORT_MIME_TYPES: Record<ScanExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** Subset of a session to export; all criteria are optional and combined with AND */
+export type ScanExportFilter = {
+  deviceId?: string;
+  /** Received at or after (ms) */
+  from?: number;
+  /** Received before (ms) */
+  to?: number;
+  /** Case-insensitive match against any exported field */
+  query?: string;
+};
+
+function scanTime(event: ReceivedScanEvent): number {
+  return event.receivedAt ?? event.timestamp;
+}
+
+/**
+ * Normalized fields of a scan: GS1 AIs for gs1 scans, label fields for OCR / label capture, GTIN-like barcodes.
+ * Every column is coerced to a string, since stored scans from older servers were not validated.
+ */
+export function toScanExportRow(event: ReceivedScanEvent): ScanExportRow {
+  const time = scanTime(event);
+  const row: ScanExportRow = {
+    gtin: '',
+    batch: '',
+    lot: '',
+    expiry: '',
+    serial: '',
+    ref: '',
+    raw: event.raw ?? (event.kind === 'ocr-text' ? event.text : 'value' in event ? event.value : ''),
+    source: event.source,
+    device: event.deviceName || event.deviceId,
+    timestamp: Number.isFinite(time) ? new Date(time).toISOString() : '',
+  };
+  if (event.kind === 'gs1') {
+    const byAi = new Map(event.elements.map((el) => [el.ai, el]));
+    row.gtin = byAi.get('01')?.value ?? byAi.get('02')?.value ?? '';
+    // (10) is "batch or lot": fill both so either column can be used for reconciliation
+    row.batch = byAi.get('10')?.value ?? '';
+    row.lot = row.batch;
+    row.expiry = byAi.get('17')?.date ?? byAi.get('17')?.value ?? '';
+    row.serial = byAi.get('21')?.value ?? '';
+    row.ref = byAi.get('240')?.value ?? '';
+  } else if (event.kind === 'barcode') {
+    if (/^\d{8}$|^\d{12,14}$/.test(event.value)) row.gtin = event.value;
+  } else if (event.label) {
+    const label = event.label;
+    row.gtin = label.upc_gtin ?? '';
+    row.batch = label.batch_no;
+    row.lot = label.lot_no;
+    row.expiry = label.expiry;
+    row.serial = label.serial ?? '';
+    row.ref = label.ref ?? '';
+  }
+  return Object.fromEntries(SCAN_EXPORT_COLUMNS.map((c) => [c, String(row[c] ?? '')])) as ScanExportRow;
+}
+
+export function filterScans<T extends ReceivedScanEvent>(scans: T[], filter: ScanExportFilter = {}): T[] {
+  const query = filter.query?.trim().toLowerCase();
+  return scans.filter((event) => {
+    const time = scanTime(event);
+    if (filter.deviceId && event.deviceId !== filter.deviceId) return false;
+    if (filter.from != null && time < filter.from) return false;
+    if (filter.to != null && time >= filter.to) return false;
+    if (query) {
+      const row = toScanExportRow(event);
+      if (!SCAN_EXPORT_COLUMNS.some((c) => row[c].toLowerCase().includes(query))) return false;
+    }
+    return true;
+  });
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** CSV with a header row (RFC 4180 quoting, CRLF line endings) */
+export function scansToCsv(rows: ScanExportRow[]): string {
+  const lines = [SCAN_EXPORT_COLUMNS.join(','), ...rows.map((row) => SCAN_EXPORT_COLUMNS.map((c) => csvCell(row[c])).join(','))];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/** One JSON object per line */
+export function scansToNdjson(rows: ScanExportRow[]): string {
+  return rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+}
+
+export function scansToXlsx(rows: ScanExportRow[], sheetName = 'Scans'): Uint8Array<ArrayBuffer> {
+  return createXlsx(sheetName, [[...SCAN_EXPORT_COLUMNS], ...rows.map((row) => SCAN_EXPORT_COLUMNS.map((c) => row[c]))]);
+}
+
+/** Export scans (oldest first) in the given format */
+export function exportScans(scans: ReceivedScanEvent[], format: ScanExportFormat): string | Uint8Array<ArrayBuffer> {
+  const rows = [...scans].sort((a, b) => scanTime(a) - scanTime(b)).map(toScanExportRow);
+  if (format === 'csv') return scansToCsv(rows);
+  if (format === 'ndjson') return scansToNdjson(rows);
+  return scansToXlsx(rows);
+}
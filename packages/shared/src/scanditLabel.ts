@@ -0,0 +1,327 @@
+/**
+ * Maps Scandit Smart Label Capture fields to the same shape as Tesseract/OCR workflow:
+ * { batch_no, lot_no, expiry } for publishing to the dashboard.
+ * When Barcode field contains GS1 DataMatrix, parses it to fill batch_no, lot_no, expiry.
+ * Mapping is driven by the custom-text fields of the label formats (scanditFieldDefinitions, outputKeys per field).
+ */
+
+import { expiryFromParts, formatExpiry, isLikelyYymmdd, parseExpiry, type ExpiryDate } from './expiry.js';
+import { parseGs1ToLabelJson } from './gs1Label.js';
+import { validateGtin, type Gs1ValidationError } from './gs1Validate.js';
+import { matchLabelField } from './labelExtract.js';
+import {
+  DEFAULT_LABEL_FORMATS,
+  type LabelExpiryOrder,
+  type LabelFieldDefinition,
+  type LabelFormatDefinition,
+  type LabelOutputKey,
+} from './labelFormats.js';
+import { correctOcrValue, type LabelOcrCorrection } from './ocrCorrect.js';
+
+export type ScanditFieldDefinition = {
+  /** Unique field name used by Scandit and in mapping */
+  scanditFieldName: string;
+  /** Anchor regex(es); empty array = no anchor (standalone value). Use string form for regex. */
+  anchorRegexes: string[];
+  /** Value regex(es) that the field value must match (one of). */
+  valueRegexes: string[];
+  optional: boolean;
+  /** Which output keys this field fills (e.g. Batch/Lot fills both batch_no and lot_no). */
+  outputKeys: LabelOutputKey[];
+  /** How N/N/YYYY expiry values are read */
+  expiryFormat?: LabelExpiryOrder;
+  /** Character-class templates for correcting misread characters (see LabelFieldDefinition) */
+  charTemplates?: string[];
+};
+
+/**
+ * All custom-text field definitions used to build the single Scandit label: the Scandit fields of every
+ * format, once per name (validateLabelFormats rejects different fields with the same name).
+ * Anchored fields come before unanchored ones so Scandit matches labeled lines first.
+ */
+export function scanditFieldDefinitions(formats: LabelFormatDefinition[] = DEFAULT_LABEL_FORMATS): ScanditFieldDefinition[] {
+  const byName = new Map<string, ScanditFieldDefinition>();
+  for (const format of formats) {
+    for (const field of format.fields) {
+      if (!field.engines.includes('scandit') || byName.has(field.name)) continue;
+      byName.set(field.name, {
+        scanditFieldName: field.name,
+        anchorRegexes: field.anchors,
+        valueRegexes: field.values,
+        optional: field.optional,
+        outputKeys: field.outputKeys,
+        ...(field.expiryFormat && { expiryFormat: field.expiryFormat }),
+        ...(field.charTemplates && { charTemplates: field.charTemplates }),
+      });
+    }
+  }
+  const defs = [...byName.values()];
+  return [...defs.filter((d) => d.anchorRegexes.length > 0), ...defs.filter((d) => d.anchorRegexes.length === 0)];
+}
+
+export type LabelJson = {
+  batch_no: string;
+  lot_no: string;
+  /** YYYY-MM-DD, or YYYY-MM when the label has no day */
+  expiry: string;
+  /** Parsed expiry (source format, ambiguity) when the label's expiry could be read */
+  expiry_date?: ExpiryDate;
+  /** UPC/GTIN from scanned barcode (e.g. UPC-A 12 digits) when present */
+  upc_gtin?: string;
+  /** Serial number from GS1 AI (21) when present */
+  serial?: string;
+  /** Reference number (e.g. REF 456085) or short barcode when GS1 also present */
+  ref?: string;
+  /** GS1 (11) production date when present */
+  production_date?: string;
+  /** GS1 (30)/(37) quantity when present */
+  quantity?: string;
+  /** GS1 (240) additional product identification when present */
+  additional_id?: string;
+  /** GS1 (7003) expiration date and time when present */
+  expiry_time?: string;
+  /** GS1 NHRN (710–716) when present */
+  nhrn?: string;
+  /** GTIN check-digit / GS1 date problems found in the barcode; absent when all fields are valid */
+  validationErrors?: Gs1ValidationError[];
+  /** Misread characters corrected to fit a field's character templates */
+  ocrCorrections?: LabelOcrCorrection[];
+};
+
+export type ScanditField = {
+  name: string;
+  value: string;
+};
+
+/** Obvious OCR misreads for Product code (e.g. "Lot" → "L0T", "Layout" → "Lay0ut"). */
+function isProductCodeMisread(value: string): boolean {
+  const s = value.trim();
+  if (s.length <= 3) return true; // B0Z7 is 4; L0T, LOT, Exp are 3 or less
+  const u = s.toUpperCase();
+  if (/^L0?T$/.test(u) || /^EXP?$/.test(u) || /^E1P$/.test(u) || u === 'LOT') return true;
+  // Common word-with-digit OCR noise (e.g. Layout → Lay0ut)
+  if (/^LAY0?UT$/.test(u) || u === 'LAYOUT') return true;
+  return false;
+}
+
+/** Set expiry (ISO) and expiry_date from the shared parser; text that is not a date is kept as read */
+function setExpiry(labelJson: LabelJson, value: string, parsed: ExpiryDate | null = parseExpiry(value)): void {
+  labelJson.expiry = parsed ? formatExpiry(parsed) : value.trim();
+  if (parsed) labelJson.expiry_date = parsed;
+  else delete labelJson.expiry_date;
+}
+
+/** Try to parse lot number and expiry from raw text when fields are missing. */
+function parseLotAndExpiryFromRaw(raw: string): { lot_no: string; expiry: string } {
+  // expiry is returned as found on the label; the caller parses it
+  let lot_no = '';
+  let expiry = '';
+  const lotMatch = raw.match(/(?:Lot\s*(?:No\.?|Number|#)?\s*:?|LOT\s*NO\.?\s*:?|LOT\s*NUMBER\s*:?|LOT\s+)\s*([0-9A-Za-z]{4,15})/i);
+  if (lotMatch) lot_no = lotMatch[1].trim();
+  if (!lot_no) {
+    const standAlone6 = raw.match(/\b(\d{6})\b/);
+    if (standAlone6) lot_no = standAlone6[1];
+  }
+  const expiryMatch = raw.match(/(?:Exp\.?|Expiry|Expiration(?:\s*DATE)?|Use\s*[- ]?By|EXP\s+)\s*:?\s*(\d{4}-\d{2}(-\d{2})?|\d{4}\/\d{1,2}(?:\/\d{2,4})?|\d{4}-(?:JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)|(?:JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)\s+\d{4}|(?:JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)\d{4}|\d{1,2}\/\d{1,2}\/\d{4}|\d{1,2}-\d{1,2}-\d{4})/i);
+  if (expiryMatch) expiry = expiryMatch[1];
+  if (!expiry) {
+    const yyyyMmm = raw.match(/\b(\d{4}-(?:JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC))\b/i);
+    if (yyyyMmm) expiry = yyyyMmm[1];
+  }
+  if (!expiry) {
+    const expMmmYyyy = raw.match(/\b(EXP\s+)?(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)\s+(\d{4})\b/i);
+    if (expMmmYyyy) expiry = `${expMmmYyyy[2]} ${expMmmYyyy[3]}`;
+  }
+  if (!expiry) {
+    const expMmmYyyyNoSpace = raw.match(/\bEXP\s+(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)(\d{4})\b/i);
+    if (expMmmYyyyNoSpace) expiry = `${expMmmYyyyNoSpace[1]}${expMmmYyyyNoSpace[2]}`;
+  }
+  if (!expiry) {
+    const expMmYy = raw.match(/\bEXP\s*(\d{1,2}\/\d{2})\b/i);
+    if (expMmYy) expiry = expMmYy[1];
+  }
+  return { lot_no, expiry };
+}
+
+const SERIAL_FROM_RAW_REGEX = new RegExp(
+  '(?:Serial\\s*(?:No\\.?|Number|#)?\\s*:?|SN\\s*:?|S/N\\s*:?)\\s*([A-Za-z0-9]{8,20})',
+  'i'
+);
+
+/** Try to parse serial number from raw text when field is missing. */
+function parseSerialFromRaw(raw: string): string {
+  const m = raw.match(SERIAL_FROM_RAW_REGEX);
+  return m ? m[1].trim() : '';
+}
+
+/**
+ * Build label JSON and raw string from Scandit label fields (name + value pairs).
+ * If "Barcode" field contains GS1 DataMatrix, parses it and merges into labelJson.
+ * Filters out Product code misreads (e.g. L0T from "Lot") from output and batch_no.
+ */
+export function scanditFieldsToLabelJson(
+  fields: ScanditField[],
+  /** Expiries already parsed from SDK date fields (day/month/year parts) */
+  dates: Map<ScanditField, ExpiryDate> = new Map(),
+  /** Custom-text fields of the label definition the fields were captured with */
+  fieldDefinitions: ScanditFieldDefinition[] = scanditFieldDefinitions()
+): {
+  labelJson: LabelJson;
+  raw: string;
+} {
+  const labelJson: LabelJson = { batch_no: '', lot_no: '', expiry: '' };
+  const lines: string[] = [];
+  const barcodeValues: string[] = [];
+  const definitions = new Map(fieldDefinitions.map((def) => [def.scanditFieldName, def]));
+
+  for (const f of fields) {
+    const v = (f.value ?? '').trim();
+    const isMisread = f.name === 'Product code' && isProductCodeMisread(v);
+    if (!isMisread) lines.push(`${f.name}: ${f.value ?? ''}`);
+
+    if (f.name === 'Barcode') {
+      barcodeValues.push(v);
+      continue;
+    }
+
+    const def = definitions.get(f.name);
+    if (def) {
+      const { outputKeys } = def;
+      if (f.name === 'Product code' && isProductCodeMisread(v)) continue;
+      // Standalone 6-digit batch/lot: if it looks like YYMMDD (e.g. 261201), set expiry only
+      if (
+        def.anchorRegexes.length === 0 &&
+        (outputKeys.includes('batch_no') || outputKeys.includes('lot_no')) &&
+        isLikelyYymmdd(v)
+      ) {
+        setExpiry(labelJson, v);
+        continue;
+      }
+      const { value: corrected, correction } = correctOcrValue(v, def.charTemplates);
+      for (const key of outputKeys) {
+        if (key === 'batch_no') labelJson.batch_no = corrected;
+        if (key === 'lot_no') labelJson.lot_no = corrected;
+        if (key === 'expiry') setExpiry(labelJson, v, dates.get(f) ?? parseExpiry(v, { dayFirst: def.expiryFormat === 'DMY' }));
+        if (key === 'serial') labelJson.serial = corrected;
+        if (key === 'ref') labelJson.ref = corrected;
+        if (correction && key !== 'expiry')
+          labelJson.ocrCorrections = [...(labelJson.ocrCorrections ?? []), { key, field: f.name, ...correction }];
+      }
+      continue;
+    }
+
+    // Built-in Scandit fields not in registry
+    if (f.name === 'Expiry Date') setExpiry(labelJson, v, dates.get(f) ?? parseExpiry(v));
+  }
+
+  // Prefer long GS1 barcode for parsing; treat short numeric-only barcode as ref (e.g. 456085)
+  const longGs1 = barcodeValues.find((val) => val.replace(/\s/g, '').length >= 20 && /01\d{14}/.test(val.replace(/\s/g, '')));
+  const barcodeValue = longGs1 ?? (barcodeValues.length ? barcodeValues.reduce((a, b) => (a.length >= b.length ? a : b)) : '');
+  const shortBarcode = barcodeValues.find((val) => /^\d{5,7}$/.test(val.replace(/\s/g, '')));
+  if (!labelJson.ref && shortBarcode && longGs1) {
+    labelJson.ref = shortBarcode.trim();
+  }
+  // GS1 barcode: try parse for any length (e.g. (01)10080196743940 or longer multi-AI strings)
+  if (barcodeValue.length >= 14) {
+    const gs1 = parseGs1ToLabelJson(barcodeValue);
+    if (gs1) {
+      // Prefer GS1 over OCR so lot is MK8701 from (10), not PAA221 from second Product code
+      if (gs1.batch_no) labelJson.batch_no = gs1.batch_no;
+      if (gs1.lot_no) labelJson.lot_no = gs1.lot_no;
+      if (gs1.expiry) setExpiry(labelJson, gs1.expiry, gs1.expiry_date);
+      if (gs1.upc_gtin) labelJson.upc_gtin = gs1.upc_gtin;
+      if (gs1.serial) labelJson.serial = gs1.serial;
+      if (gs1.production_date) labelJson.production_date = gs1.production_date;
+      if (gs1.quantity) labelJson.quantity = gs1.quantity;
+      if (gs1.additional_id) labelJson.additional_id = gs1.additional_id;
+      if (gs1.expiry_time) labelJson.expiry_time = gs1.expiry_time;
+      if (gs1.nhrn) labelJson.nhrn = gs1.nhrn;
+      if (gs1.validationErrors.length) labelJson.validationErrors = gs1.validationErrors;
+    }
+  }
+  // Barcode → upc_gtin: (01)GTIN format, or plain 6–14 digit numeric
+  if (!labelJson.upc_gtin && barcodeValue) {
+    const trimmed = barcodeValue.trim();
+    const gtinFromAi = trimmed.match(/^\(?01\)?\s*(\d{13,14})$/);
+    if (gtinFromAi) {
+      labelJson.upc_gtin = gtinFromAi[1];
+    } else {
+      const digits = barcodeValue.replace(/\s/g, '');
+      if (/^\d{6,14}$/.test(digits)) labelJson.upc_gtin = digits;
+    }
+    const gtinError = labelJson.upc_gtin ? validateGtin(labelJson.upc_gtin) : null;
+    if (gtinError) labelJson.validationErrors = [{ ...gtinError, ai: gtinFromAi ? '01' : '' }];
+  }
+
+  let raw = lines.join('\n');
+  if (labelJson.serial) raw = raw ? `${raw}\nSerial: ${labelJson.serial}` : `Serial: ${labelJson.serial}`;
+  // If Scandit only returned Product code, try to parse lot/expiry/serial from raw (e.g. from other captured lines)
+  if (!labelJson.lot_no || !labelJson.expiry) {
+    const parsed = parseLotAndExpiryFromRaw(raw);
+    if (!labelJson.lot_no && parsed.lot_no) labelJson.lot_no = parsed.lot_no;
+    if (!labelJson.expiry && parsed.expiry) setExpiry(labelJson, parsed.expiry);
+  }
+  if (!labelJson.serial) {
+    const serialFromRaw = parseSerialFromRaw(raw);
+    if (serialFromRaw) labelJson.serial = serialFromRaw;
+  }
+
+  // Barcode value must not appear as batch_no or lot_no (clear after fallback so it stays cleared)
+  if (labelJson.upc_gtin) {
+    if (labelJson.batch_no === labelJson.upc_gtin) labelJson.batch_no = '';
+    if (labelJson.lot_no === labelJson.upc_gtin) labelJson.lot_no = '';
+  }
+  if (labelJson.ref) {
+    if (labelJson.batch_no === labelJson.ref) labelJson.batch_no = '';
+    if (labelJson.lot_no === labelJson.ref) labelJson.lot_no = '';
+  }
+
+  return { labelJson, raw };
+}
+
+/**
+ * Convert Scandit LabelField-like objects (with type, text, date, barcode) into
+ * the same label JSON format. Used when we have raw SDK field objects.
+ */
+export function scanditLabelFieldsToLabelJson(
+  fields: Array<{
+    name: string;
+    text?: string | null;
+    date?: { day: number | null; month: number | null; year: number | null } | null;
+    barcode?: { data?: string } | null;
+  }>,
+  fieldDefinitions: ScanditFieldDefinition[] = scanditFieldDefinitions()
+): { labelJson: LabelJson; raw: string } {
+  const dates = new Map<ScanditField, ExpiryDate>();
+  const pairs: ScanditField[] = fields.map((field) => {
+    if (field.date != null) {
+      const expiry = expiryFromParts(field.date.day, field.date.month, field.date.year);
+      // Year-only dates are passed through as text
+      const pair = { name: field.name, value: expiry ? formatExpiry(expiry) : String(field.date.year ?? '') };
+      if (expiry) dates.set(pair, expiry);
+      return pair;
+    }
+    return { name: field.name, value: field.barcode?.data ?? field.text ?? '' };
+  });
+  return scanditFieldsToLabelJson(pairs, dates, fieldDefinitions);
+}
+
+/**
+ * Approximate what Smart Label Capture would return for a label with this text: each custom-text field's first
+ * match (anchor, then value). Used to test label formats without a camera; the SDK's own matching may differ.
+ */
+export function simulateScanditFields(text: string, fieldDefinitions: ScanditFieldDefinition[]): ScanditField[] {
+  const t = text.replace(/\s+/g, ' ').trim();
+  return fieldDefinitions.flatMap((def) => {
+    const field: LabelFieldDefinition = {
+      name: def.scanditFieldName,
+      anchors: def.anchorRegexes,
+      values: def.valueRegexes,
+      outputKeys: def.outputKeys,
+      optional: def.optional,
+      engines: ['scandit'],
+    };
+    const value = matchLabelField(field, t);
+    return value ? [{ name: def.scanditFieldName, value }] : [];
+  });
+}
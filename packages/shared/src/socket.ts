@@ -1,6 +1,21 @@
 import { io, type Socket } from 'socket.io-client';
+import { isOcrProviderName, type OcrProviderName } from './commands.js';
 import { SOCKET_EVENTS } from './constants.js';
+import type { ExpiryDate } from './expiry.js';
+import type { Gs1Element } from './gs1.js';
+import type { Gs1ValidationError } from './gs1Validate.js';
+import type { OcrDecision } from './hybridOcr.js';
+import type { OcrConsensusSummary } from './ocrConsensus.js';
+import type { OcrPreprocessSummary } from './ocrPreprocess.js';
+import type { OcrRegionSummary } from './ocrRegions.js';
+import type { LabelFieldConfidence } from './labelExtract.js';
+import type { LabelOcrCorrection } from './ocrCorrect.js';
+import type { ScanReview } from './review.js';
 
+/**
+ * Legacy (v1) scan payload: label results are JSON.stringify'd into `value`.
+ * @deprecated Send a ScanEvent instead; v1 payloads are upgraded with scanEventFromLegacy.
+ */
 export type ScanPayload = {
   type: 'barcode' | 'ocr';
   value: string;
@@ -8,12 +23,201 @@ export type ScanPayload = {
   timestamp?: number;
 };
 
+/** Current scan event schema version */
+export const SCAN_EVENT_VERSION = 2 as const;
+
+/** Engine that produced the scan: a barcode reader, Scandit, an OCR provider, or 'unknown' for upgraded v1 payloads */
+export type ScanSourceEngine = 'html5-qrcode' | 'scandit' | 'unknown' | OcrProviderName;
+
+/** Sources that are not OCR providers; any well-formed OCR provider name is accepted too */
+const NON_OCR_SOURCE_ENGINES: readonly ScanSourceEngine[] = ['html5-qrcode', 'scandit', 'unknown'];
+
+/** Label fields extracted by OCR or Scandit Label Capture (same keys as the label JSON) */
+export type ScanLabelFields = {
+  batch_no: string;
+  lot_no: string;
+  /** YYYY-MM-DD, or YYYY-MM when the label has no day; raw text when it could not be parsed */
+  expiry: string;
+  /** Parsed expiry with source format and day/month ambiguity, when the producer could parse it */
+  expiry_date?: ExpiryDate;
+  upc_gtin?: string;
+  serial?: string;
+  ref?: string;
+  production_date?: string;
+  quantity?: string;
+  additional_id?: string;
+  expiry_time?: string;
+  nhrn?: string;
+  validationErrors?: Gs1ValidationError[];
+  /** Per-field confidence, format and matched text from OCR extraction (see extractLabelFromOcr) */
+  confidence?: LabelFieldConfidence;
+  /** Misread characters corrected to fit a label format's character templates */
+  ocrCorrections?: LabelOcrCorrection[];
+};
+
+type ScanEventBase = {
+  version: typeof SCAN_EVENT_VERSION;
+  source: ScanSourceEngine;
+  /** Stable ID of the scanning device (mobile-scanner instance) */
+  deviceId: string;
+  timestamp: number;
+  /** Unprocessed engine output, kept for display and re-parsing */
+  raw?: string;
+  /** Client-generated unique key; the server stores an event once per key and drops replays (retries) */
+  idempotencyKey?: string;
+  /** Fields corrected by a person (on the scanner before sending, or later on a dashboard) and approval */
+  review?: ScanReview;
+};
+
+/** Plain barcode / QR (UPC, EAN, Code 128 without GS1 AIs, URLs, …) */
+export type BarcodeScanEvent = ScanEventBase & {
+  kind: 'barcode';
+  value: string;
+  /** Symbology name as reported by the engine, e.g. "EAN_13", "QR_CODE" */
+  symbology?: string;
+};
+
+/** GS1 element string (DataMatrix, GS1-128, …) with its AIs already parsed */
+export type Gs1ScanEvent = ScanEventBase & {
+  kind: 'gs1';
+  value: string;
+  symbology?: string;
+  elements: Gs1Element[];
+};
+
+/** OCR text from Tesseract / Vision / Paddle, with label fields when the format registry found any */
+export type OcrTextScanEvent = ScanEventBase & {
+  kind: 'ocr-text';
+  text: string;
+  label?: ScanLabelFields;
+  /** Hybrid OCR: engines tried, why it escalated and how fields were voted (source 'hybrid') */
+  ocrDecision?: OcrDecision;
+  /** Continuous OCR: frames sampled and how many agreed per key */
+  consensus?: OcrConsensusSummary;
+  /** Image pre-processing applied to the frame the text was read from (its first OCR'd region) */
+  preprocess?: OcrPreprocessSummary;
+  /** Capture regions read separately (lot, expiry, barcode) and combined into `label`; absent for one frame */
+  regions?: OcrRegionSummary[];
+};
+
+/** Scandit Smart Label Capture result */
+export type LabelCaptureScanEvent = ScanEventBase & {
+  kind: 'label';
+  label: ScanLabelFields;
+  /** Captured label fields (name/value) as returned by the SDK */
+  fields?: Array<{ name: string; value: string }>;
+};
+
+/** Versioned scan event sent by the mobile scanner and broadcast to the dashboard */
+export type ScanEvent = BarcodeScanEvent | Gs1ScanEvent | OcrTextScanEvent | LabelCaptureScanEvent;
+
+export type ScanEventKind = ScanEvent['kind'];
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** ScanEvent without the envelope fields filled in by the sender (version, deviceId, timestamp) */
+export type ScanEventInit = DistributiveOmit<ScanEvent, 'version' | 'deviceId' | 'timestamp'> & {
+  timestamp?: number;
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isLabelFields(v: unknown): v is ScanLabelFields {
+  return (
+    isRecord(v) &&
+    typeof v.batch_no === 'string' &&
+    typeof v.lot_no === 'string' &&
+    typeof v.expiry === 'string'
+  );
+}
+
+/**
+ * Check a value against the ScanEvent v2 schema.
+ * Returns a reason string when invalid, or null when valid.
+ */
+export function scanEventError(v: unknown): string | null {
+  if (!isRecord(v)) return 'scan event must be an object';
+  if (v.version !== SCAN_EVENT_VERSION) return `unsupported scan event version: ${String(v.version)}`;
+  if (typeof v.deviceId !== 'string') return 'deviceId must be a string';
+  if (typeof v.timestamp !== 'number' || !Number.isFinite(v.timestamp)) return 'timestamp must be a number';
+  if (!NON_OCR_SOURCE_ENGINES.includes(v.source as ScanSourceEngine) && !isOcrProviderName(v.source))
+    return `unknown source: ${String(v.source)}`;
+  if (v.raw !== undefined && typeof v.raw !== 'string') return 'raw must be a string';
+  if (v.idempotencyKey !== undefined && typeof v.idempotencyKey !== 'string') return 'idempotencyKey must be a string';
+  switch (v.kind) {
+    case 'barcode':
+      if (typeof v.value !== 'string' || !v.value) return 'barcode value must be a non-empty string';
+      return null;
+    case 'gs1':
+      if (typeof v.value !== 'string' || !v.value) return 'gs1 value must be a non-empty string';
+      if (!Array.isArray(v.elements)) return 'gs1 elements must be an array';
+      return null;
+    case 'ocr-text':
+      if (typeof v.text !== 'string') return 'ocr-text text must be a string';
+      if (v.label !== undefined && !isLabelFields(v.label)) return 'ocr-text label must have batch_no, lot_no, expiry';
+      return null;
+    case 'label':
+      if (!isLabelFields(v.label)) return 'label must have batch_no, lot_no, expiry';
+      return null;
+    default:
+      return `unknown scan event kind: ${String(v.kind)}`;
+  }
+}
+
+export function isScanEvent(v: unknown): v is ScanEvent {
+  return scanEventError(v) === null;
+}
+
+function isLegacyScanPayload(v: unknown): v is ScanPayload {
+  return isRecord(v) && v.version === undefined && (v.type === 'barcode' || v.type === 'ocr') && typeof v.value === 'string';
+}
+
+/**
+ * Upgrade a v1 ScanPayload to a ScanEvent. OCR payloads whose value is label JSON keep it as `label`.
+ * The source engine and device are not known for v1 payloads.
+ */
+export function scanEventFromLegacy(payload: ScanPayload, deviceId = 'unknown'): ScanEvent {
+  const base = {
+    version: SCAN_EVENT_VERSION,
+    source: 'unknown' as const,
+    deviceId,
+    timestamp: payload.timestamp ?? Date.now(),
+    ...(payload.raw !== undefined && { raw: payload.raw }),
+  };
+  if (payload.type === 'barcode') return { ...base, kind: 'barcode', value: payload.value };
+  let label: ScanLabelFields | undefined;
+  try {
+    const parsed = JSON.parse(payload.value) as unknown;
+    if (isLabelFields(parsed)) label = parsed;
+  } catch {
+    /* value is plain text, not JSON */
+  }
+  return {
+    ...base,
+    kind: 'ocr-text',
+    text: label ? payload.raw ?? '' : payload.value,
+    ...(label && { label }),
+  };
+}
+
+/** Accept a v2 ScanEvent or a v1 ScanPayload; returns null when neither. */
+export function toScanEvent(v: unknown): ScanEvent | null {
+  if (isScanEvent(v)) return v;
+  if (isLegacyScanPayload(v)) return scanEventFromLegacy(v);
+  return null;
+}
+
 /** Default Socket.io server URL (packages/socket-server, port 4001) */
 const defaultWsUrl =
   typeof window !== 'undefined'
     ? `${window.location.protocol}//${window.location.hostname}:4001`
     : 'http://localhost:4001';
 
+/** How long request/ack calls (join, send, history, sessions, pairing) wait for the server */
+const ACK_TIMEOUT_MS = 10000;
+
 /**
  * Create a Socket.io client connected to the socket server (packages/socket-server).
  * @param baseUrl - Socket server URL (default http://localhost:4001)
@@ -25,29 +229,321 @@ export function createSocketClient(baseUrl: string = defaultWsUrl): Socket {
   });
 }
 
+/** Which app joined a session room */
+export type SessionRole = 'dashboard' | 'scanner';
+
+/** Session (room) as tracked by the socket server */
+export type SessionInfo = {
+  sid: string;
+  /** Display name given by the dashboard that created the session */
+  name?: string;
+  createdAt: number;
+  lastActiveAt: number;
+  /** Currently connected sockets per role */
+  dashboards: number;
+  scanners: number;
+  /** Scanners paired with the session (can be revoked by the dashboard) */
+  devices: PairedDevice[];
+};
+
+/** Battery as reported by the scanner's browser (Battery Status API), level 0–1 */
+export type DeviceBattery = { level: number; charging: boolean };
+
+export type PairedDevice = {
+  deviceId: string;
+  /** Friendly name registered by the scanner, e.g. "Ward 3 phone" */
+  name?: string;
+  pairedAt: number;
+  lastSeenAt: number;
+  connected: boolean;
+  battery?: DeviceBattery;
+};
+
+/** Presence update for a scanner in a room (server → dashboards) */
+export type DevicePresence = {
+  sid: string;
+  deviceId: string;
+  name?: string;
+  status: 'joined' | 'left' | 'last-seen';
+  /** True while any connection of the device is in the room */
+  online: boolean;
+  lastSeenAt: number;
+  battery?: DeviceBattery;
+};
+
+/** Owner key the dashboard received when it created a session; proves ownership on rejoin */
+export type SessionCredential = { sid: string; key: string };
+
+export type JoinRoomOptions = {
+  role?: SessionRole;
+  /** Session display name (dashboard only) */
+  name?: string;
+  /** Pairing token from the dashboard QR (scanner's first join) */
+  token?: string;
+  /** Key issued by an earlier successful join: owner key (dashboard) or device key (scanner) */
+  key?: string;
+  /** Stable scanner device ID (scanner only) */
+  deviceId?: string;
+  /** Friendly scanner name shown on the dashboard (scanner only) */
+  deviceName?: string;
+};
+
 /**
- * Join a room by session id (used by mobile scanner).
+ * join-room result; `key` is set when the server issued a new key, which the client must store.
+ * `rejected` is true when the server refused the join (unknown or revoked device, bad token); false when it did
+ * not answer (not connected, timeout), so the same credentials are worth retrying.
  */
-export function joinRoom(socket: Socket, sid: string): void {
-  socket.emit(SOCKET_EVENTS.JOIN_ROOM, { sid });
+export type JoinRoomResult =
+  | { ok: true; role: SessionRole; key?: string }
+  | { ok: false; error: string; rejected: boolean };
+
+/**
+ * Join a room by session id (dashboard and mobile scanner).
+ * Dashboards join with the session owner key (a new session issues one); scanners need a pairing token
+ * or their device key. Call again after every reconnect: the server forgets membership when the socket drops.
+ */
+export async function joinRoom(socket: Socket, sid: string, options: JoinRoomOptions = {}): Promise<JoinRoomResult> {
+  if (!socket.connected) return { ok: false, error: 'not connected', rejected: false };
+  try {
+    const response = (await socket
+      .timeout(ACK_TIMEOUT_MS)
+      .emitWithAck(SOCKET_EVENTS.JOIN_ROOM, { sid, ...options })) as unknown;
+    if (isRecord(response) && response.ok === true) {
+      return {
+        ok: true,
+        role: response.role === 'dashboard' ? 'dashboard' : 'scanner',
+        ...(typeof response.key === 'string' && { key: response.key }),
+      };
+    }
+    return {
+      ok: false,
+      error: isRecord(response) && typeof response.error === 'string' ? response.error : 'join failed',
+      rejected: true,
+    };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err), rejected: false };
+  }
+}
+
+/** Leave a room, e.g. when the dashboard switches to another session. */
+export function leaveRoom(socket: Socket, sid: string): void {
+  socket.emit(SOCKET_EVENTS.LEAVE_ROOM, { sid });
 }
 
+/** Outcome of sendScan; `retryable` is false when resending the same event cannot succeed (invalid event) */
+export type SendScanResult =
+  | { ok: true; scanId: string; seq: number; /** The server already had this idempotencyKey */ duplicate?: boolean }
+  | { ok: false; error: string; retryable: boolean };
+
 /**
- * Emit a scan result to the server (mobile scanner → server).
+ * Send a scan result to the server (mobile scanner → server) and wait for its acknowledgement.
+ * v1 payloads are upgraded to ScanEvent; events that fail validation are not sent.
+ * Fails fast while disconnected (instead of letting Socket.io buffer the emit) so the caller can queue and retry.
  */
-export function sendScan(socket: Socket, sid: string, payload: ScanPayload): void {
-  socket.emit(SOCKET_EVENTS.SEND_SCAN, { sid, ...payload });
+export async function sendScan(
+  socket: Socket,
+  sid: string,
+  payload: ScanEvent | ScanPayload
+): Promise<SendScanResult> {
+  const event = toScanEvent(payload);
+  if (!event) {
+    const error = scanEventError(payload) ?? 'invalid scan event';
+    console.warn('sendScan: invalid scan event', error);
+    return { ok: false, error, retryable: false };
+  }
+  if (!socket.connected) return { ok: false, error: 'not connected', retryable: true };
+  try {
+    const response = (await socket
+      .timeout(ACK_TIMEOUT_MS)
+      .emitWithAck(SOCKET_EVENTS.SEND_SCAN, { sid, ...event })) as unknown;
+    if (isRecord(response) && response.ok === true && typeof response.scanId === 'string') {
+      return {
+        ok: true,
+        scanId: response.scanId,
+        seq: typeof response.seq === 'number' ? response.seq : 0,
+        ...(response.duplicate === true && { duplicate: true }),
+      };
+    }
+    const error = isRecord(response) && typeof response.error === 'string' ? response.error : 'invalid response';
+    return { ok: false, error, retryable: true };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err), retryable: true };
+  }
+}
+
+/** Metadata the socket server adds when it stores and relays a scan */
+export type ScanEnvelope = {
+  sid?: string;
+  /** Per-room sequence number assigned by the server (history cursor) */
+  seq?: number;
+  /** Server-assigned scan ID (returned to the scanner in the send-scan ack) */
+  scanId?: string;
+  /** Friendly name of the scanner that sent the scan, at the time it was sent */
+  deviceName?: string;
+  /** Server receive time (ms) */
+  receivedAt?: number;
+};
+
+export type ReceivedScanEvent = ScanEvent & ScanEnvelope;
+
+/** One page of stored scans, newest first */
+export type ScanHistoryPage = {
+  sid: string;
+  scans: ReceivedScanEvent[];
+  /** Pass as `before` to fetch the next (older) page; null when there are no older scans */
+  nextBefore: number | null;
+};
+
+function toReceivedScanEvent(payload: unknown): ReceivedScanEvent | null {
+  const event = toScanEvent(payload);
+  if (!event || !isRecord(payload)) return null;
+  return {
+    ...event,
+    ...(typeof payload.sid === 'string' && { sid: payload.sid }),
+    ...(typeof payload.seq === 'number' && { seq: payload.seq }),
+    ...(typeof payload.scanId === 'string' && { scanId: payload.scanId }),
+    ...(typeof payload.deviceName === 'string' && { deviceName: payload.deviceName }),
+    ...(typeof payload.receivedAt === 'number' && { receivedAt: payload.receivedAt }),
+  };
 }
 
 /**
  * Subscribe to scan events broadcast to the dashboard.
+ * v1 payloads (older scanners) are upgraded; anything else that fails validation is dropped.
  */
 export function onBroadcastToDashboard(
   socket: Socket,
-  handler: (payload: ScanPayload & { sid?: string }) => void
+  handler: (event: ReceivedScanEvent) => void
 ): () => void {
-  socket.on(SOCKET_EVENTS.BROADCAST_TO_DASHBOARD, handler);
-  return () => socket.off(SOCKET_EVENTS.BROADCAST_TO_DASHBOARD);
+  const listener = (payload: unknown) => {
+    const event = toReceivedScanEvent(payload);
+    if (!event) {
+      console.warn('onBroadcastToDashboard: dropped invalid scan event', scanEventError(payload));
+      return;
+    }
+    handler(event);
+  };
+  socket.on(SOCKET_EVENTS.BROADCAST_TO_DASHBOARD, listener);
+  return () => socket.off(SOCKET_EVENTS.BROADCAST_TO_DASHBOARD, listener);
+}
+
+/**
+ * Fetch stored scans for a room (newest first), e.g. to backfill the dashboard after a refresh.
+ * @param options.limit - Page size (server caps it at 500; default 50)
+ * @param options.before - Only scans with seq < before (use nextBefore from the previous page)
+ */
+export async function requestHistory(
+  socket: Socket,
+  sid: string,
+  options: { limit?: number; before?: number } = {}
+): Promise<ScanHistoryPage> {
+  const response = (await socket
+    .timeout(ACK_TIMEOUT_MS)
+    .emitWithAck(SOCKET_EVENTS.REQUEST_HISTORY, { sid, ...options })) as unknown;
+  if (!isRecord(response) || !Array.isArray(response.scans)) {
+    const error = isRecord(response) && typeof response.error === 'string' ? response.error : 'invalid response';
+    throw new Error(`request-history: ${error}`);
+  }
+  const scans = response.scans
+    .map(toReceivedScanEvent)
+    .filter((e): e is ReceivedScanEvent => e !== null);
+  return {
+    sid,
+    scans,
+    nextBefore: typeof response.nextBefore === 'number' ? response.nextBefore : null,
+  };
+}
+
+function isSessionInfo(v: unknown): v is SessionInfo {
+  return (
+    isRecord(v) &&
+    typeof v.sid === 'string' &&
+    typeof v.createdAt === 'number' &&
+    typeof v.lastActiveAt === 'number' &&
+    typeof v.dashboards === 'number' &&
+    typeof v.scanners === 'number' &&
+    Array.isArray(v.devices)
+  );
+}
+
+/** List the sessions these owner keys unlock, most recently active first. */
+export async function listSessions(socket: Socket, credentials: SessionCredential[]): Promise<SessionInfo[]> {
+  const response = (await socket
+    .timeout(ACK_TIMEOUT_MS)
+    .emitWithAck(SOCKET_EVENTS.LIST_SESSIONS, { sessions: credentials })) as unknown;
+  if (!isRecord(response) || !Array.isArray(response.sessions)) throw new Error('list-sessions: invalid response');
+  return response.sessions.filter(isSessionInfo);
+}
+
+/** Short-lived signed token that lets a scanner pair with a session (embedded in the dashboard QR) */
+export type PairingToken = { token: string; expiresAt: number };
+
+/** Ask the server for a pairing token (the socket must have joined the session as its dashboard). */
+export async function requestPairingToken(socket: Socket, sid: string): Promise<PairingToken> {
+  const response = (await socket
+    .timeout(ACK_TIMEOUT_MS)
+    .emitWithAck(SOCKET_EVENTS.REQUEST_PAIRING_TOKEN, { sid })) as unknown;
+  if (!isRecord(response) || typeof response.token !== 'string' || typeof response.expiresAt !== 'number') {
+    const error = isRecord(response) && typeof response.error === 'string' ? response.error : 'invalid response';
+    throw new Error(`request-pairing-token: ${error}`);
+  }
+  return { token: response.token, expiresAt: response.expiresAt };
+}
+
+/** Revoke a paired scanner: it is removed from the room and must scan a fresh QR to pair again. */
+export async function revokeDevice(socket: Socket, sid: string, deviceId: string): Promise<void> {
+  const response = (await socket
+    .timeout(ACK_TIMEOUT_MS)
+    .emitWithAck(SOCKET_EVENTS.REVOKE_DEVICE, { sid, deviceId })) as unknown;
+  if (!isRecord(response) || response.ok !== true) {
+    const error = isRecord(response) && typeof response.error === 'string' ? response.error : 'invalid response';
+    throw new Error(`revoke-device: ${error}`);
+  }
+}
+
+/** Subscribe to revocation of this scanner (server → scanner). Returns unsubscribe. */
+export function onDeviceRevoked(socket: Socket, handler: (sid: string) => void): () => void {
+  const listener = (payload: unknown) => {
+    if (isRecord(payload) && typeof payload.sid === 'string') handler(payload.sid);
+  };
+  socket.on(SOCKET_EVENTS.DEVICE_REVOKED, listener);
+  return () => socket.off(SOCKET_EVENTS.DEVICE_REVOKED, listener);
+}
+
+function isBattery(v: unknown): v is DeviceBattery {
+  return isRecord(v) && typeof v.level === 'number' && typeof v.charging === 'boolean';
+}
+
+/** Subscribe to scanner presence in the joined room (dashboard). Returns unsubscribe. */
+export function onPresence(socket: Socket, handler: (presence: DevicePresence) => void): () => void {
+  const listener = (payload: unknown) => {
+    if (
+      !isRecord(payload) ||
+      typeof payload.sid !== 'string' ||
+      typeof payload.deviceId !== 'string' ||
+      (payload.status !== 'joined' && payload.status !== 'left' && payload.status !== 'last-seen') ||
+      typeof payload.online !== 'boolean' ||
+      typeof payload.lastSeenAt !== 'number'
+    ) {
+      return;
+    }
+    handler({
+      sid: payload.sid,
+      deviceId: payload.deviceId,
+      ...(typeof payload.name === 'string' && { name: payload.name }),
+      status: payload.status,
+      online: payload.online,
+      lastSeenAt: payload.lastSeenAt,
+      ...(isBattery(payload.battery) && { battery: payload.battery }),
+    });
+  };
+  socket.on(SOCKET_EVENTS.PRESENCE, listener);
+  return () => socket.off(SOCKET_EVENTS.PRESENCE, listener);
+}
+
+/** Scanner heartbeat: updates last-seen (and battery when known) for the dashboards in the room. */
+export function sendDeviceStatus(socket: Socket, sid: string, status: { battery?: DeviceBattery } = {}): void {
+  socket.emit(SOCKET_EVENTS.DEVICE_STATUS, { sid, ...status });
 }
 
 export { SOCKET_EVENTS };
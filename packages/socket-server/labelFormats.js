@@ -0,0 +1,68 @@
+/**
+ * Label-format definitions for GET /api/label-formats, read from LABEL_FORMATS_FILE (default ./label-formats.json)
+ * on every request, so formats can be added or edited without a restart or a scanner redeploy. Dashboards that
+ * present LABEL_FORMATS_ADMIN_KEY can replace the file ('publish-label-formats'; see writeLabelFormats); without
+ * the variable publishing is off. Formats are checked with the shared validateLabelFormats, and their samples
+ * with the shared extractor (see shared.js): the same code the dashboard editor and the scanners run.
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { hashKey, keyMatches } from './pairing.js';
+import { checkLabelFormatSample, compileLabelFormat, validateLabelFormats } from './shared.js';
+
+export const LABEL_FORMATS_FILE = process.env.LABEL_FORMATS_FILE
+  ? path.resolve(process.env.LABEL_FORMATS_FILE)
+  : path.join(path.dirname(fileURLToPath(import.meta.url)), 'label-formats.json');
+
+/** Formats are global (every room's scanners use them), so publishing needs this server-side secret */
+const ADMIN_KEY_HASH = process.env.LABEL_FORMATS_ADMIN_KEY ? hashKey(process.env.LABEL_FORMATS_ADMIN_KEY) : null;
+
+/** Last reported problems, so the same errors are logged once */
+let lastReported = '';
+
+/**
+ * Read and validate the label-format file. Returns null when there is no file (scanners keep their built-in
+ * formats); problems are logged when they first appear.
+ */
+export function readLabelFormats() {
+  let result;
+  try {
+    result = validateLabelFormats(JSON.parse(fs.readFileSync(LABEL_FORMATS_FILE, 'utf8')));
+  } catch (err) {
+    if (err?.code === 'ENOENT') return null;
+    result = { formats: [], errors: [`${path.basename(LABEL_FORMATS_FILE)}: ${err?.message || err}`] };
+  }
+  const reported = result.errors.join('\n');
+  if (reported && reported !== lastReported) console.warn(`Label formats (${LABEL_FORMATS_FILE}):\n  ${result.errors.join('\n  ')}`);
+  lastReported = reported;
+  return result;
+}
+
+/** Why a dashboard may not publish label formats with this admin key, or null when it may */
+export function publishKeyError(adminKey) {
+  if (!ADMIN_KEY_HASH) return 'Publishing label formats is disabled on this server (LABEL_FORMATS_ADMIN_KEY is not set)';
+  return keyMatches(adminKey, ADMIN_KEY_HASH) ? null : 'Wrong label-format admin key';
+}
+
+/** One message per sample of validated formats whose extracted values differ from the expected ones */
+export function failingLabelSamples(formats) {
+  const errors = [];
+  for (const format of formats) {
+    const extractor = compileLabelFormat(format);
+    (format.samples ?? []).forEach((sample, i) => {
+      const { actual, mismatched } = checkLabelFormatSample(extractor, sample);
+      if (mismatched.length)
+        errors.push(
+          `${format.id}.samples[${i}]: ${mismatched.map((key) => `${key} "${actual[key] ?? ''}" (expected "${sample.expected[key]}")`).join(', ')}`
+        );
+    });
+  }
+  return errors;
+}
+
+/** Replace the label-format file with validated formats (published from the dashboard) */
+export function writeLabelFormats(formats) {
+  fs.writeFileSync(LABEL_FORMATS_FILE, `${JSON.stringify({ formats }, null, 2)}\n`);
+  lastReported = '';
+}
@@ -0,0 +1,73 @@
+/**
+ * Labelled samples from corrected OCR scans, for tuning label formats: whenever a person corrects the fields of an
+ * ocr-text scan (on the scanner before sending, or on a dashboard), the OCR text and the corrected fields are
+ * appended to LABEL_SAMPLES_FILE (default <SCAN_STORE_DIR>/label-samples.ndjson). GET /api/rooms/:sid/label-samples
+ * returns the room's latest sample per scan, newest first (CorrectedLabelSample in packages/shared/src/review.ts).
+ */
+import fs from 'fs';
+import path from 'path';
+import { STORE_DIR } from './scanStore.js';
+
+export const LABEL_SAMPLES_FILE = process.env.LABEL_SAMPLES_FILE
+  ? path.resolve(process.env.LABEL_SAMPLES_FILE)
+  : path.join(STORE_DIR, 'label-samples.ndjson');
+
+const SAMPLE_KEYS = ['batch_no', 'lot_no', 'expiry', 'serial', 'ref'];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+/**
+ * Record a stored scan as a labelled sample when it is OCR text with corrections. Expected values are the
+ * label's current fields; a field corrected to empty is expected to be empty ('').
+ */
+export function recordLabelSample(record, corrections) {
+  if (record.kind !== 'ocr-text' || typeof record.text !== 'string' || !record.label || !corrections?.length) return;
+  // Every key corrected so far, since the latest sample of a scan replaces the earlier ones
+  const corrected = [...new Set([...(record.review?.corrections ?? []), ...corrections].map((c) => c.key))];
+  const expected = {};
+  for (const key of SAMPLE_KEYS) {
+    const value = typeof record.label[key] === 'string' ? record.label[key] : '';
+    if (value || corrected.includes(key)) expected[key] = value;
+  }
+  const last = corrections[corrections.length - 1];
+  const sample = {
+    sid: record.sid,
+    scanId: record.scanId,
+    seq: record.seq,
+    text: record.text,
+    expected,
+    corrected,
+    editor: last.editor,
+    at: last.at,
+  };
+  try {
+    fs.mkdirSync(path.dirname(LABEL_SAMPLES_FILE), { recursive: true });
+    fs.appendFileSync(LABEL_SAMPLES_FILE, `${JSON.stringify(sample)}\n`);
+  } catch (err) {
+    console.warn(`labelSamples: could not write ${LABEL_SAMPLES_FILE}:`, err.message);
+  }
+}
+
+/** Latest sample per scan of a room, newest first; limit defaults to 100 (max 1000) */
+export function readLabelSamples(room, limit) {
+  let text = '';
+  try {
+    text = fs.readFileSync(LABEL_SAMPLES_FILE, 'utf8');
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.warn(`labelSamples: could not read ${LABEL_SAMPLES_FILE}:`, err.message);
+  }
+  const byScan = new Map();
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const sample = JSON.parse(line);
+      if (sample.sid !== room) continue;
+      byScan.delete(sample.scanId);
+      byScan.set(sample.scanId, sample);
+    } catch {
+      /* skip a torn last line from an interrupted write */
+    }
+  }
+  const size = Math.min(Math.max(Math.floor(Number(limit)) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  return [...byScan.values()].reverse().slice(0, size);
+}
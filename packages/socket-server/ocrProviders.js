@@ -0,0 +1,155 @@
+/**
+ * Server-side OCR providers behind POST /api/ocr/:provider (body { image: "<base64 or data URL>" }). Each returns
+ * { provider, text, confidence?, words: [{ text, confidence?, box? }] } — OcrResult in packages/shared/src/ocrProvider.ts
+ * (keep in sync); confidences are 0–1, boxes { x, y, width, height } in image pixels. A new engine is added with
+ * registerOcrProvider({ name, label, configured, notConfigured, recognize }); scanners and dashboards list it from
+ * GET /api/ocr-providers, so nothing else needs editing. Names are lower-case ids (a path segment; shared
+ * isOcrProviderName).
+ *   vision — Google Cloud Vision (GOOGLE_CLOUD_VISION_API_KEY or GOOGLE_VISION_API_KEY).
+ *   paddle — PaddleOCR service (PADDLE_OCR_SERVICE_URL, e.g. http://localhost:5000): POST <url>/ocr { image }
+ *            answering { text, words? }.
+ *   mock   — returns OCR_MOCK_TEXT ("\n" for line breaks) for offline tests.
+ */
+import { isOcrProviderName } from './shared.js';
+
+const VISION_API_KEY = process.env.GOOGLE_CLOUD_VISION_API_KEY || process.env.GOOGLE_VISION_API_KEY;
+const PADDLE_OCR_URL = process.env.PADDLE_OCR_SERVICE_URL
+  ? process.env.PADDLE_OCR_SERVICE_URL.replace(/\/$/, '')
+  : '';
+const MOCK_TEXT = process.env.OCR_MOCK_TEXT?.replace(/\\n/g, '\n');
+
+const providers = new Map();
+
+export function registerOcrProvider(provider) {
+  if (!isOcrProviderName(provider.name)) throw new Error(`Invalid OCR provider name: ${provider.name}`);
+  providers.set(provider.name, provider);
+}
+
+/** Registered providers with whether each is configured */
+export function listOcrProviders() {
+  return [...providers.values()].map(({ name, label, configured }) => ({ name, label, configured: configured() }));
+}
+
+function isConfidence(v) {
+  return typeof v === 'number' && v >= 0 && v <= 1;
+}
+
+function meanConfidence(words) {
+  const scores = words.map((w) => w.confidence).filter(isConfidence);
+  return scores.length ? scores.reduce((sum, c) => sum + c, 0) / scores.length : undefined;
+}
+
+/** Bounding box of polygon points ([{ x, y }] or [[x, y]]); Vision omits zero coordinates */
+function boxFromPoints(points) {
+  if (!Array.isArray(points) || points.length === 0) return undefined;
+  const xs = points.map((p) => (Array.isArray(p) ? p[0] : p?.x) ?? 0);
+  const ys = points.map((p) => (Array.isArray(p) ? p[1] : p?.y) ?? 0);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function visionWords(annotation) {
+  const words = [];
+  for (const page of annotation?.pages ?? []) {
+    for (const block of page.blocks ?? []) {
+      for (const paragraph of block.paragraphs ?? []) {
+        for (const word of paragraph.words ?? []) {
+          const text = (word.symbols ?? []).map((s) => s.text ?? '').join('');
+          if (!text) continue;
+          const box = boxFromPoints(word.boundingBox?.vertices);
+          words.push({ text, ...(isConfidence(word.confidence) && { confidence: word.confidence }), ...(box && { box }) });
+        }
+      }
+    }
+  }
+  return words;
+}
+
+registerOcrProvider({
+  name: 'vision',
+  label: 'Google Cloud Vision',
+  configured: () => Boolean(VISION_API_KEY),
+  notConfigured: 'Google Cloud Vision API key not configured. Set GOOGLE_CLOUD_VISION_API_KEY.',
+  async recognize(image) {
+    const base64 = image.replace(/^data:image\/\w+;base64,/, '');
+    const url = `https://vision.googleapis.com/v1/images:annotate?key=${encodeURIComponent(VISION_API_KEY)}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        requests: [
+          {
+            image: { content: base64 },
+            features: [{ type: 'TEXT_DETECTION', maxResults: 1 }],
+          },
+        ],
+      }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      const msg = data?.error?.message || response.statusText;
+      return { error: `Vision API: ${msg}` };
+    }
+    const annotation = data?.responses?.[0]?.fullTextAnnotation;
+    return { text: annotation?.text ?? '', words: visionWords(annotation) };
+  },
+});
+
+registerOcrProvider({
+  name: 'paddle',
+  label: 'PaddleOCR',
+  configured: () => Boolean(PADDLE_OCR_URL),
+  notConfigured: 'PaddleOCR service not configured. Set PADDLE_OCR_SERVICE_URL (e.g. http://localhost:5000).',
+  async recognize(image) {
+    const response = await fetch(`${PADDLE_OCR_URL}/ocr`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ image }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { error: data?.error || response.statusText || 'PaddleOCR request failed' };
+    }
+    // PaddleOCR lines: { text, confidence, box: [[x, y], …] }
+    const words = (Array.isArray(data.words) ? data.words : [])
+      .filter((w) => typeof w?.text === 'string')
+      .map((w) => {
+        const box = Array.isArray(w.box) ? boxFromPoints(w.box) : w.box;
+        return { text: w.text, ...(isConfidence(w.confidence) && { confidence: w.confidence }), ...(box && { box }) };
+      });
+    return { text: data.text ?? '', words };
+  },
+});
+
+registerOcrProvider({
+  name: 'mock',
+  label: 'Mock (fixtures)',
+  configured: () => MOCK_TEXT !== undefined,
+  notConfigured: 'Mock OCR not configured. Set OCR_MOCK_TEXT.',
+  async recognize() {
+    const words = MOCK_TEXT.split(/\s+/).filter(Boolean).map((text) => ({ text, confidence: 1 }));
+    return { text: MOCK_TEXT, words };
+  },
+});
+
+/**
+ * Run a provider on a request body. Returns { status, body }: 404 unknown provider, 503 not configured,
+ * 400 bad request or engine error, 200 with the OcrResult.
+ */
+export async function recognizeOcr(name, body) {
+  const provider = providers.get(name);
+  if (!provider) return { status: 404, body: { error: `Unknown OCR provider: ${name}` } };
+  if (!provider.configured()) return { status: 503, body: { error: provider.notConfigured } };
+  const { image } = body || {};
+  if (!image || typeof image !== 'string') {
+    return { status: 400, body: { error: 'Missing or invalid body: { image: "<base64>" }' } };
+  }
+  const result = await provider.recognize(image);
+  if (result.error) return { status: 400, body: result };
+  const confidence = isConfidence(result.confidence) ? result.confidence : meanConfidence(result.words);
+  return {
+    status: 200,
+    body: { provider: name, text: result.text.trim(), ...(confidence !== undefined && { confidence }), words: result.words },
+  };
+}
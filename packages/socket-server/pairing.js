@@ -0,0 +1,72 @@
+/**
+ * Pairing tokens and session keys.
+ * A pairing token is a short-lived HMAC-signed { sid, iat, exp } that the dashboard embeds in its QR code.
+ * Until it expires, any number of new devices can present it on join-room; each receives a device key for
+ * later rejoins. A device that is already paired must present its key instead (see sessions.js).
+ * Session keys (dashboard owner key, device keys) are random and stored only as SHA-256 hashes.
+ * Set PAIRING_SECRET so tokens stay valid across server restarts.
+ */
+import crypto from 'crypto';
+
+const SECRET = process.env.PAIRING_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.PAIRING_SECRET) {
+  console.warn('PAIRING_SECRET not set: using a random secret, pairing QR codes expire on restart.');
+}
+
+export const PAIRING_TOKEN_TTL_MS = Number(process.env.PAIRING_TOKEN_TTL_MS) || 10 * 60 * 1000;
+
+function sign(data) {
+  return crypto.createHmac('sha256', SECRET).update(data).digest('base64url');
+}
+
+/** Create a pairing token for a room. */
+export function createPairingToken(sid) {
+  const issuedAt = Date.now();
+  const expiresAt = issuedAt + PAIRING_TOKEN_TTL_MS;
+  const data = Buffer.from(JSON.stringify({ sid, iat: issuedAt, exp: expiresAt })).toString('base64url');
+  return { token: `${data}.${sign(data)}`, expiresAt };
+}
+
+/**
+ * Check a pairing token for a room. Returns a reason string when invalid, or null when valid.
+ * @param {number} [issuedAfter] - e.g. when the device was revoked: older tokens are refused
+ */
+export function pairingTokenError(token, sid, issuedAfter) {
+  if (typeof token !== 'string' || !token.includes('.')) return 'missing pairing token';
+  const [data, signature] = token.split('.');
+  const expected = sign(data);
+  if (
+    !signature ||
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    return 'invalid pairing token';
+  }
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+  } catch {
+    return 'invalid pairing token';
+  }
+  if (claims?.sid !== sid) return 'pairing token is for another session';
+  if (typeof claims.exp !== 'number' || claims.exp < Date.now()) return 'pairing token expired';
+  if (issuedAfter && !(claims.iat > issuedAfter)) return 'pairing token was issued before this device was revoked';
+  return null;
+}
+
+/** New random session key (returned to the client once) */
+export function createKey() {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+export function hashKey(key) {
+  return crypto.createHash('sha256').update(String(key)).digest('hex');
+}
+
+/** Constant-time comparison of a presented key against a stored hash */
+export function keyMatches(key, hash) {
+  if (typeof key !== 'string' || !key || typeof hash !== 'string') return false;
+  const presented = Buffer.from(hashKey(key), 'hex');
+  const stored = Buffer.from(hash, 'hex');
+  return presented.length === stored.length && crypto.timingSafeEqual(presented, stored);
+}
@@ -0,0 +1,172 @@
+/**
+ * Append-only scan store: one JSONL file per room in SCAN_STORE_DIR (default ./data).
+ * Each stored record is the relayed scan event plus { sid, seq, scanId, receivedAt }; seq increases per room
+ * and is the paging cursor for history replay. Files are loaded lazily and kept in memory.
+ * Events carrying an idempotencyKey are stored once per room: replays (outbox retries) return the first record.
+ * Reviews (reviewScan) are appended as { reviewOf: seq, label, review } lines and applied to the record on load,
+ * so the file stays append-only. Review lines have no scanId and every stored scan has one, so a scan line is
+ * never read as a review.
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export const STORE_DIR = process.env.SCAN_STORE_DIR
+  ? path.resolve(process.env.SCAN_STORE_DIR)
+  : path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+/** Label fields a reviewer can correct (REVIEWABLE_LABEL_KEYS in packages/shared/src/review.ts) */
+const REVIEWABLE_KEYS = ['batch_no', 'lot_no', 'expiry', 'serial', 'ref'];
+
+/** room -> stored records, oldest first */
+const rooms = new Map();
+/** room -> Map(idempotencyKey -> stored record) */
+const idempotencyKeys = new Map();
+
+function roomFile(room) {
+  return path.join(STORE_DIR, `${encodeURIComponent(room)}.jsonl`);
+}
+
+function loadRoom(room) {
+  let records = rooms.get(room);
+  if (records) return records;
+  records = [];
+  let text = '';
+  try {
+    text = fs.readFileSync(roomFile(room), 'utf8');
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.warn(`scanStore: could not read ${roomFile(room)}:`, err.message);
+  }
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue; /* skip a torn last line from an interrupted write */
+    }
+    if (typeof entry.reviewOf === 'number' && !entry.scanId) {
+      const record = records.find((r) => r.seq === entry.reviewOf);
+      if (record) Object.assign(record, { label: entry.label, review: entry.review });
+    } else {
+      records.push(entry);
+    }
+  }
+  rooms.set(room, records);
+  idempotencyKeys.set(
+    room,
+    new Map(records.filter((r) => typeof r.idempotencyKey === 'string').map((r) => [r.idempotencyKey, r]))
+  );
+  return records;
+}
+
+/**
+ * Store a scan for a room. Returns { record, duplicate }: the stored record (event + sid, seq, scanId, receivedAt),
+ * or the earlier record when the event's idempotencyKey was already stored (duplicate: true, nothing written).
+ * Store fields the event carries itself (seq, scanId, reviewOf, …) are dropped.
+ * The in-memory copy is kept even if the disk write fails, so live relay is never blocked.
+ */
+export function appendScan(room, input) {
+  const { sid: _sid, seq: _seq, scanId: _scanId, receivedAt: _receivedAt, reviewOf: _reviewOf, ...event } = input;
+  const records = loadRoom(room);
+  const keys = idempotencyKeys.get(room);
+  const key = typeof event.idempotencyKey === 'string' ? event.idempotencyKey : null;
+  if (key && keys.has(key)) return { record: keys.get(key), duplicate: true };
+  const last = records[records.length - 1];
+  const record = {
+    ...event,
+    sid: room,
+    seq: last ? last.seq + 1 : 1,
+    scanId: crypto.randomUUID(),
+    receivedAt: Date.now(),
+  };
+  records.push(record);
+  if (key) keys.set(key, record);
+  appendLine(room, record);
+  return { record, duplicate: false };
+}
+
+function appendLine(room, entry) {
+  try {
+    fs.mkdirSync(STORE_DIR, { recursive: true });
+    fs.appendFileSync(roomFile(room), `${JSON.stringify(entry)}\n`);
+  } catch (err) {
+    console.warn(`scanStore: could not write ${roomFile(room)}:`, err.message);
+  }
+}
+
+/**
+ * Review of a scan as sent by a scanner: only its corrections of reviewable keys, credited to `editor` (the
+ * paired device's name) at `at`; approval is for dashboards. Undefined when there are none.
+ */
+export function scannerReview(review, editor, at) {
+  const corrections = (Array.isArray(review?.corrections) ? review.corrections : [])
+    .filter((c) => REVIEWABLE_KEYS.includes(c?.key) && typeof c.value === 'string')
+    .map((c) => ({ key: c.key, original: typeof c.original === 'string' ? c.original : '', value: c.value, editor, at }));
+  return corrections.length ? { corrections } : undefined;
+}
+
+/**
+ * Correct and/or approve the label fields of a stored scan. `fields` holds edited values; only values that differ
+ * from the stored label become corrections (with the value they replace, editor and time). A corrected field loses
+ * its extraction confidence, a corrected expiry its parsed expiry_date. Corrections without `approve` clear an
+ * earlier approval. Returns { ok: true, record, corrections } or { ok: false, error }.
+ */
+export function reviewScan(room, seq, { fields, approve, editor }) {
+  const record = loadRoom(room).find((r) => r.seq === seq);
+  if (!record) return { ok: false, error: 'Unknown scan' };
+  if (!record.label || typeof record.label !== 'object') return { ok: false, error: 'Scan has no label fields' };
+  const at = Date.now();
+  const corrections = [];
+  for (const key of REVIEWABLE_KEYS) {
+    if (typeof fields?.[key] !== 'string') continue;
+    const value = fields[key].trim();
+    const original = typeof record.label[key] === 'string' ? record.label[key] : '';
+    if (value !== original) corrections.push({ key, original, value, editor, at });
+  }
+  if (corrections.length === 0 && !approve) return { ok: false, error: 'Nothing changed' };
+
+  const label = { ...record.label };
+  if (label.confidence) label.confidence = { ...label.confidence };
+  for (const { key, value } of corrections) {
+    label[key] = value;
+    if (label.confidence) delete label.confidence[key];
+    if (key === 'expiry') delete label.expiry_date;
+  }
+  if (label.confidence && Object.keys(label.confidence).length === 0) delete label.confidence;
+  const { approvedBy: _approvedBy, approvedAt: _approvedAt, ...previous } = record.review ?? { corrections: [] };
+  const review = {
+    ...previous,
+    corrections: [...(previous.corrections ?? []), ...corrections],
+    ...(approve && { approvedBy: editor, approvedAt: at }),
+  };
+  Object.assign(record, { label, review });
+  appendLine(room, { reviewOf: seq, label, review });
+  return { ok: true, record, corrections };
+}
+
+/**
+ * Read stored scans for a room, newest first.
+ * @param {{ limit?: number, before?: number }} options - limit (default 50, max 500); before = only seq < before
+ * @returns {{ sid: string, scans: object[], nextBefore: number | null }}
+ */
+export function readScans(room, { limit, before } = {}) {
+  const records = loadRoom(room);
+  const size = Math.min(Math.max(Math.floor(Number(limit)) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const cursor = before == null || before === '' ? NaN : Number(before);
+  let end = records.length;
+  if (Number.isFinite(cursor)) {
+    while (end > 0 && records[end - 1].seq >= cursor) end -= 1;
+  }
+  const start = Math.max(end - size, 0);
+  const scans = records.slice(start, end).reverse();
+  return { sid: room, scans, nextBefore: start > 0 ? records[start].seq : null };
+}
+
+/** Every stored scan for a room, oldest first (for exports) */
+export function readAllScans(room) {
+  return [...loadRoom(room)];
+}
@@ -1,22 +1,85 @@
 /**
  * Socket.io server for mobile-scanner ↔ web-dashboard flow.
- * Optional OCR backends:
- *   POST /api/ocr — Google Cloud Vision (set GOOGLE_CLOUD_VISION_API_KEY or GOOGLE_VISION_API_KEY).
- *   POST /api/ocr-paddle — PaddleOCR service (set PADDLE_OCR_SERVICE_URL e.g. http://localhost:5000).
+ * Optional OCR backends (see ocrProviders.js):
+ *   POST /api/ocr/:provider { image } — vision (GOOGLE_CLOUD_VISION_API_KEY), paddle (PADDLE_OCR_SERVICE_URL),
+ *     mock (OCR_MOCK_TEXT); answers { provider, text, confidence?, words }. POST /api/ocr and /api/ocr-paddle are
+ *     kept for older scanners (vision, paddle).
+ *   GET /api/ocr-providers — { providers: [{ name, label, configured }] } (also at GET /api/ocr, for older clients).
+ * Rooms are protected (see sessions.js, pairing.js): dashboards join with the session owner key, scanners with
+ * a signed pairing token from the dashboard QR (then their device key). Only paired scanners may send-scan, and
+ * only valid scan events (shared scanEventError, loaded through shared.js) are stored.
+ * Scans are stored per room (see scanStore.js, SCAN_STORE_DIR) and replayed with:
+ *   GET /api/rooms/:sid/scans?limit=50&before=<seq> — newest first, paged by seq (X-Session-Key header).
+ *   socket 'request-history' { sid, limit?, before? } — same page via ack (dashboard sockets).
+ *   GET /api/rooms/:sid/export?format=csv|ndjson|xlsx&device=&from=&to=&q= — all (or filtered) scans as a file.
+ * Label formats (see labelFormats.js, LABEL_FORMATS_FILE) are fetched by scanners at startup:
+ *   GET /api/label-formats — { formats, errors }; 404 when there is no file (scanners use built-in formats).
+ *   socket 'publish-label-formats' { sid, formats, adminKey } — dashboards with LABEL_FORMATS_ADMIN_KEY replace the
+ *     file once every format's samples pass (failingLabelSamples); every client gets 'label-formats-updated'.
+ * Dashboards correct and approve stored label fields (see scanStore.js reviewScan):
+ *   socket 'review-scan' { sid, seq, fields, approve, editor } — the room gets 'scan-reviewed' { sid, seq, scanId, label, review }.
+ *   GET /api/rooms/:sid/label-samples?limit=100 — the room's corrected OCR scans as labelled samples (see
+ *     labelSamples.js; X-Session-Key header).
+ * Scanners register a device ID and name; the room receives 'presence' events (joined, left, last-seen with battery).
+ * Dashboards drive scanners with 'send-command' (relayed as 'command'; each scanner acks its result).
+ * Sessions are tracked so dashboards can resume them after a reload:
+ *   socket 'list-sessions' { sessions: [{ sid, key }] } — owned sessions with connected counts and devices.
  * Run with: npm start (default port 4001).
  */
+import crypto from 'crypto';
 import http from 'http';
 import { Server } from 'socket.io';
+import { appendScan, readAllScans, readScans, reviewScan, scannerReview } from './scanStore.js';
+import { readLabelSamples, recordLabelSample } from './labelSamples.js';
+import { failingLabelSamples, publishKeyError, readLabelFormats, writeLabelFormats } from './labelFormats.js';
+import { listOcrProviders, recognizeOcr } from './ocrProviders.js';
+import { createPairingToken } from './pairing.js';
+import {
+  exportScans,
+  filterScans,
+  SCAN_EXPORT_FORMATS,
+  SCAN_EXPORT_MIME_TYPES,
+  scanEventError,
+  toScanEvent,
+  validateLabelFormats,
+} from './shared.js';
+import {
+  authorizeJoin,
+  deviceName,
+  devicePresence,
+  isOwnerKey,
+  leaveAllSessions,
+  leaveSession,
+  listSessions,
+  memberOf,
+  revokeDevice,
+  scannerSockets,
+  touchSession,
+  updateDeviceStatus,
+} from './sessions.js';
 
 const JOIN_ROOM = 'join-room';
+const LEAVE_ROOM = 'leave-room';
 const SEND_SCAN = 'send-scan';
 const BROADCAST_TO_DASHBOARD = 'broadcast-to-dashboard';
+const REQUEST_HISTORY = 'request-history';
+const LIST_SESSIONS = 'list-sessions';
+const REQUEST_PAIRING_TOKEN = 'request-pairing-token';
+const REVOKE_DEVICE = 'revoke-device';
+const DEVICE_REVOKED = 'device-revoked';
+const PRESENCE = 'presence';
+const DEVICE_STATUS = 'device-status';
+const SEND_COMMAND = 'send-command';
+const COMMAND = 'command';
+const PUBLISH_LABEL_FORMATS = 'publish-label-formats';
+const LABEL_FORMATS_UPDATED = 'label-formats-updated';
+const REVIEW_SCAN = 'review-scan';
+const SCAN_REVIEWED = 'scan-reviewed';
+/** Scanner ack timeouts (see packages/shared commands.ts); prompts wait for the operator */
+const COMMAND_TIMEOUT_MS = 10000;
+const PROMPT_TIMEOUT_MS = 120000;
 
 const PORT = Number(process.env.SOCKET_PORT) || 4001;
-const VISION_API_KEY = process.env.GOOGLE_CLOUD_VISION_API_KEY || process.env.GOOGLE_VISION_API_KEY;
-const PADDLE_OCR_URL = process.env.PADDLE_OCR_SERVICE_URL
-  ? process.env.PADDLE_OCR_SERVICE_URL.replace(/\/$/, '')
-  : '';
 
 function sendJson(res, statusCode, data) {
   res.setHeader('Content-Type', 'application/json');
@@ -25,56 +88,11 @@ function sendJson(res, statusCode, data) {
   res.end(JSON.stringify(data));
 }
 
-async function handleOcrRequest(body) {
-  if (!VISION_API_KEY) {
-    return { error: 'Google Cloud Vision API key not configured. Set GOOGLE_CLOUD_VISION_API_KEY.' };
-  }
-  const { image } = body || {};
-  if (!image || typeof image !== 'string') {
-    return { error: 'Missing or invalid body: { image: "<base64>" }' };
-  }
-  const base64 = image.replace(/^data:image\/\w+;base64,/, '');
-  const url = `https://vision.googleapis.com/v1/images:annotate?key=${encodeURIComponent(VISION_API_KEY)}`;
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      requests: [
-        {
-          image: { content: base64 },
-          features: [{ type: 'TEXT_DETECTION', maxResults: 1 }],
-        },
-      ],
-    }),
-  });
-  const data = await response.json();
-  if (!response.ok) {
-    const msg = data?.error?.message || response.statusText;
-    return { error: `Vision API: ${msg}` };
-  }
-  const text = data?.responses?.[0]?.fullTextAnnotation?.text ?? '';
-  return { text: text.trim() };
-}
-
-async function handlePaddleOcrRequest(body) {
-  if (!PADDLE_OCR_URL) {
-    return { error: 'PaddleOCR service not configured. Set PADDLE_OCR_SERVICE_URL (e.g. http://localhost:5000).' };
-  }
-  const { image } = body || {};
-  if (!image || typeof image !== 'string') {
-    return { error: 'Missing or invalid body: { image: "<base64>" }' };
-  }
-  const url = `${PADDLE_OCR_URL}/ocr`;
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ image }),
-  });
-  const data = await response.json().catch(() => ({}));
-  if (!response.ok) {
-    return { error: data?.error || response.statusText || 'PaddleOCR request failed' };
-  }
-  return { text: (data.text ?? '').trim() };
+/** Provider for an OCR route: /api/ocr/:provider, or the original Vision and PaddleOCR paths */
+function ocrRouteProvider(pathname) {
+  if (pathname === '/api/ocr' || pathname === '/api/ocr/') return 'vision';
+  if (pathname === '/api/ocr-paddle' || pathname === '/api/ocr-paddle/') return 'paddle';
+  return pathname.match(/^\/api\/ocr\/([^/]+)\/?$/)?.[1] ?? null;
 }
 
 const server = http.createServer();
@@ -84,13 +102,15 @@ const io = new Server(server, { cors: { origin: '*' } });
 server.on('request', (req, res) => {
   if (req.method === 'OPTIONS') {
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Session-Key');
     res.writeHead(204);
     res.end();
     return;
   }
-  if (req.method === 'POST' && (req.url === '/api/ocr' || req.url === '/api/ocr/')) {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const ocrProvider = req.method === 'POST' ? ocrRouteProvider(url.pathname) : null;
+  if (ocrProvider) {
     let buf = '';
     req.on('data', (chunk) => { buf += chunk; });
     req.on('end', () => {
@@ -101,58 +121,302 @@ server.on('request', (req, res) => {
         sendJson(res, 400, { error: 'Invalid JSON body' });
         return;
       }
-      handleOcrRequest(body)
-        .then((result) => {
-          if (result.error) sendJson(res, result.error.includes('not configured') ? 503 : 400, result);
-          else sendJson(res, 200, result);
-        })
+      recognizeOcr(ocrProvider, body)
+        .then((result) => sendJson(res, result.status, result.body))
         .catch((err) => sendJson(res, 500, { error: String(err?.message || err) }));
     });
     return;
   }
-  if (req.method === 'POST' && (req.url === '/api/ocr-paddle' || req.url === '/api/ocr-paddle/')) {
-    let buf = '';
-    req.on('data', (chunk) => { buf += chunk; });
-    req.on('end', () => {
-      let body;
-      try {
-        body = JSON.parse(buf || '{}');
-      } catch {
-        sendJson(res, 400, { error: 'Invalid JSON body' });
-        return;
-      }
-      handlePaddleOcrRequest(body)
-        .then((result) => {
-          if (result.error) sendJson(res, result.error.includes('not configured') ? 503 : 400, result);
-          else sendJson(res, 200, result);
-        })
-        .catch((err) => sendJson(res, 500, { error: String(err?.message || err) }));
-    });
+  if (req.method === 'GET' && ['/api/ocr-providers', '/api/ocr-providers/', '/api/ocr', '/api/ocr/'].includes(url.pathname)) {
+    sendJson(res, 200, { providers: listOcrProviders() });
+    return;
+  }
+  if (req.method === 'GET' && (url.pathname === '/api/label-formats' || url.pathname === '/api/label-formats/')) {
+    const labelFormats = readLabelFormats();
+    if (labelFormats) sendJson(res, 200, labelFormats);
+    else sendJson(res, 404, { error: 'No label-format file on the server' });
+    return;
+  }
+  const roomMatch = url.pathname.match(/^\/api\/rooms\/([^/]+)\/(scans|export|label-samples)\/?$/);
+  if (req.method === 'GET' && roomMatch) {
+    let room;
+    try {
+      room = decodeURIComponent(roomMatch[1]).trim();
+    } catch {
+      room = '';
+    }
+    if (!room) {
+      sendJson(res, 400, { error: 'Invalid room id' });
+      return;
+    }
+    if (!isOwnerKey(room, req.headers['x-session-key'])) {
+      sendJson(res, 403, { error: 'Missing or invalid X-Session-Key' });
+      return;
+    }
+    if (roomMatch[2] === 'scans') {
+      sendJson(res, 200, readScans(room, {
+        limit: url.searchParams.get('limit'),
+        before: url.searchParams.get('before'),
+      }));
+      return;
+    }
+    if (roomMatch[2] === 'label-samples') {
+      sendJson(res, 200, { samples: readLabelSamples(room, url.searchParams.get('limit')) });
+      return;
+    }
+    const format = url.searchParams.get('format') || 'csv';
+    if (!SCAN_EXPORT_FORMATS.includes(format)) {
+      sendJson(res, 400, { error: `format must be one of ${SCAN_EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    const timeParam = (name) => {
+      const value = url.searchParams.get(name);
+      if (!value) return undefined;
+      const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+      return Number.isFinite(time) ? time : undefined;
+    };
+    let body;
+    try {
+      const scans = filterScans(readAllScans(room), {
+        deviceId: url.searchParams.get('device') || undefined,
+        from: timeParam('from'),
+        to: timeParam('to'),
+        query: url.searchParams.get('q') || undefined,
+      });
+      body = exportScans(scans, format);
+    } catch (err) {
+      console.warn(`export failed for ${room}:`, err);
+      sendJson(res, 500, { error: 'Export failed' });
+      return;
+    }
+    res.setHeader('Content-Type', SCAN_EXPORT_MIME_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="scans-${encodeURIComponent(room)}.${format}"`);
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.writeHead(200);
+    res.end(body);
     return;
   }
 });
 
+/** Trimmed room id from a socket payload, or '' */
+function roomOf(payload) {
+  return typeof payload?.sid === 'string' ? payload.sid.trim() : '';
+}
+
+function reply(ack, result) {
+  if (typeof ack === 'function') ack(result);
+}
+
+/** Tell the room (dashboards) that a scanner joined, left or checked in */
+function emitPresence(room, deviceId, status) {
+  const presence = devicePresence(room, deviceId, status);
+  if (presence) io.to(room).emit(PRESENCE, presence);
+}
+
 io.on('connection', (socket) => {
-  socket.on(JOIN_ROOM, (payload) => {
-    const sid = payload?.sid;
-    if (!sid || typeof sid !== 'string') return;
-    const room = String(sid).trim();
-    if (!room) return;
-    socket.join(room);
+  socket.on(JOIN_ROOM, (payload, ack) => {
+    const room = roomOf(payload);
+    if (!room) {
+      reply(ack, { ok: false, error: 'Missing sid' });
+      return;
+    }
+    const result = authorizeJoin(room, socket.id, {
+      role: payload.role,
+      name: payload.name,
+      token: payload.token,
+      key: payload.key,
+      deviceId: payload.deviceId,
+      deviceName: payload.deviceName,
+    });
+    if (result.ok) {
+      socket.join(room);
+      if (result.role === 'scanner') emitPresence(room, payload.deviceId, 'joined');
+    } else {
+      console.warn(`join-room rejected for ${room}: ${result.error}`);
+    }
+    reply(ack, result);
   });
 
-  socket.on(SEND_SCAN, (payload) => {
-    const sid = payload?.sid;
-    if (!sid || typeof sid !== 'string') return;
-    const room = String(sid).trim();
+  socket.on(LEAVE_ROOM, (payload) => {
+    const room = roomOf(payload);
     if (!room) return;
-    io.to(room).emit(BROADCAST_TO_DASHBOARD, {
-      type: payload.type,
-      value: payload.value,
-      raw: payload.raw,
-      timestamp: payload.timestamp,
-      sid: room,
+    socket.leave(room);
+    const member = leaveSession(room, socket.id);
+    if (member?.deviceId) emitPresence(room, member.deviceId, 'left');
+  });
+
+  socket.on('disconnect', () => {
+    for (const { sid, member } of leaveAllSessions(socket.id)) {
+      if (member.deviceId) emitPresence(sid, member.deviceId, 'left');
+    }
+  });
+
+  socket.on(DEVICE_STATUS, (payload) => {
+    const room = roomOf(payload);
+    const presence = room ? updateDeviceStatus(room, socket.id, { battery: payload.battery }) : null;
+    if (presence) io.to(room).emit(PRESENCE, presence);
+  });
+
+  socket.on(SEND_SCAN, (payload, ack) => {
+    const room = roomOf(payload);
+    if (!room) {
+      reply(ack, { ok: false, error: 'Missing sid' });
+      return;
+    }
+    const member = memberOf(room, socket.id);
+    if (member?.role !== 'scanner') {
+      reply(ack, { ok: false, error: 'Not paired with this session' });
+      return;
+    }
+    // Validate (ScanEvent v2; v1 { type, value, raw } is upgraded), then store and relay the scan event.
+    // The ack carries the server scan ID so the scanner can mark the scan delivered. Replays of an
+    // idempotencyKey already stored (retries after a lost ack) are acked again but not re-broadcast.
+    // deviceId comes from the pairing, not the payload, so a scanner cannot tag scans as another device; of its
+    // review only the corrections are kept, credited to the paired device (approval is for dashboards).
+    const { sid: _sid, review, ...event } = payload;
+    const scan = toScanEvent({ ...event, deviceId: member.deviceId });
+    if (!scan) {
+      reply(ack, { ok: false, error: `Invalid scan event: ${scanEventError({ ...event, deviceId: member.deviceId })}` });
+      return;
+    }
+    touchSession(room);
+    const name = deviceName(room, member.deviceId);
+    const corrected = scannerReview(review, name || member.deviceId, Date.now());
+    const { record, duplicate } = appendScan(room, {
+      ...scan,
+      deviceId: member.deviceId,
+      ...(name && { deviceName: name }),
+      ...(corrected && { review: corrected }),
     });
+    if (!duplicate) {
+      io.to(room).emit(BROADCAST_TO_DASHBOARD, record);
+      // Fields corrected on the scanner before sending
+      recordLabelSample(record, record.review?.corrections);
+    }
+    reply(ack, { ok: true, scanId: record.scanId, seq: record.seq, ...(duplicate && { duplicate: true }) });
+  });
+
+  socket.on(REQUEST_HISTORY, (payload, ack) => {
+    if (typeof ack !== 'function') return;
+    const room = roomOf(payload);
+    if (memberOf(room, socket.id)?.role !== 'dashboard') {
+      ack({ error: 'Not authorized for this session' });
+      return;
+    }
+    ack(readScans(room, { limit: payload.limit, before: payload.before }));
+  });
+
+  socket.on(LIST_SESSIONS, (payload, ack) => {
+    reply(ack, { sessions: listSessions(payload?.sessions) });
+  });
+
+  socket.on(REQUEST_PAIRING_TOKEN, (payload, ack) => {
+    const room = roomOf(payload);
+    if (memberOf(room, socket.id)?.role !== 'dashboard') {
+      reply(ack, { ok: false, error: 'Not authorized for this session' });
+      return;
+    }
+    reply(ack, { ok: true, ...createPairingToken(room) });
+  });
+
+  socket.on(SEND_COMMAND, (payload, ack) => {
+    const room = roomOf(payload);
+    if (memberOf(room, socket.id)?.role !== 'dashboard') {
+      reply(ack, { ok: false, error: 'Not authorized for this session' });
+      return;
+    }
+    const command = payload.command;
+    if (!command || typeof command.type !== 'string') {
+      reply(ack, { ok: false, error: 'Missing command' });
+      return;
+    }
+    const targets = scannerSockets(room, typeof payload.deviceId === 'string' ? payload.deviceId : undefined);
+    if (targets.length === 0) {
+      reply(ack, { ok: false, error: payload.deviceId ? 'Device is not connected' : 'No scanner connected' });
+      return;
+    }
+    // Scanners validate the command and ack a CommandResult; scanners that do not answer in time are left out.
+    const envelope = { commandId: crypto.randomUUID(), sid: room, command };
+    io.to(targets)
+      .timeout(command.type === 'prompt' ? PROMPT_TIMEOUT_MS : COMMAND_TIMEOUT_MS)
+      .emit(COMMAND, envelope, (_err, responses) => {
+        reply(ack, { ok: true, commandId: envelope.commandId, results: Array.isArray(responses) ? responses : [] });
+      });
+  });
+
+  socket.on(PUBLISH_LABEL_FORMATS, (payload, ack) => {
+    const room = roomOf(payload);
+    if (memberOf(room, socket.id)?.role !== 'dashboard') {
+      reply(ack, { ok: false, error: 'Not authorized for this session' });
+      return;
+    }
+    const keyError = publishKeyError(payload.adminKey);
+    if (keyError) {
+      reply(ack, { ok: false, error: keyError });
+      return;
+    }
+    const { formats, errors } = validateLabelFormats(payload.formats);
+    if (errors.length || formats.length === 0) {
+      reply(ack, { ok: false, error: errors.length ? 'Invalid label formats' : 'No label formats', errors });
+      return;
+    }
+    const failing = failingLabelSamples(formats);
+    if (failing.length) {
+      reply(ack, { ok: false, error: 'Failing samples', errors: failing });
+      return;
+    }
+    try {
+      writeLabelFormats(formats);
+    } catch (err) {
+      reply(ack, { ok: false, error: `Could not save label formats: ${err?.message || err}` });
+      return;
+    }
+    // Formats are global: every scanner reloads them, whatever its room
+    io.emit(LABEL_FORMATS_UPDATED, { count: formats.length });
+    reply(ack, { ok: true, count: formats.length });
+  });
+
+  socket.on(REVIEW_SCAN, (payload, ack) => {
+    const room = roomOf(payload);
+    if (memberOf(room, socket.id)?.role !== 'dashboard') {
+      reply(ack, { ok: false, error: 'Not authorized for this session' });
+      return;
+    }
+    if (typeof payload.seq !== 'number') {
+      reply(ack, { ok: false, error: 'Missing seq' });
+      return;
+    }
+    const editor = typeof payload.editor === 'string' && payload.editor.trim() ? payload.editor.trim() : 'dashboard';
+    const result = reviewScan(room, payload.seq, { fields: payload.fields, approve: payload.approve === true, editor });
+    if (!result.ok) {
+      reply(ack, result);
+      return;
+    }
+    const { record, corrections } = result;
+    recordLabelSample(record, corrections);
+    touchSession(room);
+    io.to(room).emit(SCAN_REVIEWED, { sid: room, seq: record.seq, scanId: record.scanId, label: record.label, review: record.review });
+    reply(ack, { ok: true, label: record.label, review: record.review });
+  });
+
+  socket.on(REVOKE_DEVICE, (payload, ack) => {
+    const room = roomOf(payload);
+    if (memberOf(room, socket.id)?.role !== 'dashboard') {
+      reply(ack, { ok: false, error: 'Not authorized for this session' });
+      return;
+    }
+    const socketIds = revokeDevice(room, payload.deviceId);
+    if (!socketIds) {
+      reply(ack, { ok: false, error: 'Unknown device' });
+      return;
+    }
+    for (const id of socketIds) {
+      const deviceSocket = io.sockets.sockets.get(id);
+      if (!deviceSocket) continue;
+      deviceSocket.leave(room);
+      deviceSocket.emit(DEVICE_REVOKED, { sid: room });
+    }
+    reply(ack, { ok: true });
   });
 });
 
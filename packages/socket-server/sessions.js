@@ -0,0 +1,270 @@
+/**
+ * Session (room) registry: which rooms exist, their display names, who may join them, and which sockets
+ * are connected as dashboard or scanner. Session metadata (owner key hash, paired devices) is saved to
+ * sessions.json next to the scan store (activity times at most every few seconds) so a dashboard can resume
+ * a session after a reload or server restart without re-pairing its devices; membership is live-only.
+ */
+import fs from 'fs';
+import path from 'path';
+import { createKey, hashKey, keyMatches, pairingTokenError } from './pairing.js';
+import { STORE_DIR } from './scanStore.js';
+
+const SESSIONS_FILE = path.join(STORE_DIR, 'sessions.json');
+const MAX_LISTED = 100;
+
+/**
+ * sid -> { sid, name?, createdAt, lastActiveAt, ownerKeyHash?,
+ *          devices?: { [deviceId]: { keyHash, name?, pairedAt, lastSeenAt, battery? } },
+ *          revokedDevices?: { [deviceId]: revokedAt } }
+ */
+const sessions = new Map();
+/** sid -> Map(socketId -> { role, deviceId? }) */
+const members = new Map();
+
+try {
+  const saved = JSON.parse(fs.readFileSync(SESSIONS_FILE, 'utf8'));
+  if (Array.isArray(saved)) {
+    for (const s of saved) if (s && typeof s.sid === 'string') sessions.set(s.sid, s);
+  }
+} catch (err) {
+  if (err.code !== 'ENOENT') console.warn(`sessions: could not read ${SESSIONS_FILE}:`, err.message);
+}
+
+/** Activity-only changes (lastActiveAt, lastSeenAt) are saved at most this often */
+const ACTIVITY_SAVE_DELAY_MS = 5000;
+
+let saveTimer = null;
+
+/** Write sessions.json through a temp file, so a crash mid-write cannot leave it truncated */
+function save() {
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  const tmpFile = `${SESSIONS_FILE}.tmp`;
+  try {
+    fs.mkdirSync(STORE_DIR, { recursive: true });
+    fs.writeFileSync(tmpFile, JSON.stringify([...sessions.values()], null, 2));
+    fs.renameSync(tmpFile, SESSIONS_FILE);
+  } catch (err) {
+    console.warn(`sessions: could not write ${SESSIONS_FILE}:`, err.message);
+  }
+}
+
+/** Save within ACTIVITY_SAVE_DELAY_MS, for changes that may be lost in a crash (every scan touches its session) */
+function saveSoon() {
+  if (!saveTimer) saveTimer = setTimeout(save, ACTIVITY_SAVE_DELAY_MS);
+}
+
+function touch(sid, name) {
+  const now = Date.now();
+  const existing = sessions.get(sid);
+  const session = existing ?? { sid, createdAt: now, lastActiveAt: now };
+  session.lastActiveAt = now;
+  const renamed = name && session.name !== name;
+  if (renamed) session.name = name;
+  sessions.set(sid, session);
+  if (!existing || renamed) save();
+  else saveSoon();
+  return session;
+}
+
+/**
+ * Authorize a socket for a session and record it as a member.
+ * Dashboards present the session owner key (the first dashboard to join a new session claims it and gets the key).
+ * Scanners present a pairing token from the dashboard QR, or the device key they were given when they paired,
+ * plus an optional friendly deviceName shown on the dashboard. A token only pairs a device the session does not
+ * know yet (a paired device must present its key, so a token holder cannot take over its deviceId), and not
+ * with a token issued before that device was revoked.
+ * @returns {{ ok: true, role: string, key?: string } | { ok: false, error: string }} key is set when newly issued
+ */
+export function authorizeJoin(sid, socketId, { role, name, token, key, deviceId, deviceName } = {}) {
+  const session = sessions.get(sid);
+  let issuedKey;
+  if (role === 'dashboard') {
+    if (!session?.ownerKeyHash) issuedKey = createKey();
+    else if (!keyMatches(key, session.ownerKeyHash)) return { ok: false, error: 'session belongs to another dashboard' };
+  } else {
+    if (typeof deviceId !== 'string' || !deviceId) return { ok: false, error: 'missing deviceId' };
+    const device = session?.devices?.[deviceId];
+    if (device) {
+      if (!keyMatches(key, device.keyHash)) {
+        return { ok: false, error: 'device already paired; remove it on the dashboard to pair again' };
+      }
+    } else {
+      const tokenError = pairingTokenError(token, sid, session?.revokedDevices?.[deviceId]);
+      if (tokenError) return { ok: false, error: key ? 'device not paired or revoked' : tokenError };
+      issuedKey = createKey();
+    }
+  }
+
+  const updated = touch(sid, typeof name === 'string' && role === 'dashboard' ? name.trim().slice(0, 100) : '');
+  if (role === 'dashboard') {
+    if (issuedKey) updated.ownerKeyHash = hashKey(issuedKey);
+  } else {
+    updated.devices = updated.devices ?? {};
+    const now = Date.now();
+    const device = updated.devices[deviceId] ?? { pairedAt: now };
+    if (issuedKey) device.keyHash = hashKey(issuedKey);
+    if (typeof deviceName === 'string' && deviceName.trim()) device.name = deviceName.trim().slice(0, 60);
+    device.lastSeenAt = now;
+    updated.devices[deviceId] = device;
+  }
+  save();
+
+  let roomMembers = members.get(sid);
+  if (!roomMembers) {
+    roomMembers = new Map();
+    members.set(sid, roomMembers);
+  }
+  const memberRole = role === 'dashboard' ? 'dashboard' : 'scanner';
+  roomMembers.set(socketId, { role: memberRole, ...(memberRole === 'scanner' && { deviceId }) });
+  return { ok: true, role: memberRole, ...(issuedKey && { key: issuedKey }) };
+}
+
+/** Membership of a socket in a session: { role, deviceId? }, or undefined when not authorized. */
+export function memberOf(sid, socketId) {
+  return members.get(sid)?.get(socketId);
+}
+
+/** Socket IDs of the scanners connected to a session, optionally only those of one device. */
+export function scannerSockets(sid, deviceId) {
+  const ids = [];
+  for (const [socketId, member] of members.get(sid) ?? []) {
+    if (member.role === 'scanner' && (!deviceId || member.deviceId === deviceId)) ids.push(socketId);
+  }
+  return ids;
+}
+
+/** True when key is the owner (dashboard) key of the session. */
+export function isOwnerKey(sid, key) {
+  return keyMatches(key, sessions.get(sid)?.ownerKeyHash);
+}
+
+/** Remove a socket from a session. Returns its former membership ({ role, deviceId? }) or undefined. */
+export function leaveSession(sid, socketId) {
+  const roomMembers = members.get(sid);
+  const member = roomMembers?.get(socketId);
+  if (!member) return undefined;
+  roomMembers.delete(socketId);
+  if (roomMembers.size === 0) members.delete(sid);
+  const device = member.deviceId ? sessions.get(sid)?.devices?.[member.deviceId] : undefined;
+  if (device) device.lastSeenAt = Date.now();
+  touch(sid);
+  return member;
+}
+
+/** Remove a disconnected socket from every session it had joined. Returns [{ sid, member }] for each. */
+export function leaveAllSessions(socketId) {
+  const left = [];
+  for (const sid of [...members.keys()]) {
+    const member = leaveSession(sid, socketId);
+    if (member) left.push({ sid, member });
+  }
+  return left;
+}
+
+/**
+ * Record a scanner heartbeat (last seen, battery when the browser reports it). Kept in memory; saved with
+ * the next session change. Returns the device's presence, or null when the socket is not a paired scanner.
+ */
+export function updateDeviceStatus(sid, socketId, { battery } = {}) {
+  const member = memberOf(sid, socketId);
+  const device = member?.deviceId ? sessions.get(sid)?.devices?.[member.deviceId] : undefined;
+  if (!device) return null;
+  device.lastSeenAt = Date.now();
+  if (
+    battery &&
+    typeof battery.level === 'number' &&
+    battery.level >= 0 &&
+    battery.level <= 1 &&
+    typeof battery.charging === 'boolean'
+  ) {
+    device.battery = { level: battery.level, charging: battery.charging };
+  }
+  return devicePresence(sid, member.deviceId, 'last-seen');
+}
+
+/**
+ * Presence of a paired device: { sid, deviceId, name?, status, online, lastSeenAt, battery? }.
+ * status is 'joined', 'left' or 'last-seen'; online is true while any socket of the device is in the room.
+ */
+export function devicePresence(sid, deviceId, status) {
+  const device = sessions.get(sid)?.devices?.[deviceId];
+  if (!device) return null;
+  const online = [...(members.get(sid)?.values() ?? [])].some((m) => m.deviceId === deviceId);
+  return {
+    sid,
+    deviceId,
+    ...(device.name && { name: device.name }),
+    status,
+    online,
+    lastSeenAt: device.lastSeenAt,
+    ...(device.battery && { battery: device.battery }),
+  };
+}
+
+/** Friendly name of a paired device, if it registered one */
+export function deviceName(sid, deviceId) {
+  return sessions.get(sid)?.devices?.[deviceId]?.name;
+}
+
+/** Mark a session active (e.g. on scan) without changing membership. */
+export function touchSession(sid) {
+  touch(sid);
+}
+
+/**
+ * Revoke a paired device: its device key stops working and its sockets lose membership. The revocation time is
+ * kept so pairing tokens issued before it cannot pair the device again.
+ * @returns socket IDs of the device's connected sockets (caller removes them from the room), or null if unknown
+ */
+export function revokeDevice(sid, deviceId) {
+  const session = sessions.get(sid);
+  if (!session?.devices?.[deviceId]) return null;
+  delete session.devices[deviceId];
+  session.revokedDevices = { ...session.revokedDevices, [deviceId]: Date.now() };
+  save();
+  const socketIds = [];
+  for (const [socketId, member] of members.get(sid) ?? []) {
+    if (member.deviceId === deviceId) socketIds.push(socketId);
+  }
+  for (const socketId of socketIds) leaveSession(sid, socketId);
+  return socketIds;
+}
+
+function publicSession(session) {
+  const connected = [...(members.get(session.sid)?.values() ?? [])];
+  const connectedDevices = new Set(connected.map((m) => m.deviceId).filter(Boolean));
+  return {
+    sid: session.sid,
+    ...(session.name && { name: session.name }),
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActiveAt,
+    dashboards: connected.filter((m) => m.role === 'dashboard').length,
+    scanners: connected.filter((m) => m.role === 'scanner').length,
+    devices: Object.entries(session.devices ?? {}).map(([deviceId, d]) => ({
+      deviceId,
+      ...(d.name && { name: d.name }),
+      pairedAt: d.pairedAt,
+      lastSeenAt: d.lastSeenAt,
+      connected: connectedDevices.has(deviceId),
+      ...(d.battery && { battery: d.battery }),
+    })),
+  };
+}
+
+/**
+ * Sessions the caller owns, with connected dashboard/scanner counts and paired devices, most recently active first.
+ * @param {Array<{ sid: string, key: string }>} credentials - owner keys held by the dashboard
+ */
+export function listSessions(credentials) {
+  const owned = new Set(
+    (Array.isArray(credentials) ? credentials : [])
+      .filter((c) => typeof c?.sid === 'string' && isOwnerKey(c.sid, c.key))
+      .map((c) => c.sid)
+  );
+  return [...sessions.values()]
+    .filter((s) => owned.has(s.sid))
+    .sort((a, b) => b.lastActiveAt - a.lastActiveAt)
+    .slice(0, MAX_LISTED)
+    .map(publicSession);
+}
@@ -0,0 +1,21 @@
+/**
+ * The shared package (packages/shared, TypeScript) loaded with jiti, so the server runs the same code as the
+ * scanners and dashboards (scan validation, scan export, label-format validation and sample checks, OCR
+ * provider names) instead of JS copies of it.
+ */
+import { createJiti } from 'jiti';
+
+const jiti = createJiti(import.meta.url);
+
+export const {
+  checkLabelFormatSample,
+  compileLabelFormat,
+  exportScans,
+  filterScans,
+  isOcrProviderName,
+  SCAN_EXPORT_FORMATS,
+  SCAN_EXPORT_MIME_TYPES,
+  scanEventError,
+  toScanEvent,
+  validateLabelFormats,
+} = await jiti.import('@scanning-poc/shared');
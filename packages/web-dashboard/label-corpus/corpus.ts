@@ -0,0 +1,170 @@
+/**
+ * Golden-sample corpus for label extraction: OCR text, Scandit field lists, GS1 strings and multi-frame OCR
+ * captures with the label JSON they must produce. runLabelCorpus runs every case through extractLabelFromOcr,
+ * scanditFieldsToLabelJson, both GS1 parsers (shared parseGs1ToLabelJson, dashboard parseBarcodeToData) and the
+ * scanner's region + consensus path, and reports per-format precision and recall, so a heuristic tuned for one
+ * manufacturer cannot silently break another. Run: npm run test:labels
+ */
+
+import {
+  combineRegionLabels,
+  extractLabelFromOcr,
+  extractRegionLabel,
+  ocrConsensus,
+  parseGs1ToLabelJson,
+  scanditFieldsToLabelJson,
+  type OcrRegionKind,
+  type ScanditField,
+} from '@scanning-poc/shared';
+import { parseBarcodeToData } from '../src/gs1Parse';
+import consensusJson from './consensus.json';
+import gs1Json from './gs1.json';
+import ocrJson from './ocr.json';
+import scanditJson from './scandit.json';
+
+/** Expected values by key; a key left out must come out empty */
+type Expected = Record<string, string | undefined>;
+
+type CorpusCase = {
+  id: string;
+  /** Label format (OCR / Scandit) or GS1 encoding the case belongs to; the report groups by it */
+  format: string;
+  note?: string;
+  expected: Expected;
+};
+
+type OcrCase = CorpusCase & { text: string };
+type ScanditCase = CorpusCase & { fields: ScanditField[] };
+type Gs1Case = CorpusCase & { input: string };
+/** Frames oldest first, each the text every capture region read */
+type ConsensusCase = CorpusCase & { frames: Partial<Record<OcrRegionKind, string>>[] };
+
+type Suite = {
+  name: string;
+  /** Keys compared for every case */
+  keys: string[];
+  cases: CorpusCase[];
+  run: (c: CorpusCase) => Expected;
+};
+
+type CaseResult = { suite: string; c: CorpusCase; actual: Expected; mismatched: string[] };
+
+/** Field counts for precision (found values that are right) and recall (expected values that were found) */
+type Tally = { cases: number; passed: number; correct: number; found: number; expected: number };
+
+const LABEL_KEYS = ['batch_no', 'lot_no', 'expiry', 'serial', 'ref'];
+const GS1_KEYS = ['batch_no', 'expiry', 'upc_gtin', 'serial', 'production_date', 'quantity', 'invalid_ais'];
+
+/** Label the scanner sends for the frames: each frame's regions combined, then the consensus over the frames */
+function consensusLabel(frames: ConsensusCase['frames']) {
+  const labels = frames.map((frame) => {
+    const reads = Object.entries(frame).map(([kind, text]) => ({
+      kind: kind as OcrRegionKind,
+      label: extractRegionLabel(kind as OcrRegionKind, text ?? '', extractLabelFromOcr),
+    }));
+    return reads.length === 1 ? reads[0].label : combineRegionLabels(reads).label;
+  });
+  return ocrConsensus(labels).label;
+}
+
+/** String fields of a result, with the AIs that failed validation as "01,17" */
+function pick(result: object | null, keys: string[], invalidAis: string[] = []): Expected {
+  const values = (result ?? {}) as Record<string, unknown>;
+  const out: Expected = {};
+  for (const key of keys) {
+    const value = key === 'invalid_ais' ? [...new Set(invalidAis)].sort().join(',') : values[key];
+    if (typeof value === 'string' && value.trim()) out[key] = value.trim();
+  }
+  return out;
+}
+
+const SUITES: Suite[] = [
+  {
+    name: 'OCR extractLabelFromOcr',
+    keys: LABEL_KEYS,
+    cases: ocrJson as OcrCase[],
+    run: (c) => pick(extractLabelFromOcr((c as OcrCase).text), LABEL_KEYS),
+  },
+  {
+    name: 'Scandit scanditFieldsToLabelJson',
+    keys: [...LABEL_KEYS, 'upc_gtin'],
+    cases: scanditJson as ScanditCase[],
+    run: (c) => pick(scanditFieldsToLabelJson((c as ScanditCase).fields).labelJson, [...LABEL_KEYS, 'upc_gtin']),
+  },
+  {
+    name: 'GS1 parseGs1ToLabelJson (shared)',
+    keys: GS1_KEYS,
+    cases: gs1Json as Gs1Case[],
+    run: (c) => {
+      const result = parseGs1ToLabelJson((c as Gs1Case).input);
+      return pick(result, GS1_KEYS, result?.validationErrors.map((e) => e.ai));
+    },
+  },
+  {
+    name: 'GS1 parseBarcodeToData (dashboard)',
+    keys: GS1_KEYS,
+    cases: gs1Json as Gs1Case[],
+    run: (c) => {
+      const data = parseBarcodeToData((c as Gs1Case).input);
+      return pick({ ...data, batch_no: data.batch }, GS1_KEYS, data.validationErrors?.map((e) => e.ai));
+    },
+  },
+  {
+    name: 'OCR frames ocrConsensus',
+    keys: [...LABEL_KEYS, 'upc_gtin'],
+    cases: consensusJson as ConsensusCase[],
+    run: (c) => pick(consensusLabel((c as ConsensusCase).frames), [...LABEL_KEYS, 'upc_gtin']),
+  },
+];
+
+function percent(n: number, of: number): string {
+  return of ? `${((n / of) * 100).toFixed(1)}%` : '—';
+}
+
+function tallyLine(label: string, t: Tally): string {
+  return `  ${label.padEnd(28)} ${`${t.passed}/${t.cases}`.padStart(6)}   precision ${percent(t.correct, t.found).padStart(6)}   recall ${percent(t.correct, t.expected).padStart(6)}`;
+}
+
+/** Run every corpus case; the report lists failures, then precision / recall per suite and format */
+export function runLabelCorpus(): { report: string; failed: number } {
+  const results: CaseResult[] = [];
+  const lines: string[] = [];
+
+  for (const suite of SUITES) {
+    const byFormat = new Map<string, Tally>();
+    const total: Tally = { cases: 0, passed: 0, correct: 0, found: 0, expected: 0 };
+    for (const c of suite.cases) {
+      let actual: Expected;
+      try {
+        actual = suite.run(c);
+      } catch (err) {
+        actual = { error: String(err) };
+      }
+      const mismatched = [...suite.keys, 'error'].filter((key) => (actual[key] ?? '') !== (c.expected[key] ?? ''));
+      results.push({ suite: suite.name, c, actual, mismatched });
+
+      const tally = byFormat.get(c.format) ?? { cases: 0, passed: 0, correct: 0, found: 0, expected: 0 };
+      for (const t of [tally, total]) {
+        t.cases += 1;
+        if (mismatched.length === 0) t.passed += 1;
+        for (const key of suite.keys) {
+          if (actual[key]) t.found += 1;
+          if (c.expected[key]) t.expected += 1;
+          if (actual[key] && actual[key] === c.expected[key]) t.correct += 1;
+        }
+      }
+      byFormat.set(c.format, tally);
+    }
+    lines.push(suite.name);
+    for (const [format, t] of [...byFormat].sort(([a], [b]) => a.localeCompare(b))) lines.push(tallyLine(format, t));
+    lines.push(tallyLine('all', total), '');
+  }
+
+  const failures = results.filter((r) => r.mismatched.length > 0);
+  const failureLines = failures.flatMap(({ suite, c, actual, mismatched }) => [
+    `FAIL ${suite} › ${c.id} (${c.format})${c.note ? ` — ${c.note}` : ''}`,
+    ...mismatched.map((key) => `  ${key}: expected ${JSON.stringify(c.expected[key] ?? '')}, got ${JSON.stringify(actual[key] ?? '')}`),
+  ]);
+  const summary = `${results.length - failures.length}/${results.length} cases passed`;
+  return { report: [...failureLines, ...(failureLines.length ? [''] : []), ...lines, summary].join('\n'), failed: failures.length };
+}
@@ -0,0 +1,11 @@
+/**
+ * Headless runner for the label-extraction corpus (corpus.ts). jiti (used by Rsbuild to load its config) runs
+ * the TypeScript sources directly, so no build step is needed. Exits with 1 when any case fails.
+ */
+import { createJiti } from 'jiti';
+
+const jiti = createJiti(import.meta.url);
+const { runLabelCorpus } = await jiti.import('./corpus.ts');
+const { report, failed } = runLabelCorpus();
+console.log(report);
+process.exitCode = failed ? 1 : 0;
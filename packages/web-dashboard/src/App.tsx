@@ -1,12 +1,108 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import {
   createSocketClient,
+  describeOcrCorrection,
+  describeOcrConsensusSummary,
+  describeOcrDecision,
+  describeOcrPreprocess,
+  describeOcrRegions,
+  exportScans,
+  filterScans,
   joinRoom,
+  leaveRoom,
+  listSessions,
+  lowConfidenceFields,
+  OCR_PROVIDERS_ENDPOINT,
   onBroadcastToDashboard,
-  type ScanPayload,
+  onPresence,
+  onScanReviewed,
+  requestHistory,
+  requestPairingToken,
+  REVIEWABLE_LABEL_KEYS,
+  reviewScan,
+  revokeDevice,
+  SCAN_EXPORT_FORMATS,
+  SCAN_EXPORT_MIME_TYPES,
+  SCANNER_OCR_PROVIDERS,
+  sendCommand,
+  toOcrProviderInfos,
+  type DevicePresence,
+  type LabelFieldEvidence,
+  type LabelOutputKey,
+  type OcrProviderInfo,
+  type PairedDevice,
+  type PairingToken,
+  type ReceivedScanEvent,
+  type ScanExportFilter,
+  type ScanExportFormat,
+  type ScanLabelFields,
+  type ScannerCommand,
+  type SendCommandResult,
+  type SessionInfo,
 } from '@scanning-poc/shared';
-import { parseBarcodeToData, type ParsedData } from './gs1Parse';
+import {
+  DEDUP_FIELDS,
+  dedupKey,
+  groupDuplicates,
+  loadDedupRule,
+  saveDedupRule,
+  type DedupField,
+  type DedupRule,
+  type DedupValues,
+} from './dedup';
+import {
+  evaluateExpiry,
+  loadExpiryRules,
+  playAlertSound,
+  saveExpiryRules,
+  type ExpiryAlert,
+  type ExpiryRules,
+} from './expiryRules';
+import { formatValidationError, parseBarcodeToData, type ParsedData } from './gs1Parse';
+import {
+  discrepancyReportCsv,
+  loadManifest,
+  parseManifest,
+  reconcile,
+  saveManifest,
+  type Manifest,
+  type ReconcileStatus,
+  type ScanMatchFields,
+} from './reconcile';
+import { LabelFormatEditor } from './LabelFormatEditor';
+import { loadReviewerName, saveReviewerName } from './reviewer';
+import {
+  createSid,
+  getCurrentSession,
+  getLocalSessions,
+  rememberSession,
+  setCurrentSession,
+  type LocalSession,
+} from './sessions';
+
+/** Human-readable outcome of a command for the Devices panel */
+function formatCommandResult(result: SendCommandResult, deviceNames: Map<string, string | undefined>): string {
+  if (!result.ok) return `Failed: ${result.error}`;
+  if (result.results.length === 0) return 'No scanner answered';
+  return result.results
+    .map((r) => {
+      const name = deviceNames.get(r.deviceId) || r.deviceId;
+      if (!r.ok) return `${name}: ${r.error}`;
+      return r.response ? `${name}: ${r.response}` : `${name}: done`;
+    })
+    .join(' · ');
+}
+
+/** Save an export through a temporary object URL */
+function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
 
 /** Socket server for mobile ↔ dashboard (packages/socket-server, port 4001) */
 const SOCKET_URL =
@@ -14,20 +110,36 @@ const SOCKET_URL =
     ? `${window.location.protocol}//${window.location.hostname}:4001`
     : 'http://localhost:4001';
 
-const SID = `dashboard-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+/** Choices for the set-ocr-provider command: Tesseract on the device, the server's engines, then hybrid */
+function ocrProviderChoices(server: OcrProviderInfo[]): OcrProviderInfo[] {
+  const scanner = (hybrid: boolean) => SCANNER_OCR_PROVIDERS.filter((p) => (p.name === 'hybrid') === hybrid);
+  return [...scanner(false), ...server.filter((p) => !SCANNER_OCR_PROVIDERS.some((s) => s.name === p.name)), ...scanner(true)];
+}
+
+/** How often the session list (connected scanners per session) is refreshed */
+const SESSIONS_REFRESH_MS = 15000;
+
+/** Fetch a new pairing token this long before the current one expires */
+const PAIRING_REFRESH_MARGIN_MS = 60000;
+
+/** Scans kept in the list (live + backfilled history) */
+const MAX_SCANS = 500;
+
+/** History page size when loading every stored scan for reconciliation (the server's maximum) */
+const RECONCILE_HISTORY_PAGE = 500;
 
-type ScanItem = (ScanPayload & { sid?: string }) & {
+type ScanItem = ReceivedScanEvent & {
   id: string;
   /** Frontend-style JSON: upc_gtin, type, batch?, expiry?, serial? (same keys as frontend Dashboard) */
   parsed?: ParsedData | null;
-  /** OCR label JSON: { batch_no, lot_no, expiry, upc_gtin? } when value is JSON string */
-  labelJson?: { batch_no: string; lot_no: string; expiry: string; upc_gtin?: string } | null;
+  /** Label JSON { batch_no, lot_no, expiry, upc_gtin? } from OCR or Scandit label capture */
+  labelJson?: ScanLabelFields | null;
   /** When OCR raw contains GS1/barcode, decoded for upc_gtin in JSON */
   ocrGs1Parsed?: ParsedData | null;
   parseError?: string;
 };
 
-/** Build display JSON with key-name pairs like frontend (upc_gtin, type, batch, expiry, serial). */
+/** Build display JSON with key-name pairs like frontend (upc_gtin, type, batch, expiry, serial, production_date, …). */
 function toDisplayJson(data: ParsedData): Record<string, string> {
   const json: Record<string, string> = {
     upc_gtin: data.upc_gtin,
@@ -36,77 +148,495 @@ function toDisplayJson(data: ParsedData): Record<string, string> {
   if (data.batch) json.batch = data.batch;
   if (data.expiry) json.expiry = data.expiry;
   if (data.serial) json.serial = data.serial;
+  if (data.production_date) json.production_date = data.production_date;
+  if (data.quantity) json.quantity = data.quantity;
+  if (data.additional_id) json.additional_id = data.additional_id;
+  if (data.expiry_time) json.expiry_time = data.expiry_time;
+  if (data.nhrn) json.nhrn = data.nhrn;
   return json;
 }
 
+/** Validation messages for every parsed source on the card (barcode, label JSON, GS1 in OCR raw), de-duplicated. */
+function validationMessages(item: ScanItem): string[] {
+  const errors = [
+    ...(item.parsed?.validationErrors ?? []),
+    ...(item.labelJson?.validationErrors ?? []),
+    ...(item.ocrGs1Parsed?.validationErrors ?? []),
+  ];
+  return [...new Set(errors.map(formatValidationError))];
+}
+
+/** Label JSON fields for display; validation problems, the parsed expiry, confidence and OCR corrections are shown separately. */
+function withoutValidation(labelJson: ScanItem['labelJson']): Record<string, unknown> {
+  if (!labelJson) return {};
+  const {
+    validationErrors: _validationErrors,
+    expiry_date: _expiryDate,
+    confidence: _confidence,
+    ocrCorrections: _ocrCorrections,
+    ...fields
+  } = labelJson;
+  return fields;
+}
+
+/** One review line per low-confidence field, e.g. 'batch_no "1234" 45% · lot_hash_exp_slash / Batch no (digits) …' */
+function reviewMessage(key: string, evidence: LabelFieldEvidence): string {
+  const source = `${evidence.formatId} / ${evidence.field}${evidence.match ? ` matched "${evidence.match.text}"` : ''}`;
+  const others = (evidence.candidates ?? [])
+    .map((c) => `"${c.value}" (${c.formatId} ${Math.round(c.confidence * 100)}%)`)
+    .join(', ');
+  return `${key} "${evidence.value}" ${Math.round(evidence.confidence * 100)}% · ${source}${others ? ` · also read ${others}` : ''}`;
+}
+
+/** Fields offered for review: batch, lot and expiry always, serial / ref when the label has them */
+function reviewKeys(label: ScanLabelFields): LabelOutputKey[] {
+  return REVIEWABLE_LABEL_KEYS.filter((key) => key === 'batch_no' || key === 'lot_no' || key === 'expiry' || label[key]);
+}
+
+/** Build a card from a live or stored scan; stored scans are keyed by their server seq so backfill de-duplicates. */
+function toScanItem(event: ReceivedScanEvent): ScanItem {
+  const item: ScanItem = {
+    ...event,
+    id: event.seq != null ? `seq-${event.seq}` : `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+  };
+  if (event.kind === 'barcode' || event.kind === 'gs1') {
+    try {
+      item.parsed = parseBarcodeToData(event.value);
+    } catch (e) {
+      item.parseError = e instanceof Error ? e.message : String(e);
+    }
+  } else {
+    if (event.label) item.labelJson = event.label;
+    if (event.raw && event.raw.length > 20) {
+      try {
+        let rawToParse = event.raw;
+        const barcodeLine = event.raw.match(/^Barcode:\s*(.+)$/m);
+        if (barcodeLine && barcodeLine[1].trim().length > 20) {
+          rawToParse = barcodeLine[1].trim();
+        }
+        const gs1 = parseBarcodeToData(rawToParse);
+        if (gs1.type === 'GS1_DATAMATRIX' || gs1.type === 'GS1_LINEAR') {
+          item.ocrGs1Parsed = gs1;
+        }
+      } catch {
+        /* ignore */
+      }
+    }
+  }
+  return item;
+}
+
+/** GTIN, lot and serial of a scan, from whichever source on the card has them (for semantic de-dup) */
+function dedupValues(item: ScanItem): DedupValues {
+  return {
+    gtin: item.parsed?.upc_gtin || item.labelJson?.upc_gtin || item.ocrGs1Parsed?.upc_gtin,
+    lot: item.parsed?.batch || item.labelJson?.lot_no || item.labelJson?.batch_no || item.ocrGs1Parsed?.batch,
+    serial: item.parsed?.serial || item.labelJson?.serial || item.ocrGs1Parsed?.serial,
+  };
+}
+
+/** GTIN, lot, expiry and GS1 quantity of a scan for matching against an expected-inventory manifest */
+function matchFields(item: ScanItem): ScanMatchFields {
+  const { gtin, lot } = dedupValues(item);
+  return {
+    gtin,
+    lot,
+    expiry: item.parsed?.expiry || item.labelJson?.expiry || item.ocrGs1Parsed?.expiry,
+    quantity: item.parsed?.quantity || item.labelJson?.quantity || item.ocrGs1Parsed?.quantity,
+  };
+}
+
+/** Card border per expiry alert level */
+const EXPIRY_COLORS: Record<ExpiryAlert['level'], string> = { expired: '#dc2626', soon: '#ca8a04', window: '#ea580c' };
+
+type ReconcileView = ReconcileStatus | 'unexpected';
+
+const RECONCILE_VIEWS: Array<{ view: ReconcileView; label: string }> = [
+  { view: 'matched', label: 'Matched' },
+  { view: 'unexpected', label: 'Unexpected' },
+  { view: 'over', label: 'Over-count' },
+  { view: 'missing', label: 'Missing' },
+];
+
+function scanTime(item: ScanItem): number {
+  return item.receivedAt ?? item.timestamp;
+}
+
+/** Paired devices from the session list, updated with live presence events */
+function mergePresence(devices: PairedDevice[], presence: Record<string, DevicePresence>): PairedDevice[] {
+  const byId = new Map(devices.map((d) => [d.deviceId, d]));
+  for (const p of Object.values(presence)) {
+    const known = byId.get(p.deviceId);
+    byId.set(p.deviceId, {
+      deviceId: p.deviceId,
+      name: p.name ?? known?.name,
+      pairedAt: known?.pairedAt ?? p.lastSeenAt,
+      lastSeenAt: Math.max(p.lastSeenAt, known?.lastSeenAt ?? 0),
+      connected: p.online,
+      battery: p.battery ?? known?.battery,
+    });
+  }
+  return [...byId.values()].sort((a, b) => Number(b.connected) - Number(a.connected) || b.lastSeenAt - a.lastSeenAt);
+}
+
+function formatBattery(battery: PairedDevice['battery']): string | null {
+  if (!battery) return null;
+  return `${Math.round(battery.level * 100)}%${battery.charging ? ' ⚡' : ''}`;
+}
+
+const DEDUP_FIELD_LABELS: Record<DedupField, string> = { gtin: 'GTIN', lot: 'Lot', serial: 'Serial' };
+
+/** Merge new items into the list (replacing same id), newest first, capped at `limit`. */
+function mergeScans(prev: ScanItem[], incoming: ScanItem[], limit = MAX_SCANS): ScanItem[] {
+  const byId = new Map(prev.map((item) => [item.id, item]));
+  for (const item of incoming) byId.set(item.id, item);
+  return [...byId.values()]
+    .sort((a, b) => (b.receivedAt ?? b.timestamp) - (a.receivedAt ?? a.timestamp))
+    .slice(0, limit);
+}
+
+/** The list with a stored scan's reviewed label and review applied */
+function withReview(items: ScanItem[], seq: number, label: ScanItem['labelJson'], review: ScanItem['review']): ScanItem[] {
+  return items.map((item) => (item.seq === seq ? { ...item, labelJson: label, review } : item));
+}
+
+/** Local and server sessions merged for the picker, most recently active first. */
+function sessionOptions(local: LocalSession[], server: SessionInfo[]): Array<LocalSession & Partial<SessionInfo>> {
+  const bySid = new Map<string, LocalSession & Partial<SessionInfo>>();
+  for (const s of local) bySid.set(s.sid, s);
+  for (const s of server) bySid.set(s.sid, { ...s, name: bySid.get(s.sid)?.name || s.name });
+  return [...bySid.values()].sort(
+    (a, b) => (b.lastActiveAt ?? b.createdAt) - (a.lastActiveAt ?? a.createdAt)
+  );
+}
+
 export default function App() {
+  const [session, setSession] = useState<LocalSession>(() => getCurrentSession());
+  const [localSessions, setLocalSessions] = useState<LocalSession[]>(() => getLocalSessions());
+  const [serverSessions, setServerSessions] = useState<SessionInfo[]>([]);
+  const [newSessionName, setNewSessionName] = useState('');
+  /** Why the dashboard could not join the current session (e.g. owned by another browser) */
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [pairing, setPairing] = useState<PairingToken | null>(null);
+  /** Latest presence per device ID in the current session */
+  const [presence, setPresence] = useState<Record<string, DevicePresence>>({});
   const [scans, setScans] = useState<ScanItem[]>([]);
   const [connected, setConnected] = useState(false);
+  /** Cursor for the next older history page; null when everything stored is loaded */
+  const [olderBefore, setOlderBefore] = useState<number | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [dedupRule, setDedupRule] = useState<DedupRule>(() => loadDedupRule());
+  /** Expected-inventory manifest of the current session (reconciliation mode when set) */
+  const [manifest, setManifest] = useState<Manifest | null>(() => loadManifest(getCurrentSession().sid));
+  const [manifestError, setManifestError] = useState<string | null>(null);
+  const [reconcileView, setReconcileView] = useState<ReconcileView>('missing');
+  /** Every stored scan of the session while a manifest is loaded (scans is capped); null until loaded */
+  const [allScans, setAllScans] = useState<ScanItem[] | null>(null);
+  const [expiryRules, setExpiryRules] = useState<ExpiryRules>(() => loadExpiryRules());
+  /** Latest flagged live scan, shown as a banner until dismissed */
+  const [expiryBanner, setExpiryBanner] = useState<(ExpiryAlert & { device: string }) | null>(null);
+  /** Narrows the list and the export (device and text search) */
+  const [scanFilter, setScanFilter] = useState<ScanExportFilter>({});
+  /** Device ID commands go to; empty means every scanner in the session */
+  const [commandTarget, setCommandTarget] = useState('');
+  const [commandText, setCommandText] = useState('');
+  /** Comma-separated answers for a prompt (default OK) */
+  const [promptOptions, setPromptOptions] = useState('');
+  const [commandStatus, setCommandStatus] = useState<string | null>(null);
+  const [showFormatEditor, setShowFormatEditor] = useState(false);
+  /** OCR engines scanners can be switched to (the server's list is fetched once) */
+  const [ocrProviders, setOcrProviders] = useState<OcrProviderInfo[]>(() => ocrProviderChoices([]));
+  const [reviewer, setReviewer] = useState(() => loadReviewerName());
+  /** Scan whose fields are being corrected (one card at a time) */
+  const [editing, setEditing] = useState<{ seq: number; fields: Partial<Record<LabelOutputKey, string>> } | null>(null);
+  const [reviewStatus, setReviewStatus] = useState<{ seq: number; text: string } | null>(null);
   const socket = useMemo(() => createSocketClient(SOCKET_URL), []);
+  const sid = session.sid;
+
+  const refreshSessions = useCallback(() => {
+    if (!socket.connected) return;
+    const credentials = getLocalSessions().flatMap((s) => (s.key ? [{ sid: s.sid, key: s.key }] : []));
+    listSessions(socket, credentials)
+      .then(setServerSessions)
+      .catch((err) => console.warn('Session list failed', err));
+  }, [socket]);
+
+  const refreshPairing = useCallback(() => {
+    requestPairingToken(socket, sid)
+      .then(setPairing)
+      .catch((err) => {
+        console.warn('Pairing token request failed', err);
+        setPairing(null);
+      });
+  }, [socket, sid]);
+
+  /** Expiry alert for live scans (not backfilled history); a ref so the socket subscription sees current rules */
+  const liveScanRef = useRef<(item: ScanItem) => void>(() => {});
 
   useEffect(() => {
+    setScans([]);
+    setOlderBefore(null);
+    setPairing(null);
+    setPresence({});
+    setSessionError(null);
+    setManifest(loadManifest(session.sid));
+    setManifestError(null);
+    /** Join the room as its owner, then backfill stored scans (after a refresh, reconnect or server restart) */
+    const joinAndBackfill = async () => {
+      const key = getLocalSessions().find((s) => s.sid === session.sid)?.key;
+      const result = await joinRoom(socket, session.sid, { role: 'dashboard', name: session.name, key });
+      if (!result.ok) {
+        setSessionError(result.error);
+        return;
+      }
+      if (result.key) setLocalSessions(rememberSession({ sid: session.sid, createdAt: session.createdAt, key: result.key }));
+      setSessionError(null);
+      refreshPairing();
+      requestHistory(socket, session.sid)
+        .then((page) => {
+          setScans((prev) => mergeScans(prev, page.scans.map(toScanItem)));
+          setOlderBefore(page.nextBefore);
+        })
+        .catch((err) => console.warn('Scan history backfill failed', err));
+      refreshSessions();
+    };
     socket.on('connect', () => {
       setConnected(true);
-      joinRoom(socket, SID);
+      joinAndBackfill();
     });
     socket.on('disconnect', () => setConnected(false));
-    if (socket.connected) joinRoom(socket, SID);
-    const unsubscribe = onBroadcastToDashboard(socket, (payload) => {
-      const item: ScanItem = {
-        ...payload,
-        id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-      };
-      if (payload.type === 'barcode' && payload.value) {
-        try {
-          item.parsed = parseBarcodeToData(payload.value);
-        } catch (e) {
-          item.parseError = e instanceof Error ? e.message : String(e);
-        }
-      }
-      if (payload.type === 'ocr' && payload.value) {
-        try {
-          const parsed = JSON.parse(payload.value) as unknown;
-          if (
-            parsed &&
-            typeof parsed === 'object' &&
-            'batch_no' in parsed &&
-            'lot_no' in parsed &&
-            'expiry' in parsed
-          ) {
-            item.labelJson = parsed as { batch_no: string; lot_no: string; expiry: string; upc_gtin?: string };
-          }
-        } catch {
-          /* value is plain text, not JSON */
-        }
-        if (payload.raw && payload.raw.length > 20) {
-          try {
-            let rawToParse = payload.raw;
-            const barcodeLine = payload.raw.match(/^Barcode:\s*(.+)$/m);
-            if (barcodeLine && barcodeLine[1].trim().length > 20) {
-              rawToParse = barcodeLine[1].trim();
-            }
-            const gs1 = parseBarcodeToData(rawToParse);
-            if (gs1.type === 'GS1_DATAMATRIX' || gs1.type === 'GS1_LINEAR') {
-              item.ocrGs1Parsed = gs1;
-            }
-          } catch {
-            /* ignore */
-          }
-        }
-      }
-      setScans((prev) => [item, ...prev].slice(0, 200));
+    if (socket.connected) joinAndBackfill();
+    const unsubscribe = onBroadcastToDashboard(socket, (event) => {
+      if (event.sid && event.sid !== session.sid) return;
+      const item = toScanItem(event);
+      setScans((prev) => mergeScans(prev, [item]));
+      setAllScans((prev) => prev && mergeScans(prev, [item], Infinity));
+      liveScanRef.current(item);
+    });
+    const offPresence = onPresence(socket, (update) => {
+      if (update.sid !== session.sid) return;
+      setPresence((prev) => ({ ...prev, [update.deviceId]: update }));
+    });
+    const offReviewed = onScanReviewed(socket, (event) => {
+      if (event.sid !== session.sid) return;
+      setScans((prev) => withReview(prev, event.seq, event.label, event.review));
+      setAllScans((prev) => prev && withReview(prev, event.seq, event.label, event.review));
     });
     return () => {
       unsubscribe();
+      offPresence();
+      offReviewed();
       socket.off('connect');
       socket.off('disconnect');
+      leaveRoom(socket, session.sid);
     };
-  }, [socket]);
+  }, [socket, session, refreshSessions, refreshPairing]);
+
+  useEffect(() => {
+    fetch(`${SOCKET_URL}${OCR_PROVIDERS_ENDPOINT}`)
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error(response.statusText))))
+      .then((data) => setOcrProviders(ocrProviderChoices(toOcrProviderInfos(data))))
+      .catch((err) => console.warn('OCR provider list failed', err));
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(refreshSessions, SESSIONS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [refreshSessions]);
+
+  /** Keep the QR valid: fetch a fresh pairing token shortly before the current one expires */
+  useEffect(() => {
+    if (!pairing) return;
+    const delay = Math.max(pairing.expiresAt - Date.now() - PAIRING_REFRESH_MARGIN_MS, 5000);
+    const timer = setTimeout(refreshPairing, delay);
+    return () => clearTimeout(timer);
+  }, [pairing, refreshPairing]);
+
+  /** Revoke a device; the QR code is renewed, since tokens issued before the revocation cannot pair it again */
+  const revoke = (deviceId: string) => {
+    revokeDevice(socket, sid, deviceId)
+      .then(() => {
+        refreshSessions();
+        refreshPairing();
+      })
+      .catch((err) => console.warn('Revoke failed', err));
+  };
+
+  /** Switch to another session; it is stored so a reload resumes it. */
+  const openSession = (next: LocalSession) => {
+    setCurrentSession(next);
+    setLocalSessions(getLocalSessions());
+    setSession(next);
+  };
+
+  const createSession = () => {
+    const name = newSessionName.trim();
+    openSession({ sid: createSid(), createdAt: Date.now(), ...(name && { name }) });
+    setNewSessionName('');
+  };
+
+  const options = sessionOptions(localSessions, serverSessions);
+  const filteredScans = useMemo(() => filterScans(scans, scanFilter), [scans, scanFilter]);
+  const groups = useMemo(
+    () => groupDuplicates(filteredScans, dedupRule, (item) => dedupKey(dedupRule, dedupValues(item)), scanTime),
+    [filteredScans, dedupRule]
+  );
+
+  /** Export the scans shown (all loaded scans of the session, narrowed by the filter; duplicates are not collapsed) */
+  const exportShown = (format: ScanExportFormat) => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    downloadFile(
+      `scans-${session.name || sid}-${stamp}.${format}`,
+      exportScans(filteredScans, format),
+      SCAN_EXPORT_MIME_TYPES[format]
+    );
+  };
+
+  const reconciling = manifest != null;
+  /** Reconciliation counts the whole history: page through every stored scan while a manifest is loaded */
+  useEffect(() => {
+    setAllScans(null);
+    if (!reconciling || !connected) return;
+    let cancelled = false;
+    const loadAll = async () => {
+      const items: ScanItem[] = [];
+      let before: number | undefined;
+      do {
+        const page = await requestHistory(socket, sid, { limit: RECONCILE_HISTORY_PAGE, before });
+        items.push(...page.scans.map(toScanItem));
+        before = page.nextBefore ?? undefined;
+      } while (before != null && !cancelled);
+      if (!cancelled) setAllScans(mergeScans([], items, Infinity));
+    };
+    loadAll().catch((err) => console.warn('Loading the scan history for reconciliation failed', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [socket, sid, reconciling, connected]);
+
+  /** Loaded history plus the live list (which has scans that arrived while the history was loading) */
+  const reconciliation = useMemo(
+    () => (manifest ? reconcile(manifest, allScans ? mergeScans(allScans, scans, Infinity) : scans, matchFields) : null),
+    [manifest, allScans, scans]
+  );
+
+  /** OCR and label-capture text of recent scans, to try label formats on */
+  const capturedTexts = useMemo(
+    () =>
+      scans
+        .flatMap((s) => {
+          const text = s.kind === 'ocr-text' ? s.raw || s.text : s.kind === 'label' ? s.raw : undefined;
+          if (!text?.trim()) return [];
+          const time = new Date(s.timestamp).toLocaleTimeString();
+          return [{ id: s.id, label: `${time} · ${s.kind} · ${text.replace(/\s+/g, ' ').slice(0, 50)}`, text }];
+        })
+        .slice(0, 50),
+    [scans]
+  );
+
+  const uploadManifest = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const result = parseManifest(file.name, text);
+        if ('error' in result) {
+          setManifestError(result.error);
+          return;
+        }
+        saveManifest(sid, result.manifest);
+        setManifest(result.manifest);
+        setManifestError(result.skipped ? `${result.skipped} rows without GTIN or lot were skipped` : null);
+      })
+      .catch((err) => setManifestError(err instanceof Error ? err.message : String(err)));
+  };
+
+  const clearManifest = () => {
+    saveManifest(sid, null);
+    setManifest(null);
+    setManifestError(null);
+  };
+
+  liveScanRef.current = (item) => {
+    const alert = evaluateExpiry(expiryRules, matchFields(item).expiry);
+    if (!alert) return;
+    const device = item.deviceName || deviceNames.get(item.deviceId) || item.deviceId;
+    setExpiryBanner({ ...alert, device });
+    if (expiryRules.sound) playAlertSound(alert.level);
+    if (expiryRules.notifyScanner && item.deviceId) {
+      const text = `${alert.message}: set this item aside`;
+      sendCommand(socket, sid, { type: 'show-message', text, level: alert.level === 'expired' ? 'error' : 'warning' }, item.deviceId).then(
+        (result) => {
+          if (!result.ok) console.warn('Expiry warning not delivered to scanner', result.error);
+        }
+      );
+    }
+  };
+
+  const updateExpiryRules = (rules: ExpiryRules) => {
+    saveExpiryRules(rules);
+    setExpiryRules(rules);
+  };
+
+  const updateDedupRule = (rule: DedupRule) => {
+    saveDedupRule(rule);
+    setDedupRule(rule);
+  };
+  const devices = useMemo(
+    () => mergePresence(serverSessions.find((s) => s.sid === sid)?.devices ?? [], presence),
+    [serverSessions, sid, presence]
+  );
+  const deviceNames = useMemo(() => new Map(devices.map((d) => [d.deviceId, d.name])), [devices]);
+  const deviceConnected = useMemo(() => new Set(devices.filter((d) => d.connected).map((d) => d.deviceId)), [devices]);
+
+  /** Save corrections and/or approve a stored scan; the update arrives for every dashboard as 'scan-reviewed' */
+  const submitReview = (seq: number, fields: Partial<Record<LabelOutputKey, string>>, approve: boolean) => {
+    setReviewStatus({ seq, text: 'Saving…' });
+    reviewScan(socket, sid, seq, { fields, approve, editor: reviewer.trim() || loadReviewerName() }).then((result) => {
+      if (!result.ok) {
+        setReviewStatus({ seq, text: result.error });
+        return;
+      }
+      setScans((prev) => withReview(prev, seq, result.label, result.review));
+      setAllScans((prev) => prev && withReview(prev, seq, result.label, result.review));
+      setEditing((current) => (current?.seq === seq ? null : current));
+      setReviewStatus(null);
+    });
+  };
+
+  const runCommand = (command: ScannerCommand, deviceId: string | undefined = commandTarget || undefined) => {
+    setCommandStatus(command.type === 'prompt' ? 'Waiting for an answer…' : 'Sending…');
+    sendCommand(socket, sid, command, deviceId).then((result) =>
+      setCommandStatus(`${command.type}: ${formatCommandResult(result, deviceNames)}`)
+    );
+  };
 
-  /** URL to open on phone: mobile-scanner app with this room's sid (dev: port 3002) */
+  const sendText = (type: 'show-message' | 'prompt') => {
+    const text = commandText.trim();
+    if (!text) return;
+    const options = promptOptions
+      .split(',')
+      .map((o) => o.trim())
+      .filter(Boolean);
+    runCommand(type === 'prompt' ? { type, text, ...(options.length && { options }) } : { type, text });
+    setCommandText('');
+  };
+
+  const loadOlder = useCallback(() => {
+    if (olderBefore == null) return;
+    setLoadingOlder(true);
+    requestHistory(socket, sid, { before: olderBefore })
+      .then((page) => {
+        setScans((prev) => mergeScans(prev, page.scans.map(toScanItem)));
+        setOlderBefore(page.nextBefore);
+      })
+      .catch((err) => console.warn('Loading older scans failed', err))
+      .finally(() => setLoadingOlder(false));
+  }, [socket, sid, olderBefore]);
+
+  /** URL to open on phone: mobile-scanner app with this room's sid and pairing token (dev: port 3002) */
   const mobileScannerUrl =
-    typeof window !== 'undefined'
-      ? `${window.location.protocol}//${window.location.hostname}:3002?sid=${encodeURIComponent(SID)}`
+    typeof window !== 'undefined' && pairing
+      ? `${window.location.protocol}//${window.location.hostname}:3002?sid=${encodeURIComponent(sid)}&token=${encodeURIComponent(pairing.token)}`
       : '';
 
   return (
@@ -118,64 +648,625 @@ export default function App() {
         </span>
       </header>
 
+      <section style={styles.section}>
+        <h2 style={styles.sectionTitle}>Session</h2>
+        <p style={styles.hint}>
+          The session is kept across reloads; paired phones rejoin it automatically.
+        </p>
+        <div style={styles.sessionRow}>
+          <select
+            style={styles.select}
+            value={sid}
+            onChange={(e) => {
+              const picked = options.find((s) => s.sid === e.target.value);
+              if (picked) openSession({ sid: picked.sid, name: picked.name, createdAt: picked.createdAt });
+            }}
+          >
+            {options.map((s) => (
+              <option key={s.sid} value={s.sid}>
+                {s.name || s.sid}
+                {s.scanners ? ` · ${s.scanners} scanner${s.scanners > 1 ? 's' : ''}` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={styles.sessionRow}>
+          <input
+            type="text"
+            placeholder="New session name (e.g. Morning shift)"
+            value={newSessionName}
+            onChange={(e) => setNewSessionName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && createSession()}
+            style={styles.input}
+          />
+          <button type="button" style={styles.button} onClick={createSession}>
+            New session
+          </button>
+        </div>
+        {sessionError && (
+          <p style={styles.sessionError}>
+            Cannot open this session: {sessionError}. Pick another session or create a new one.
+          </p>
+        )}
+      </section>
+
       <section style={styles.section}>
         <h2 style={styles.sectionTitle}>Scanner link (QR)</h2>
-        <p style={styles.hint}>Open this on your phone and join room: {SID}</p>
-        <div style={styles.qrWrap}>
-          <QRCodeSVG value={mobileScannerUrl || 'https://example.com'} size={220} level="M" />
+        <p style={styles.hint}>Scan this with your phone to pair it with room: {sid}</p>
+        {pairing ? (
+          <>
+            <div style={styles.qrWrap}>
+              <QRCodeSVG value={mobileScannerUrl} size={220} level="M" />
+            </div>
+            <p style={styles.mono}>{mobileScannerUrl}</p>
+            <p style={styles.hint}>
+              Pairing code valid until {new Date(pairing.expiresAt).toLocaleTimeString()}; it renews automatically.
+            </p>
+          </>
+        ) : (
+          <p style={styles.empty}>{connected ? 'Requesting pairing code…' : 'Waiting for socket server…'}</p>
+        )}
+      </section>
+
+      <section style={styles.section}>
+        <h2 style={styles.sectionTitle}>Devices</h2>
+        {devices.length === 0 ? (
+          <p style={styles.empty}>No scanners paired with this session yet.</p>
+        ) : (
+          <ul style={styles.deviceList}>
+            {devices.map((d) => (
+              <li key={d.deviceId} style={styles.deviceRow}>
+                <span style={d.connected ? styles.deviceOnline : styles.deviceOffline}>●</span>
+                <span style={styles.deviceName} title={d.deviceId}>
+                  {d.name || d.deviceId}
+                </span>
+                <span style={styles.sid}>
+                  {d.connected ? 'online' : 'offline'} · last seen {new Date(d.lastSeenAt).toLocaleTimeString()}
+                </span>
+                {formatBattery(d.battery) && <span style={styles.sid}>🔋 {formatBattery(d.battery)}</span>}
+                <button type="button" style={styles.revokeButton} onClick={() => revoke(d.deviceId)}>
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {devices.some((d) => d.connected) && (
+          <div style={styles.commandPanel}>
+            <div style={styles.sessionRow}>
+              <select value={commandTarget} onChange={(e) => setCommandTarget(e.target.value)} style={styles.select}>
+                <option value="">All scanners</option>
+                {devices
+                  .filter((d) => d.connected)
+                  .map((d) => (
+                    <option key={d.deviceId} value={d.deviceId}>
+                      {d.name || d.deviceId}
+                    </option>
+                  ))}
+              </select>
+              <select
+                value=""
+                onChange={(e) => e.target.value && runCommand({ type: 'set-ocr-provider', provider: e.target.value })}
+                style={styles.select}
+              >
+                <option value="">OCR provider…</option>
+                {ocrProviders.map((p) => (
+                  <option key={p.name} value={p.name}>
+                    {p.configured ? p.label : `${p.label} (not configured)`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={styles.sessionRow}>
+              <button type="button" style={styles.commandButton} onClick={() => runCommand({ type: 'start-label-capture' })}>
+                Label capture
+              </button>
+              <button type="button" style={styles.commandButton} onClick={() => runCommand({ type: 'set-mode', mode: 'barcode' })}>
+                Barcode
+              </button>
+              <button type="button" style={styles.commandButton} onClick={() => runCommand({ type: 'set-mode', mode: 'ocr' })}>
+                OCR
+              </button>
+              <button type="button" style={styles.commandButton} onClick={() => runCommand({ type: 'set-mode', mode: null })}>
+                Stop camera
+              </button>
+            </div>
+            <div style={styles.sessionRow}>
+              <input
+                value={commandText}
+                onChange={(e) => setCommandText(e.target.value)}
+                placeholder="Message or question for the operator"
+                style={styles.input}
+              />
+              <input
+                value={promptOptions}
+                onChange={(e) => setPromptOptions(e.target.value)}
+                placeholder="Answers, e.g. Yes, No"
+                style={styles.input}
+              />
+              <button type="button" style={styles.commandButton} onClick={() => sendText('show-message')}>
+                Message
+              </button>
+              <button type="button" style={styles.commandButton} onClick={() => sendText('prompt')}>
+                Ask
+              </button>
+            </div>
+            {commandStatus && <p style={styles.sid}>{commandStatus}</p>}
+          </div>
+        )}
+      </section>
+
+      <section style={styles.section}>
+        <h2 style={styles.sectionTitle}>Reconciliation</h2>
+        <div style={styles.sessionRow}>
+          <label style={styles.commandButton}>
+            {manifest ? 'Replace manifest…' : 'Upload expected list (CSV / JSON)…'}
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadManifest(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {manifest && reconciliation && (
+            <>
+              <button
+                type="button"
+                style={styles.commandButton}
+                onClick={() =>
+                  downloadFile(
+                    `discrepancies-${session.name || sid}.csv`,
+                    discrepancyReportCsv(reconciliation),
+                    'text/csv;charset=utf-8'
+                  )
+                }
+              >
+                Discrepancy report
+              </button>
+              <button type="button" style={styles.commandButton} onClick={clearManifest}>
+                Clear
+              </button>
+            </>
+          )}
         </div>
-        <p style={styles.mono}>{mobileScannerUrl}</p>
+        {manifestError && <p style={styles.sessionError}>{manifestError}</p>}
+        {!manifest || !reconciliation ? (
+          <p style={styles.empty}>
+            Upload a manifest with gtin, lot, expiry and qty columns to check scans against it.
+          </p>
+        ) : (
+          <>
+            <p style={styles.sid}>
+              {manifest.name}: {manifest.items.length} lines, {manifest.items.reduce((n, i) => n + i.qty, 0)} units expected
+              {reconciliation.unidentified.length > 0 && ` · ${reconciliation.unidentified.length} scans without GTIN or lot`}
+              {!allScans && olderBefore != null && ' · counting loaded scans until the full history is in'}
+            </p>
+            <div style={styles.sessionRow}>
+              {RECONCILE_VIEWS.map(({ view, label }) => {
+                const count =
+                  view === 'unexpected'
+                    ? reconciliation.unexpected.length
+                    : reconciliation.lines.filter((l) => l.status === view).length;
+                return (
+                  <button
+                    key={view}
+                    type="button"
+                    style={view === reconcileView ? { ...styles.commandButton, ...styles.viewActive } : styles.commandButton}
+                    onClick={() => setReconcileView(view)}
+                  >
+                    {label} ({count})
+                  </button>
+                );
+              })}
+            </div>
+            <table style={styles.reconcileTable}>
+              <thead>
+                <tr>
+                  <th style={styles.reconcileCell}>GTIN</th>
+                  <th style={styles.reconcileCell}>Lot</th>
+                  <th style={styles.reconcileCell}>Expiry</th>
+                  <th style={styles.reconcileCell}>{reconcileView === 'unexpected' ? 'Device' : 'Expected'}</th>
+                  <th style={styles.reconcileCell}>{reconcileView === 'unexpected' ? 'Reason' : 'Scanned'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reconcileView === 'unexpected'
+                  ? reconciliation.unexpected.map(({ scan, fields, reason }) => (
+                      <tr key={scan.id}>
+                        <td style={styles.reconcileCell}>{fields.gtin ?? '—'}</td>
+                        <td style={styles.reconcileCell}>{fields.lot ?? '—'}</td>
+                        <td style={styles.reconcileCell}>{fields.expiry ?? '—'}</td>
+                        <td style={styles.reconcileCell}>
+                          {scan.deviceName || deviceNames.get(scan.deviceId) || scan.deviceId}
+                        </td>
+                        <td style={styles.reconcileCell}>{reason}</td>
+                      </tr>
+                    ))
+                  : reconciliation.lines
+                      .filter((l) => l.status === reconcileView)
+                      .map(({ item, scanned }, i) => (
+                        <tr key={`${item.gtin}-${item.lot}-${item.expiry}-${i}`}>
+                          <td style={styles.reconcileCell}>{item.gtin ?? '—'}</td>
+                          <td style={styles.reconcileCell}>{item.lot ?? '—'}</td>
+                          <td style={styles.reconcileCell}>{item.expiry ?? '—'}</td>
+                          <td style={styles.reconcileCell}>{item.qty}</td>
+                          <td style={styles.reconcileCell}>{scanned}</td>
+                        </tr>
+                      ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </section>
+
+      <section style={styles.section}>
+        <div style={{ ...styles.sessionRow, alignItems: 'center' }}>
+          <h2 style={{ ...styles.sectionTitle, margin: 0 }}>Label formats</h2>
+          <button type="button" style={styles.commandButton} onClick={() => setShowFormatEditor((v) => !v)}>
+            {showFormatEditor ? 'Hide editor' : 'Edit formats'}
+          </button>
+        </div>
+        {showFormatEditor && (
+          <div style={{ marginTop: 12 }}>
+            <LabelFormatEditor socket={socket} sid={sid} socketUrl={SOCKET_URL} capturedTexts={capturedTexts} />
+          </div>
+        )}
       </section>
 
       <section style={styles.section}>
         <h2 style={styles.sectionTitle}>Live scans</h2>
+        <div style={styles.dedupRow}>
+          <span>Collapse duplicates (same</span>
+          {DEDUP_FIELDS.map((field) => (
+            <label key={field} style={styles.dedupField}>
+              <input
+                type="checkbox"
+                checked={dedupRule.fields.includes(field)}
+                onChange={(e) =>
+                  updateDedupRule({
+                    ...dedupRule,
+                    fields: e.target.checked
+                      ? DEDUP_FIELDS.filter((f) => f === field || dedupRule.fields.includes(f))
+                      : dedupRule.fields.filter((f) => f !== field),
+                  })
+                }
+              />
+              {DEDUP_FIELD_LABELS[field]}
+            </label>
+          ))}
+          <span>) within</span>
+          <input
+            type="number"
+            min={0}
+            value={dedupRule.windowMinutes}
+            onChange={(e) => updateDedupRule({ ...dedupRule, windowMinutes: Math.max(Number(e.target.value) || 0, 0) })}
+            style={styles.dedupMinutes}
+          />
+          <span>min (0 = off)</span>
+        </div>
+        <div style={styles.dedupRow}>
+          <span>Expiry alerts:</span>
+          <label style={styles.dedupField}>
+            <input
+              type="checkbox"
+              checked={expiryRules.expired}
+              onChange={(e) => updateExpiryRules({ ...expiryRules, expired: e.target.checked })}
+            />
+            expired
+          </label>
+          <span>· within</span>
+          <input
+            type="number"
+            min={0}
+            value={expiryRules.withinDays}
+            onChange={(e) => updateExpiryRules({ ...expiryRules, withinDays: Math.max(Number(e.target.value) || 0, 0) })}
+            style={styles.dedupMinutes}
+          />
+          <span>days (0 = off) · window</span>
+          <input
+            type="date"
+            value={expiryRules.windowFrom}
+            onChange={(e) => updateExpiryRules({ ...expiryRules, windowFrom: e.target.value })}
+            style={styles.dedupDate}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={expiryRules.windowTo}
+            onChange={(e) => updateExpiryRules({ ...expiryRules, windowTo: e.target.value })}
+            style={styles.dedupDate}
+          />
+          <label style={styles.dedupField}>
+            <input
+              type="checkbox"
+              checked={expiryRules.sound}
+              onChange={(e) => updateExpiryRules({ ...expiryRules, sound: e.target.checked })}
+            />
+            sound
+          </label>
+          <label style={styles.dedupField}>
+            <input
+              type="checkbox"
+              checked={expiryRules.notifyScanner}
+              onChange={(e) => updateExpiryRules({ ...expiryRules, notifyScanner: e.target.checked })}
+            />
+            warn phone
+          </label>
+        </div>
+        {expiryBanner && (
+          <div style={{ ...styles.expiryBanner, ...styles[`expiry_${expiryBanner.level}`] }}>
+            <span>
+              {expiryBanner.message} · scanned by {expiryBanner.device}
+            </span>
+            <button type="button" style={styles.bannerDismiss} onClick={() => setExpiryBanner(null)}>
+              ✕
+            </button>
+          </div>
+        )}
+        <div style={styles.sessionRow}>
+          <select
+            value={scanFilter.deviceId ?? ''}
+            onChange={(e) => setScanFilter({ ...scanFilter, deviceId: e.target.value || undefined })}
+            style={styles.select}
+          >
+            <option value="">All devices</option>
+            {devices.map((d) => (
+              <option key={d.deviceId} value={d.deviceId}>
+                {d.name || d.deviceId}
+              </option>
+            ))}
+          </select>
+          <input
+            value={scanFilter.query ?? ''}
+            onChange={(e) => setScanFilter({ ...scanFilter, query: e.target.value || undefined })}
+            placeholder="Search GTIN, lot, serial…"
+            style={styles.input}
+          />
+          {SCAN_EXPORT_FORMATS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              style={styles.commandButton}
+              onClick={() => exportShown(format)}
+              disabled={filteredScans.length === 0}
+              title={`Export ${filteredScans.length} scans${olderBefore != null ? ' (load older scans to include them)' : ''}`}
+            >
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
         <div style={styles.list}>
           {scans.length === 0 && (
-            <p style={styles.empty}>No scans yet. Use the mobile scanner with sid={SID}</p>
+            <p style={styles.empty}>No scans yet. Use the mobile scanner with sid={sid}</p>
           )}
-          {scans.map((item) => (
-            <div key={item.id} style={styles.card}>
-              <div style={styles.cardRow}>
-                <span style={styles.type}>{item.type}</span>
-                {item.sid && <span style={styles.sid}>{item.sid}</span>}
-              </div>
-              {item.type === 'ocr' ? (
-                <>
-                  <div style={styles.ocrLabel}>OCR output</div>
-                  <pre style={styles.ocrOutput}>
-                    {item.raw || item.value || '—'}
-                  </pre>
-                  {(item.labelJson || item.ocrGs1Parsed) && (
-                    <>
-                      <div style={styles.ocrLabel}>JSON</div>
-                      <pre style={styles.parsed}>
-                        {JSON.stringify(
-                          {
-                            ...(item.labelJson || {}),
-                            ...(item.ocrGs1Parsed?.upc_gtin && { upc_gtin: item.ocrGs1Parsed.upc_gtin }),
-                          },
-                          null,
-                          2
-                        )}
-                      </pre>
-                    </>
+          {scans.length > 0 && filteredScans.length === 0 && <p style={styles.empty}>No scans match the filter.</p>}
+          {groups.map(({ latest: item, count, firstAt }) => {
+            const invalid = validationMessages(item);
+            // Approved scans were checked by a person: no more low-confidence flags
+            const review = item.review?.approvedBy ? [] : lowConfidenceFields(item.labelJson?.confidence);
+            const reviewable = item.seq != null && item.labelJson != null && (item.kind === 'ocr-text' || item.kind === 'label');
+            const form = editing && editing.seq === item.seq ? editing : null;
+            const expiryAlert = evaluateExpiry(expiryRules, matchFields(item).expiry);
+            return (
+              <div
+                key={item.id}
+                style={{
+                  ...styles.card,
+                  ...(expiryAlert && {
+                    border: `1px solid ${EXPIRY_COLORS[expiryAlert.level]}`,
+                    boxShadow: `inset 4px 0 0 ${EXPIRY_COLORS[expiryAlert.level]}`,
+                  }),
+                  ...(invalid.length > 0 && styles.cardInvalid),
+                }}
+              >
+                <div style={styles.cardRow}>
+                  <span style={styles.type}>{item.kind}</span>
+                  <span style={styles.source}>
+                    {item.source}
+                    {(item.kind === 'barcode' || item.kind === 'gs1') && item.symbology && ` · ${item.symbology}`}
+                  </span>
+                  <span style={styles.device} title={item.deviceId}>
+                    {item.deviceName || deviceNames.get(item.deviceId) || item.deviceId}
+                  </span>
+                  {count > 1 && (
+                    <span style={styles.countBadge} title={`First seen ${new Date(firstAt).toLocaleString()}`}>
+                      ×{count}
+                    </span>
                   )}
-                </>
-              ) : (
-                <>
-                  <div style={styles.value}>{item.value || item.raw || '—'}</div>
-                  {item.parsed && (
-                    <pre style={styles.parsed}>
-                      {JSON.stringify(toDisplayJson(item.parsed), null, 2)}
-                    </pre>
+                  {expiryAlert && (
+                    <span style={{ ...styles.expiryBadge, ...styles[`expiry_${expiryAlert.level}`] }}>
+                      {expiryAlert.message}
+                    </span>
                   )}
-                </>
-              )}
-              {item.parseError && (
-                <span style={styles.parseError}>GS1: {item.parseError}</span>
-              )}
-            </div>
-          ))}
+                  {item.labelJson?.expiry_date?.ambiguous && (
+                    <span
+                      style={styles.ambiguousBadge}
+                      title={`"${item.labelJson.expiry_date.raw}" read as ${item.labelJson.expiry_date.format}`}
+                    >
+                      Expiry day/month ambiguous
+                    </span>
+                  )}
+                  {invalid.length > 0 && <span style={styles.invalidBadge}>Invalid fields</span>}
+                  {review.length > 0 && (
+                    <span style={styles.reviewBadge}>
+                      Review {review.map(([key]) => key).join(', ')}
+                    </span>
+                  )}
+                  {item.review?.approvedBy && (
+                    <span
+                      style={styles.approvedBadge}
+                      title={item.review.approvedAt ? new Date(item.review.approvedAt).toLocaleString() : undefined}
+                    >
+                      Approved by {item.review.approvedBy}
+                    </span>
+                  )}
+                  <span style={styles.cardActions}>
+                    {reviewable && !form && (
+                      <button
+                        type="button"
+                        style={styles.reviewButton}
+                        onClick={() =>
+                          item.labelJson &&
+                          item.seq != null &&
+                          setEditing({
+                            seq: item.seq,
+                            fields: Object.fromEntries(reviewKeys(item.labelJson).map((key) => [key, item.labelJson?.[key] ?? ''])),
+                          })
+                        }
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {reviewable && !item.review?.approvedBy && (
+                      <button type="button" style={styles.reviewButton} onClick={() => item.seq != null && submitReview(item.seq, {}, true)}>
+                        Approve
+                      </button>
+                    )}
+                    {item.deviceId && deviceConnected.has(item.deviceId) && (
+                      <button
+                        type="button"
+                        style={styles.rescanButton}
+                        onClick={() =>
+                          runCommand(
+                            {
+                              type: 'request-rescan',
+                              ...(item.scanId && { scanId: item.scanId }),
+                              ...(invalid.length > 0 && { reason: invalid.join('; ') }),
+                            },
+                            item.deviceId
+                          )
+                        }
+                      >
+                        Request re-scan
+                      </button>
+                    )}
+                  </span>
+                </div>
+                {form && (
+                  <div style={styles.reviewForm}>
+                    {(Object.keys(form.fields) as LabelOutputKey[]).map((key) => (
+                      <label key={key} style={styles.reviewField}>
+                        <span style={styles.reviewFieldName}>{key}</span>
+                        <input
+                          type="text"
+                          value={form.fields[key] ?? ''}
+                          onChange={(e) => setEditing({ ...form, fields: { ...form.fields, [key]: e.target.value } })}
+                          placeholder={key === 'expiry' ? 'YYYY-MM-DD' : ''}
+                          style={styles.input}
+                        />
+                      </label>
+                    ))}
+                    <label style={styles.reviewField}>
+                      <span style={styles.reviewFieldName}>reviewer</span>
+                      <input
+                        type="text"
+                        value={reviewer}
+                        onChange={(e) => setReviewer(e.target.value)}
+                        onBlur={() => saveReviewerName(reviewer)}
+                        style={styles.input}
+                      />
+                    </label>
+                    <div style={styles.reviewFormActions}>
+                      <button type="button" style={styles.button} onClick={() => submitReview(form.seq, form.fields, true)}>
+                        Save &amp; approve
+                      </button>
+                      <button type="button" style={styles.commandButton} onClick={() => submitReview(form.seq, form.fields, false)}>
+                        Save
+                      </button>
+                      <button type="button" style={styles.commandButton} onClick={() => setEditing(null)}>
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {reviewStatus && reviewStatus.seq === item.seq && <p style={styles.reviewStatus}>{reviewStatus.text}</p>}
+                {item.review && item.review.corrections.length > 0 && (
+                  <ul style={styles.correctionList}>
+                    {item.review.corrections.map((c, i) => (
+                      <li key={i}>
+                        {c.key}: "{c.original}" → "{c.value}" · {c.editor} · {new Date(c.at).toLocaleString()}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {invalid.length > 0 && (
+                  <ul style={styles.invalidList}>
+                    {invalid.map((msg) => (
+                      <li key={msg}>{msg}</li>
+                    ))}
+                  </ul>
+                )}
+                {item.kind === 'ocr-text' && item.consensus && (
+                  <p style={styles.ocrCorrections}>Consensus: {describeOcrConsensusSummary(item.consensus)}</p>
+                )}
+                {item.kind === 'ocr-text' && item.regions && (
+                  <p style={styles.ocrCorrections}>Regions: {describeOcrRegions(item.regions)}</p>
+                )}
+                {item.kind === 'ocr-text' && item.preprocess && (
+                  <p style={styles.ocrCorrections}>Pre-processing: {describeOcrPreprocess(item.preprocess)}</p>
+                )}
+                {item.kind === 'ocr-text' && item.ocrDecision && (
+                  <p style={styles.ocrCorrections}>Hybrid OCR: {describeOcrDecision(item.ocrDecision)}</p>
+                )}
+                {item.labelJson?.ocrCorrections && (
+                  <p style={styles.ocrCorrections}>
+                    OCR corrected: {item.labelJson.ocrCorrections.map(describeOcrCorrection).join('; ')}
+                  </p>
+                )}
+                {review.length > 0 && (
+                  <ul style={styles.reviewList}>
+                    {review.map(([key, evidence]) => (
+                      <li key={key}>{reviewMessage(key, evidence)}</li>
+                    ))}
+                  </ul>
+                )}
+                {item.kind === 'ocr-text' || item.kind === 'label' ? (
+                  <>
+                    <div style={styles.ocrLabel}>{item.kind === 'label' ? 'Label capture output' : 'OCR output'}</div>
+                    <pre style={styles.ocrOutput}>
+                      {item.raw || (item.kind === 'ocr-text' && item.text) || '—'}
+                    </pre>
+                    {(item.labelJson || item.ocrGs1Parsed) && (
+                      <>
+                        <div style={styles.ocrLabel}>JSON</div>
+                        <pre style={styles.parsed}>
+                          {JSON.stringify(
+                            {
+                              ...withoutValidation(item.labelJson),
+                              ...(item.ocrGs1Parsed?.upc_gtin && { upc_gtin: item.ocrGs1Parsed.upc_gtin }),
+                            },
+                            null,
+                            2
+                          )}
+                        </pre>
+                      </>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <div style={styles.value}>{item.value || item.raw || '—'}</div>
+                    {item.parsed && (
+                      <pre style={styles.parsed}>
+                        {JSON.stringify(toDisplayJson(item.parsed), null, 2)}
+                      </pre>
+                    )}
+                  </>
+                )}
+                {item.parseError && (
+                  <span style={styles.parseError}>GS1: {item.parseError}</span>
+                )}
+              </div>
+            );
+          })}
+          {olderBefore != null && scans.length < MAX_SCANS && (
+            <button type="button" style={styles.loadOlder} onClick={loadOlder} disabled={loadingOlder}>
+              {loadingOlder ? 'Loading…' : 'Load older scans'}
+            </button>
+          )}
         </div>
       </section>
     </div>
@@ -222,8 +1313,114 @@ const styles: Record<string, React.CSSProperties> = {
     borderRadius: 10,
     border: '1px solid #334155',
   },
+  cardInvalid: { border: '1px solid #dc2626' },
+  countBadge: {
+    fontSize: 11,
+    padding: '2px 8px',
+    borderRadius: 6,
+    background: 'rgba(56,189,248,0.2)',
+    color: '#7dd3fc',
+  },
+  dedupRow: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+    fontSize: 13,
+    color: '#94a3b8',
+  },
+  dedupField: { display: 'flex', alignItems: 'center', gap: 4 },
+  dedupDate: {
+    padding: '3px 6px',
+    borderRadius: 6,
+    border: '1px solid #334155',
+    background: '#0f172a',
+    color: '#e2e8f0',
+    fontSize: 13,
+  },
+  expiryBanner: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+    padding: '10px 12px',
+    borderRadius: 8,
+    fontSize: 14,
+    fontWeight: 500,
+  },
+  bannerDismiss: {
+    marginLeft: 'auto',
+    background: 'transparent',
+    border: 'none',
+    color: 'inherit',
+    cursor: 'pointer',
+  },
+  expiryBadge: { fontSize: 11, padding: '2px 8px', borderRadius: 6 },
+  expiry_expired: { background: 'rgba(220,38,38,0.18)', color: '#fca5a5' },
+  expiry_soon: { background: 'rgba(234,179,8,0.15)', color: '#fde047' },
+  expiry_window: { background: 'rgba(249,115,22,0.15)', color: '#fdba74' },
+  viewActive: { background: '#0284c7', borderColor: '#0284c7', color: '#fff' },
+  reconcileTable: { width: '100%', borderCollapse: 'collapse', fontSize: 13 },
+  reconcileCell: { padding: '6px 8px', borderBottom: '1px solid #334155', textAlign: 'left' },
+  dedupMinutes: {
+    width: 56,
+    padding: '4px 6px',
+    borderRadius: 6,
+    border: '1px solid #334155',
+    background: '#0f172a',
+    color: '#e2e8f0',
+    fontSize: 13,
+  },
+  ambiguousBadge: {
+    fontSize: 11,
+    padding: '2px 8px',
+    borderRadius: 6,
+    background: 'rgba(168,85,247,0.2)',
+    color: '#d8b4fe',
+  },
+  invalidBadge: {
+    fontSize: 11,
+    padding: '2px 8px',
+    borderRadius: 6,
+    background: 'rgba(220,38,38,0.2)',
+    color: '#fca5a5',
+  },
+  invalidList: { margin: '0 0 8px', paddingLeft: 18, fontSize: 12, color: '#fca5a5' },
+  reviewBadge: {
+    fontSize: 11,
+    padding: '2px 8px',
+    borderRadius: 6,
+    background: 'rgba(234,179,8,0.2)',
+    color: '#fde047',
+  },
+  reviewList: { margin: '0 0 8px', paddingLeft: 18, fontSize: 12, color: '#fde68a' },
+  approvedBadge: {
+    fontSize: 11,
+    padding: '2px 8px',
+    borderRadius: 6,
+    background: 'rgba(34,197,94,0.2)',
+    color: '#86efac',
+  },
+  reviewButton: {
+    padding: '2px 8px',
+    borderRadius: 6,
+    border: '1px solid #334155',
+    background: 'transparent',
+    color: '#38bdf8',
+    fontSize: 11,
+    cursor: 'pointer',
+  },
+  reviewForm: { display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 8 },
+  reviewField: { display: 'flex', alignItems: 'center', gap: 8 },
+  reviewFieldName: { width: 70, fontSize: 12, color: '#94a3b8' },
+  reviewFormActions: { display: 'flex', gap: 8 },
+  reviewStatus: { margin: '0 0 8px', fontSize: 12, color: '#fca5a5' },
+  ocrCorrections: { margin: '0 0 8px', fontSize: 12, color: '#94a3b8' },
+  correctionList: { margin: '0 0 8px', paddingLeft: 18, fontSize: 12, color: '#94a3b8' },
   cardRow: { display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 },
   type: { fontSize: 12, color: '#38bdf8', textTransform: 'uppercase' },
+  source: { fontSize: 11, color: '#94a3b8' },
   sid: { fontSize: 11, color: '#64748b' },
   value: { fontFamily: 'ui-monospace, monospace', fontSize: 14, wordBreak: 'break-all', marginBottom: 8 },
   ocrLabel: {
@@ -256,4 +1453,79 @@ const styles: Record<string, React.CSSProperties> = {
     wordBreak: 'break-all',
   },
   parseError: { fontSize: 12, color: '#f87171' },
+  sessionRow: { display: 'flex', gap: 8, marginBottom: 8 },
+  sessionError: { margin: '8px 0 0', fontSize: 13, color: '#f87171' },
+  deviceList: { listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: 6 },
+  deviceRow: { display: 'flex', alignItems: 'center', gap: 8 },
+  deviceName: { fontSize: 14, fontWeight: 500 },
+  device: { fontSize: 11, color: '#cbd5e1' },
+  deviceOnline: { color: '#34d399', fontSize: 10 },
+  deviceOffline: { color: '#475569', fontSize: 10 },
+  revokeButton: {
+    marginLeft: 'auto',
+    padding: '4px 10px',
+    borderRadius: 6,
+    border: '1px solid #7f1d1d',
+    background: 'transparent',
+    color: '#fca5a5',
+    fontSize: 12,
+    cursor: 'pointer',
+  },
+  commandPanel: { marginTop: 12, paddingTop: 12, borderTop: '1px solid #334155' },
+  commandButton: {
+    padding: '6px 12px',
+    borderRadius: 6,
+    border: '1px solid #334155',
+    background: '#1e293b',
+    color: '#e2e8f0',
+    fontSize: 13,
+    cursor: 'pointer',
+  },
+  cardActions: { marginLeft: 'auto', display: 'flex', gap: 6 },
+  rescanButton: {
+    padding: '2px 8px',
+    borderRadius: 6,
+    border: '1px solid #334155',
+    background: 'transparent',
+    color: '#fde047',
+    fontSize: 11,
+    cursor: 'pointer',
+  },
+  select: {
+    flex: 1,
+    padding: '8px 10px',
+    borderRadius: 8,
+    border: '1px solid #334155',
+    background: '#1e293b',
+    color: '#e2e8f0',
+    fontSize: 14,
+  },
+  input: {
+    flex: 1,
+    padding: '8px 10px',
+    borderRadius: 8,
+    border: '1px solid #334155',
+    background: '#0f172a',
+    color: '#e2e8f0',
+    fontSize: 14,
+  },
+  button: {
+    padding: '8px 16px',
+    borderRadius: 8,
+    border: 'none',
+    background: '#0284c7',
+    color: '#fff',
+    fontSize: 14,
+    cursor: 'pointer',
+  },
+  loadOlder: {
+    alignSelf: 'center',
+    padding: '8px 16px',
+    borderRadius: 8,
+    border: '1px solid #334155',
+    background: '#1e293b',
+    color: '#e2e8f0',
+    fontSize: 13,
+    cursor: 'pointer',
+  },
 };
@@ -0,0 +1,627 @@
+/**
+ * Label-format editor: edit the declarative formats (fields with anchor / value regexes and output keys),
+ * try them live on sample text or a captured scan's raw text, keep regression samples per format, and publish
+ * the set to the socket server once every sample passes. Scanners reload published formats immediately.
+ * Scans corrected on a scanner or dashboard are listed so they can be added as samples of a format.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  checkLabelFormatSample,
+  compileLabelFormat,
+  compileLabelFormats,
+  createSocketClient,
+  describeOcrCorrection,
+  extractLabelFromOcr,
+  LABEL_OUTPUT_KEYS,
+  OCR_PREPROCESS_PRESET_NAMES,
+  publishLabelFormats,
+  scanditFieldDefinitions,
+  scanditFieldsToLabelJson,
+  simulateScanditFields,
+  validateLabelFormats,
+  type CorrectedLabelSample,
+  type LabelEngine,
+  type LabelFieldConfidence,
+  type LabelFieldDefinition,
+  type LabelFormatDefinition,
+  type LabelFormatSample,
+  type LabelOcrCorrection,
+  type LabelOutputKey,
+  type OcrPreprocessPresetName,
+} from '@scanning-poc/shared';
+import {
+  cleanLabelFormats,
+  fetchCorrectedSamples,
+  fetchPublishedLabelFormats,
+  loadLabelFormatDrafts,
+  saveLabelFormatDrafts,
+} from './labelFormatDrafts';
+import { getLocalSessions } from './sessions';
+
+export type LabelFormatEditorProps = {
+  socket: ReturnType<typeof createSocketClient>;
+  sid: string;
+  socketUrl: string;
+  /** Raw text of captured scans to test with, newest first */
+  capturedTexts: Array<{ id: string; label: string; text: string }>;
+};
+
+const ENGINES: LabelEngine[] = ['ocr', 'scandit'];
+
+function newField(index: number): LabelFieldDefinition {
+  return { name: `Field ${index + 1}`, anchors: [], values: [''], outputKeys: ['lot_no'], optional: true, engines: [...ENGINES] };
+}
+
+/** Label JSON for display, without the parsed expiry object, the per-field evidence and OCR corrections */
+function showResult(result: object): string {
+  const {
+    expiry_date: _expiryDate,
+    evidence: _evidence,
+    confidence: _confidence,
+    ocrCorrections: _ocrCorrections,
+    ...rest
+  } = result as Record<string, unknown>;
+  return JSON.stringify(rest, null, 2);
+}
+
+function showCorrections(corrections: LabelOcrCorrection[] | undefined): string {
+  return (corrections ?? []).map((c) => `corrected ${describeOcrCorrection(c)}`).join('\n');
+}
+
+/** One line per field: confidence and the format field that produced it */
+function showConfidence(confidence: LabelFieldConfidence | undefined): string {
+  return Object.entries(confidence ?? {})
+    .map(([key, e]) => `${key}: ${Math.round(e.confidence * 100)}% ${e.formatId} / ${e.field}`)
+    .join('\n');
+}
+
+function toggle<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter((x) => x !== item) : [...list, item];
+}
+
+export function LabelFormatEditor({ socket, sid, socketUrl, capturedTexts }: LabelFormatEditorProps) {
+  const [formats, setFormats] = useState<LabelFormatDefinition[]>(() => loadLabelFormatDrafts() ?? []);
+  const [hasDrafts, setHasDrafts] = useState(() => loadLabelFormatDrafts() != null);
+  const [selected, setSelected] = useState(0);
+  const [sampleText, setSampleText] = useState('');
+  const [expected, setExpected] = useState<LabelFormatSample['expected']>({});
+  const [publishStatus, setPublishStatus] = useState<string | null>(null);
+  /** The server's LABEL_FORMATS_ADMIN_KEY; kept for this page load only */
+  const [adminKey, setAdminKey] = useState('');
+  const [corrected, setCorrected] = useState<CorrectedLabelSample[]>([]);
+
+  /** Corrected scans of this session (the request carries the session's owner key) */
+  const refreshCorrected = useCallback(() => {
+    const key = getLocalSessions().find((s) => s.sid === sid)?.key;
+    fetchCorrectedSamples(socketUrl, sid, key).then(setCorrected);
+  }, [socketUrl, sid]);
+
+  useEffect(refreshCorrected, [refreshCorrected]);
+
+  useEffect(() => {
+    if (loadLabelFormatDrafts()) return;
+    fetchPublishedLabelFormats(socketUrl).then(setFormats);
+  }, [socketUrl]);
+
+  const format = formats[selected] as LabelFormatDefinition | undefined;
+  const validation = useMemo(() => validateLabelFormats(cleanLabelFormats(formats)), [formats]);
+  const compiledFormats = useMemo(() => compileLabelFormats(validation.formats), [validation]);
+  const scanditDefs = useMemo(() => scanditFieldDefinitions(validation.formats), [validation]);
+  const validFormat = format && validation.formats.find((f) => f.id === format.id.trim());
+  const compiled = useMemo(() => validFormat && compileLabelFormat(validFormat), [validFormat]);
+
+  /** Sample checks of every valid format, by format id */
+  const sampleChecks = useMemo(
+    () =>
+      new Map(
+        validation.formats.map((f) => {
+          const extractor = compileLabelFormat(f);
+          return [f.id, (f.samples ?? []).map((sample) => ({ sample, ...checkLabelFormatSample(extractor, sample) }))];
+        })
+      ),
+    [validation]
+  );
+  const failingSamples = [...sampleChecks.values()].flat().filter((c) => !c.pass).length;
+  const canPublish = validation.errors.length === 0 && failingSamples === 0 && validation.formats.length > 0;
+
+  const text = sampleText.trim();
+  const formatResult = text && compiled ? compiled.extract(text.replace(/\s+/g, ' ')) : null;
+  const ocrResult = text ? extractLabelFromOcr(text, compiledFormats) : null;
+  const scanditFields = text ? simulateScanditFields(text, scanditDefs) : [];
+  const scanditResult = text ? scanditFieldsToLabelJson(scanditFields, new Map(), scanditDefs).labelJson : null;
+
+  const update = (next: LabelFormatDefinition[]) => {
+    setFormats(next);
+    saveLabelFormatDrafts(next);
+    setHasDrafts(true);
+    setPublishStatus(null);
+  };
+  const updateFormat = (patch: Partial<LabelFormatDefinition>) =>
+    update(formats.map((f, i) => (i === selected ? { ...f, ...patch } : f)));
+  const updateField = (index: number, patch: Partial<LabelFieldDefinition>) =>
+    format && updateFormat({ fields: format.fields.map((f, i) => (i === index ? { ...f, ...patch } : f)) });
+  const moveField = (index: number) => {
+    if (!format || index === 0) return;
+    const fields = [...format.fields];
+    [fields[index - 1], fields[index]] = [fields[index], fields[index - 1]];
+    updateFormat({ fields });
+  };
+
+  const addFormat = () => {
+    const id = `format_${formats.length + 1}`;
+    update([...formats, { id, name: 'New format', fields: [newField(0)] }]);
+    setSelected(formats.length);
+  };
+  const removeFormat = () => {
+    if (!format || !window.confirm(`Delete format "${format.name}"?`)) return;
+    update(formats.filter((_, i) => i !== selected));
+    setSelected(0);
+  };
+
+  const saveSample = () => {
+    if (!format || !text) return;
+    const values = Object.fromEntries(Object.entries(expected).filter(([, v]) => v?.trim()));
+    updateFormat({ samples: [...(format.samples ?? []), { text, expected: values }] });
+  };
+
+  /** Test a corrected scan: its text, with the corrected values as expected values */
+  const loadCorrected = (sample: CorrectedLabelSample) => {
+    setSampleText(sample.text);
+    setExpected(sample.expected);
+  };
+
+  const discardDrafts = () => {
+    if (!window.confirm('Discard unpublished changes?')) return;
+    saveLabelFormatDrafts(null);
+    setHasDrafts(false);
+    setSelected(0);
+    fetchPublishedLabelFormats(socketUrl).then(setFormats);
+  };
+
+  const publish = async () => {
+    setPublishStatus('Publishing…');
+    const result = await publishLabelFormats(socket, sid, validation.formats, adminKey);
+    if (!result.ok) {
+      setPublishStatus(`Not published: ${result.error}${result.errors?.length ? ` (${result.errors.join('; ')})` : ''}`);
+      return;
+    }
+    saveLabelFormatDrafts(null);
+    setHasDrafts(false);
+    setFormats(validation.formats);
+    setPublishStatus(`Published ${result.count} format${result.count === 1 ? '' : 's'}; connected scanners reload them now`);
+  };
+
+  const checks = (validFormat && sampleChecks.get(validFormat.id)) ?? [];
+
+  return (
+    <div style={styles.editor}>
+      <div style={styles.row}>
+        <select style={styles.select} value={selected} onChange={(e) => setSelected(Number(e.target.value))}>
+          {formats.map((f, i) => {
+            const failed = sampleChecks.get(f.id.trim())?.filter((c) => !c.pass).length;
+            return (
+              <option key={i} value={i}>
+                {f.name} ({f.id}){failed ? ` · ${failed} failing` : ''}
+              </option>
+            );
+          })}
+        </select>
+        <button type="button" style={styles.smallButton} onClick={addFormat}>
+          New format
+        </button>
+        <button type="button" style={styles.smallButton} onClick={removeFormat} disabled={!format}>
+          Delete
+        </button>
+      </div>
+
+      {format && (
+        <>
+          <div style={styles.row}>
+            <label style={styles.label}>
+              ID
+              <input style={styles.input} value={format.id} onChange={(e) => updateFormat({ id: e.target.value })} />
+            </label>
+            <label style={{ ...styles.label, flex: 2 }}>
+              Name
+              <input style={styles.input} value={format.name} onChange={(e) => updateFormat({ name: e.target.value })} />
+            </label>
+            <label style={styles.label}>
+              OCR pre-processing
+              <select
+                style={styles.smallSelect}
+                value={format.preprocess ?? 'standard'}
+                onChange={(e) =>
+                  updateFormat({
+                    preprocess: e.target.value === 'standard' ? undefined : (e.target.value as OcrPreprocessPresetName),
+                  })
+                }
+              >
+                {OCR_PREPROCESS_PRESET_NAMES.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p style={styles.hint}>
+            Fields run in order and fill output keys that are still empty, so put anchored fields first. Regexes:
+            one per line; anchors are case-insensitive.
+          </p>
+          {format.fields.map((field, i) => (
+            <div key={i} style={styles.field}>
+              <div style={styles.row}>
+                <input
+                  style={styles.input}
+                  value={field.name}
+                  onChange={(e) => updateField(i, { name: e.target.value })}
+                  placeholder="Field name (also the Scandit field name)"
+                />
+                <button type="button" style={styles.smallButton} onClick={() => moveField(i)} disabled={i === 0}>
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  style={styles.smallButton}
+                  onClick={() => updateFormat({ fields: format.fields.filter((_, j) => j !== i) })}
+                >
+                  ✕
+                </button>
+              </div>
+              <div style={styles.row}>
+                <label style={styles.label}>
+                  Anchors
+                  <textarea
+                    style={styles.textarea}
+                    rows={2}
+                    value={field.anchors.join('\n')}
+                    onChange={(e) => updateField(i, { anchors: e.target.value.split('\n') })}
+                    placeholder="e.g. LOT\s*:?\s* (empty = standalone value)"
+                  />
+                </label>
+                <label style={styles.label}>
+                  Values
+                  <textarea
+                    style={styles.textarea}
+                    rows={2}
+                    value={field.values.join('\n')}
+                    onChange={(e) => updateField(i, { values: e.target.value.split('\n') })}
+                    placeholder="e.g. [0-9]{6,12}"
+                  />
+                </label>
+                <label style={styles.label}>
+                  Character templates
+                  <textarea
+                    style={styles.textarea}
+                    rows={2}
+                    value={(field.charTemplates ?? []).join('\n')}
+                    onChange={(e) => updateField(i, { charTemplates: e.target.value.split('\n') })}
+                    placeholder="e.g. LDLD (L letter, D digit, A either): fixes 0/O, 1/I, 5/S, 8/B, 2/Z"
+                  />
+                </label>
+              </div>
+              <div style={styles.row}>
+                {LABEL_OUTPUT_KEYS.map((key) => (
+                  <label key={key} style={styles.check}>
+                    <input
+                      type="checkbox"
+                      checked={field.outputKeys.includes(key)}
+                      onChange={() => {
+                        const outputKeys = toggle(field.outputKeys, key);
+                        updateField(i, {
+                          outputKeys,
+                          ...(!outputKeys.includes('expiry') && { expiryFormat: undefined }),
+                        });
+                      }}
+                    />
+                    {key}
+                  </label>
+                ))}
+                <span style={styles.separator} />
+                {ENGINES.map((engine) => (
+                  <label key={engine} style={styles.check}>
+                    <input
+                      type="checkbox"
+                      checked={field.engines.includes(engine)}
+                      onChange={() => updateField(i, { engines: toggle(field.engines, engine) })}
+                    />
+                    {engine === 'ocr' ? 'OCR' : 'Scandit'}
+                  </label>
+                ))}
+                {field.outputKeys.includes('expiry') && (
+                  <select
+                    style={styles.smallSelect}
+                    value={field.expiryFormat ?? 'MDY'}
+                    onChange={(e) => updateField(i, { expiryFormat: e.target.value === 'DMY' ? 'DMY' : undefined })}
+                  >
+                    <option value="MDY">MM/DD/YYYY</option>
+                    <option value="DMY">DD/MM/YYYY</option>
+                  </select>
+                )}
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            style={styles.smallButton}
+            onClick={() => updateFormat({ fields: [...format.fields, newField(format.fields.length)] })}
+          >
+            Add field
+          </button>
+        </>
+      )}
+
+      {validation.errors.length > 0 && (
+        <ul style={styles.errors}>
+          {validation.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <h3 style={styles.subTitle}>Test</h3>
+      <div style={styles.row}>
+        <select
+          style={styles.select}
+          value=""
+          onChange={(e) => {
+            const picked = capturedTexts.find((c) => c.id === e.target.value);
+            if (picked) setSampleText(picked.text);
+          }}
+        >
+          <option value="">Pick a captured scan…</option>
+          {capturedTexts.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        style={styles.textarea}
+        rows={4}
+        value={sampleText}
+        onChange={(e) => setSampleText(e.target.value)}
+        placeholder="Paste OCR text from a label"
+      />
+      {text && (
+        <div style={styles.results}>
+          <div style={styles.result}>
+            <strong>This format</strong>
+            <pre style={styles.pre}>{formatResult ? showResult(formatResult) : 'Fix the errors above to test this format'}</pre>
+          </div>
+          <div style={styles.result}>
+            <strong>extractLabelFromOcr (all formats)</strong>
+            <pre style={styles.pre}>
+              {ocrResult && showResult(ocrResult)}
+              {ocrResult?.confidence && `\n\n${showConfidence(ocrResult.confidence)}`}
+              {ocrResult?.ocrCorrections && `\n${showCorrections(ocrResult.ocrCorrections)}`}
+            </pre>
+          </div>
+          <div style={styles.result}>
+            <strong>Scandit (simulated from text)</strong>
+            <pre style={styles.pre}>
+              {scanditFields.map((f) => `${f.name}: ${f.value}`).join('\n') || '(no fields)'}
+              {'\n\n'}
+              {scanditResult && showResult(scanditResult)}
+              {scanditResult?.ocrCorrections && `\n${showCorrections(scanditResult.ocrCorrections)}`}
+            </pre>
+          </div>
+        </div>
+      )}
+      {text && format && (
+        <>
+          <p style={styles.hint}>Expected values for a sample (blank = not checked; expiry as YYYY-MM-DD or YYYY-MM):</p>
+          <div style={styles.row}>
+            {LABEL_OUTPUT_KEYS.map((key: LabelOutputKey) => (
+              <input
+                key={key}
+                style={styles.input}
+                placeholder={key}
+                value={expected[key] ?? ''}
+                onChange={(e) => setExpected({ ...expected, [key]: e.target.value })}
+              />
+            ))}
+          </div>
+          <div style={styles.row}>
+            <button
+              type="button"
+              style={styles.smallButton}
+              onClick={() =>
+                setExpected(Object.fromEntries(LABEL_OUTPUT_KEYS.map((key) => [key, formatResult?.[key] ?? ''])))
+              }
+            >
+              Fill from this format
+            </button>
+            <button type="button" style={styles.smallButton} onClick={saveSample}>
+              Save as sample of {format.name}
+            </button>
+          </div>
+        </>
+      )}
+
+      {format && (
+        <>
+          <h3 style={styles.subTitle}>Samples of {format.name}</h3>
+          {(format.samples ?? []).length === 0 && <p style={styles.hint}>No samples yet.</p>}
+          {(format.samples ?? []).map((sample, i) => {
+            const check = checks[i];
+            return (
+              <div key={i} style={styles.sample}>
+                <span style={check?.pass ? styles.pass : styles.fail}>{check ? (check.pass ? 'PASS' : 'FAIL') : '—'}</span>
+                <button type="button" style={styles.linkButton} onClick={() => setSampleText(sample.text)}>
+                  {sample.text.replace(/\s+/g, ' ').slice(0, 60)}
+                </button>
+                {check && !check.pass && (
+                  <span style={styles.mismatch}>
+                    {check.mismatched
+                      .map((key) => `${key}: expected "${sample.expected[key]}", got "${check.actual[key] ?? ''}"`)
+                      .join('; ')}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  style={styles.smallButton}
+                  onClick={() => updateFormat({ samples: (format.samples ?? []).filter((_, j) => j !== i) })}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </>
+      )}
+
+      <h3 style={styles.subTitle}>Corrected scans</h3>
+      <div style={styles.row}>
+        <span style={styles.hint}>OCR scans whose fields were corrected by hand ({corrected.length})</span>
+        <button type="button" style={styles.smallButton} onClick={refreshCorrected}>
+          Refresh
+        </button>
+      </div>
+      {corrected.slice(0, 20).map((sample) => {
+        const inFormat = (format?.samples ?? []).some((s) => s.text === sample.text);
+        return (
+          <div key={sample.scanId} style={styles.sample}>
+            <button type="button" style={styles.linkButton} onClick={() => loadCorrected(sample)}>
+              {sample.text.replace(/\s+/g, ' ').slice(0, 60)}
+            </button>
+            <span style={styles.hint}>
+              {sample.corrected.map((key) => `${key} "${sample.expected[key] ?? ''}"`).join(', ')} · {sample.editor} ·{' '}
+              {new Date(sample.at).toLocaleString()}
+            </span>
+            {format && (
+              <button
+                type="button"
+                style={styles.smallButton}
+                disabled={inFormat}
+                onClick={() =>
+                  updateFormat({ samples: [...(format.samples ?? []), { text: sample.text, expected: sample.expected }] })
+                }
+              >
+                {inFormat ? 'In samples' : `Add to ${format.name}`}
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      <div style={{ ...styles.row, marginTop: 16 }}>
+        <input
+          type="password"
+          style={styles.input}
+          placeholder="Admin key"
+          aria-label="Label-format admin key"
+          value={adminKey}
+          onChange={(e) => setAdminKey(e.target.value)}
+        />
+        <button type="button" style={styles.publishButton} onClick={publish} disabled={!canPublish || !adminKey}>
+          Publish to scanners
+        </button>
+        {hasDrafts && (
+          <button type="button" style={styles.smallButton} onClick={discardDrafts}>
+            Discard changes
+          </button>
+        )}
+        <span style={styles.hint}>
+          {hasDrafts ? 'Unpublished changes. ' : ''}
+          {failingSamples > 0 && `${failingSamples} failing sample${failingSamples === 1 ? '' : 's'}. `}
+          {publishStatus}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  editor: { display: 'flex', flexDirection: 'column', gap: 8 },
+  row: { display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8 },
+  label: { flex: 1, display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12, color: '#94a3b8' },
+  hint: { margin: 0, color: '#94a3b8', fontSize: 13 },
+  subTitle: { margin: '12px 0 0', fontSize: 15, fontWeight: 600 },
+  select: {
+    flex: 1,
+    padding: '8px 10px',
+    borderRadius: 8,
+    border: '1px solid #334155',
+    background: '#1e293b',
+    color: '#e2e8f0',
+    fontSize: 14,
+  },
+  smallSelect: {
+    padding: '4px 6px',
+    borderRadius: 6,
+    border: '1px solid #334155',
+    background: '#1e293b',
+    color: '#e2e8f0',
+    fontSize: 13,
+  },
+  input: {
+    flex: 1,
+    minWidth: 100,
+    padding: '6px 8px',
+    borderRadius: 6,
+    border: '1px solid #334155',
+    background: '#0f172a',
+    color: '#e2e8f0',
+    fontSize: 13,
+  },
+  textarea: {
+    padding: '6px 8px',
+    borderRadius: 6,
+    border: '1px solid #334155',
+    background: '#0f172a',
+    color: '#e2e8f0',
+    fontSize: 13,
+    fontFamily: 'ui-monospace, monospace',
+    resize: 'vertical',
+  },
+  field: { padding: 10, background: '#1e293b', borderRadius: 8, border: '1px solid #334155', display: 'flex', flexDirection: 'column', gap: 6 },
+  check: { display: 'flex', alignItems: 'center', gap: 4, fontSize: 12, color: '#cbd5e1' },
+  separator: { width: 1, height: 16, background: '#334155' },
+  smallButton: {
+    padding: '6px 12px',
+    borderRadius: 6,
+    border: '1px solid #334155',
+    background: '#1e293b',
+    color: '#e2e8f0',
+    fontSize: 13,
+    cursor: 'pointer',
+  },
+  publishButton: {
+    padding: '8px 16px',
+    borderRadius: 8,
+    border: 'none',
+    background: '#0284c7',
+    color: '#fff',
+    fontSize: 14,
+    cursor: 'pointer',
+  },
+  linkButton: {
+    background: 'transparent',
+    border: 'none',
+    color: '#7dd3fc',
+    fontFamily: 'ui-monospace, monospace',
+    fontSize: 12,
+    cursor: 'pointer',
+    textAlign: 'left',
+    padding: 0,
+  },
+  errors: { margin: 0, paddingLeft: 18, color: '#f87171', fontSize: 12 },
+  results: { display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: 8 },
+  result: { fontSize: 12, color: '#cbd5e1' },
+  pre: {
+    margin: '4px 0 0',
+    padding: 8,
+    background: '#0f172a',
+    borderRadius: 6,
+    fontSize: 11,
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-all',
+  },
+  sample: { display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, fontSize: 12 },
+  pass: { color: '#34d399', fontWeight: 600, fontSize: 11 },
+  fail: { color: '#f87171', fontWeight: 600, fontSize: 11 },
+  mismatch: { color: '#fca5a5', fontSize: 11 },
+};
@@ -0,0 +1,94 @@
+/**
+ * Semantic de-duplication of scans on the dashboard: scans of the same product (e.g. same GTIN + lot + serial)
+ * within a time window are collapsed into one card with a count. The rule is stored in localStorage.
+ */
+
+export type DedupField = 'gtin' | 'lot' | 'serial';
+
+export type DedupRule = {
+  /** Fields that must all match (empty values count as a match only if both are empty) */
+  fields: DedupField[];
+  /** Collapse scans seen within this many minutes of the previous one; 0 disables de-dup */
+  windowMinutes: number;
+};
+
+export type DedupValues = Partial<Record<DedupField, string>>;
+
+export const DEDUP_FIELDS: DedupField[] = ['gtin', 'lot', 'serial'];
+
+export const DEFAULT_DEDUP_RULE: DedupRule = { fields: ['gtin', 'lot', 'serial'], windowMinutes: 5 };
+
+const DEDUP_RULE_STORAGE_KEY = 'scanning-poc:dashboard-dedup-rule';
+
+export function loadDedupRule(): DedupRule {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DEDUP_RULE_STORAGE_KEY) || 'null') as Partial<DedupRule> | null;
+    if (!parsed) return DEFAULT_DEDUP_RULE;
+    return {
+      fields: Array.isArray(parsed.fields)
+        ? parsed.fields.filter((f): f is DedupField => DEDUP_FIELDS.includes(f))
+        : DEFAULT_DEDUP_RULE.fields,
+      windowMinutes:
+        typeof parsed.windowMinutes === 'number' && parsed.windowMinutes >= 0
+          ? parsed.windowMinutes
+          : DEFAULT_DEDUP_RULE.windowMinutes,
+    };
+  } catch {
+    return DEFAULT_DEDUP_RULE;
+  }
+}
+
+export function saveDedupRule(rule: DedupRule): void {
+  try {
+    localStorage.setItem(DEDUP_RULE_STORAGE_KEY, JSON.stringify(rule));
+  } catch {
+    // storage blocked: rule applies to this page load only
+  }
+}
+
+/**
+ * Key for grouping, or null when the scan has none of the rule's fields (such scans are never collapsed).
+ */
+export function dedupKey(rule: DedupRule, values: DedupValues): string | null {
+  if (rule.fields.length === 0 || !rule.fields.some((f) => values[f])) return null;
+  return rule.fields.map((f) => (values[f] ?? '').trim().toUpperCase()).join('|');
+}
+
+export type ScanGroup<T> = {
+  /** Most recent scan of the group (shown on the card) */
+  latest: T;
+  count: number;
+  firstAt: number;
+  lastAt: number;
+};
+
+/**
+ * Collapse items with the same key seen within the rule's window of the group's last scan.
+ * Returns groups newest first.
+ */
+export function groupDuplicates<T>(
+  items: T[],
+  rule: DedupRule,
+  keyOf: (item: T) => string | null,
+  timeOf: (item: T) => number
+): ScanGroup<T>[] {
+  const windowMs = rule.windowMinutes * 60000;
+  const sorted = [...items].sort((a, b) => timeOf(a) - timeOf(b));
+  const groups: ScanGroup<T>[] = [];
+  const openGroups = new Map<string, ScanGroup<T>>();
+  for (const item of sorted) {
+    const time = timeOf(item);
+    const key = windowMs > 0 ? keyOf(item) : null;
+    const group = key ? openGroups.get(key) : undefined;
+    if (group && time - group.lastAt <= windowMs) {
+      group.latest = item;
+      group.count += 1;
+      group.lastAt = time;
+      continue;
+    }
+    const created = { latest: item, count: 1, firstAt: time, lastAt: time };
+    groups.push(created);
+    if (key) openGroups.set(key, created);
+  }
+  return groups.sort((a, b) => b.lastAt - a.lastAt);
+}
@@ -0,0 +1,121 @@
+/**
+ * Expiry-date rules: flag scans that are already expired, expire within N days, or expire inside a custom
+ * date window. Rules are stored in localStorage; expiries are parsed with the shared ExpiryDate parser
+ * (month precision counts as the end of the month).
+ */
+
+import { expiryLastDay, parseExpiry } from '@scanning-poc/shared';
+
+export type ExpiryLevel = 'expired' | 'soon' | 'window';
+
+export type ExpiryRules = {
+  /** Flag expiry dates before today */
+  expired: boolean;
+  /** Flag expiry within this many days from today; 0 disables */
+  withinDays: number;
+  /** Flag expiry between these dates (YYYY-MM-DD, inclusive); empty disables */
+  windowFrom: string;
+  windowTo: string;
+  /** Beep on the dashboard when a live scan is flagged */
+  sound: boolean;
+  /** Show a warning on the phone that sent the flagged scan */
+  notifyScanner: boolean;
+};
+
+export type ExpiryAlert = {
+  level: ExpiryLevel;
+  /** Normalized expiry (YYYY-MM-DD, or YYYY-MM when the label has no day) */
+  expiry: string;
+  /** Whole days from today until the last valid day (negative when expired) */
+  days: number;
+  message: string;
+};
+
+export const DEFAULT_EXPIRY_RULES: ExpiryRules = {
+  expired: true,
+  withinDays: 90,
+  windowFrom: '',
+  windowTo: '',
+  sound: true,
+  notifyScanner: true,
+};
+
+const EXPIRY_RULES_STORAGE_KEY = 'scanning-poc:dashboard-expiry-rules';
+
+const DAY_MS = 86400000;
+
+export function loadExpiryRules(): ExpiryRules {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(EXPIRY_RULES_STORAGE_KEY) || 'null') as Partial<ExpiryRules> | null;
+    if (!parsed) return DEFAULT_EXPIRY_RULES;
+    return {
+      expired: typeof parsed.expired === 'boolean' ? parsed.expired : DEFAULT_EXPIRY_RULES.expired,
+      withinDays:
+        typeof parsed.withinDays === 'number' && parsed.withinDays >= 0 ? parsed.withinDays : DEFAULT_EXPIRY_RULES.withinDays,
+      windowFrom: typeof parsed.windowFrom === 'string' ? parsed.windowFrom : '',
+      windowTo: typeof parsed.windowTo === 'string' ? parsed.windowTo : '',
+      sound: typeof parsed.sound === 'boolean' ? parsed.sound : DEFAULT_EXPIRY_RULES.sound,
+      notifyScanner: typeof parsed.notifyScanner === 'boolean' ? parsed.notifyScanner : DEFAULT_EXPIRY_RULES.notifyScanner,
+    };
+  } catch {
+    return DEFAULT_EXPIRY_RULES;
+  }
+}
+
+export function saveExpiryRules(rules: ExpiryRules): void {
+  try {
+    localStorage.setItem(EXPIRY_RULES_STORAGE_KEY, JSON.stringify(rules));
+  } catch {
+    // storage blocked: rules apply to this page load only
+  }
+}
+
+function startOfToday(now: number): number {
+  const d = new Date(now);
+  return Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/** Most severe rule an expiry hits (expired, then within N days, then custom window), or null */
+export function evaluateExpiry(rules: ExpiryRules, expiry: string | undefined, now = Date.now()): ExpiryAlert | null {
+  const parsed = expiry ? parseExpiry(expiry) : null;
+  if (!parsed || !expiry) return null;
+  const lastDay = expiryLastDay(parsed);
+  const days = Math.round((lastDay - startOfToday(now)) / DAY_MS);
+  if (rules.expired && days < 0) {
+    return { level: 'expired', expiry, days, message: `Expired ${expiry}` };
+  }
+  if (rules.withinDays > 0 && days >= 0 && days <= rules.withinDays) {
+    return { level: 'soon', expiry, days, message: days === 0 ? `Expires today (${expiry})` : `Expires in ${days} d (${expiry})` };
+  }
+  const windowFrom = rules.windowFrom ? parseExpiry(rules.windowFrom) : null;
+  const windowTo = rules.windowTo ? parseExpiry(rules.windowTo) : null;
+  const from = windowFrom && expiryLastDay(windowFrom);
+  const to = windowTo && expiryLastDay(windowTo);
+  if ((from != null || to != null) && (from == null || lastDay >= from) && (to == null || lastDay <= to)) {
+    return { level: 'window', expiry, days, message: `Expiry ${expiry} in alert window` };
+  }
+  return null;
+}
+
+let audioContext: AudioContext | null = null;
+
+/** Short beep (two for expired); browsers only allow audio after the user has interacted with the page */
+export function playAlertSound(level: ExpiryLevel): void {
+  try {
+    audioContext ??= new AudioContext();
+    const ctx = audioContext;
+    const beeps = level === 'expired' ? 2 : 1;
+    for (let i = 0; i < beeps; i++) {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = level === 'expired' ? 880 : 660;
+      gain.gain.value = 0.15;
+      osc.connect(gain).connect(ctx.destination);
+      const start = ctx.currentTime + i * 0.25;
+      osc.start(start);
+      osc.stop(start + 0.15);
+    }
+  } catch {
+    // no Web Audio: the visual alert is still shown
+  }
+}
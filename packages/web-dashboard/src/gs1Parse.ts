@@ -1,6 +1,16 @@
-import { GS1Parser } from '@valentynb/gs1-parser';
-
-const GS1_GROUP_SEPARATOR = String.fromCharCode(29); // ASCII 29 (FNC1)
+import {
+  formatExpiryDisplay,
+  gs1Fields,
+  GS1_GROUP_SEPARATOR,
+  lookupGs1Ai,
+  normalizeGs1Input,
+  parseExpiry,
+  parseGs1,
+  validateGs1,
+  validateGtin,
+  type Gs1Element,
+  type Gs1ValidationError,
+} from '@scanning-poc/shared';
 
 /**
  * Pre-process scan string: replace pipe | (Honeywell Group Separator) with ASCII 29
@@ -21,19 +31,22 @@ export interface ParsedData {
   batch?: string;
   expiry?: string;
   serial?: string;
+  /** (11) production date */
+  production_date?: string;
+  /** (30)/(37) quantity */
+  quantity?: string;
+  /** (240) additional product identification */
+  additional_id?: string;
+  /** (7003) expiration date and time */
+  expiry_time?: string;
+  /** First NHRN (710–716) */
+  nhrn?: string;
   type: BarcodeType;
   raw?: string;
-}
-
-const parser = new GS1Parser();
-
-function elToStr(el: { data?: unknown; dataString?: string } | undefined): string {
-  if (!el) return '';
-  const v = el.data ?? el.dataString;
-  if (v == null) return '';
-  if (typeof v === 'string') return v;
-  if (v instanceof Date) return v.toISOString().slice(0, 10);
-  return String(v);
+  /** Every GS1 AI found, in scan order (GS1 types only) */
+  elements?: Gs1Element[];
+  /** GTIN check digit, date, charset and length problems; absent when every field is valid */
+  validationErrors?: Gs1ValidationError[];
 }
 
 function inferRawType(raw: string): BarcodeType {
@@ -47,14 +60,7 @@ function inferRawType(raw: string): BarcodeType {
 
 const GS1_DATAMATRIX_LENGTH_THRESHOLD = 40;
 
-function inferGS1Variant(
-  gtin: string,
-  batch: string,
-  expiry: string,
-  serial: string,
-  normalizedLength: number
-): 'GS1_LINEAR' | 'GS1_DATAMATRIX' {
-  const aiCount = [gtin, batch, expiry, serial].filter(Boolean).length;
+function inferGS1Variant(aiCount: number, normalizedLength: number): 'GS1_LINEAR' | 'GS1_DATAMATRIX' {
   if (aiCount >= 3) return 'GS1_DATAMATRIX';
   if (normalizedLength > GS1_DATAMATRIX_LENGTH_THRESHOLD) return 'GS1_DATAMATRIX';
   return 'GS1_LINEAR';
@@ -70,61 +76,85 @@ export function parseBarcodeToData(raw: string): ParsedData {
     return { upc_gtin: '', type: 'UNKNOWN' };
   }
 
-  try {
-    const result = parser.decode(normalized);
-    const data = result?.data as Record<string, { data?: unknown; dataString?: string }> | undefined;
-    if (!data || Object.keys(data).length === 0) {
-      return { upc_gtin: normalized, type: inferRawType(normalized), raw: raw };
-    }
-
-    const gtin = elToStr(data.gtin);
-    const batch = elToStr(data.batch);
-    const expiry = elToStr(data.expDate);
-    const serial = elToStr(data.serial);
-
-    const hasStructuredData = Boolean(gtin || batch || expiry || serial);
-    const type: BarcodeType = hasStructuredData
-      ? inferGS1Variant(gtin, batch, expiry, serial, normalized.length)
-      : inferRawType(normalized);
-    const upc_gtin = gtin || normalized;
-
+  const result = parseGs1(normalized);
+  if (!result) {
+    const gtinError = validateGtin(normalized);
     return {
-      upc_gtin,
-      type,
-      ...(batch && { batch }),
-      ...(expiry && { expiry }),
-      ...(serial && { serial }),
+      upc_gtin: normalized,
+      type: inferRawType(normalized),
       raw: raw,
+      ...(gtinError && { validationErrors: [gtinError] }),
     };
-  } catch {
-    return { upc_gtin: normalized, type: inferRawType(normalized), raw: raw };
   }
+
+  const f = gs1Fields(result);
+  const validationErrors = validateGs1(result);
+  return {
+    upc_gtin: f.gtin || normalized,
+    type: inferGS1Variant(result.elements.length, normalizeGs1Input(normalized).length),
+    ...(f.batch && { batch: f.batch }),
+    ...(f.expiry && { expiry: f.expiry }),
+    ...(f.serial && { serial: f.serial }),
+    ...(f.productionDate && { production_date: f.productionDate }),
+    ...(f.quantity && { quantity: f.quantity }),
+    ...(f.additionalId && { additional_id: f.additionalId }),
+    ...(f.expiryTime && { expiry_time: f.expiryTime }),
+    ...(f.nhrn && { nhrn: f.nhrn }),
+    raw: raw,
+    elements: result.elements,
+    ...(validationErrors.length > 0 && { validationErrors }),
+  };
 }
 
-const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+/** ParsedData / label JSON key for each AI, so the card can say which field is invalid. */
+const AI_FIELD_NAMES: Record<string, string> = {
+  '': 'upc_gtin',
+  '01': 'upc_gtin',
+  '02': 'upc_gtin',
+  '10': 'batch',
+  '11': 'production_date',
+  '17': 'expiry',
+  '21': 'serial',
+  '30': 'quantity',
+  '37': 'quantity',
+  '240': 'additional_id',
+  '7003': 'expiry_time',
+};
+
+/** One line per validation error, e.g. "upc_gtin (01) 00350111561015: check digit should be 4". */
+export function formatValidationError(err: Gs1ValidationError): string {
+  const field = AI_FIELD_NAMES[err.ai] ?? lookupGs1Ai(err.ai)?.definition.title ?? err.ai;
+  const ai = err.ai ? ` (${err.ai})` : '';
+  return `${field}${ai} ${err.value}: ${err.message}`;
+}
 
-/** Format YYYY-MM-DD or YYYY-MM as "DD MMM YYYY" or "MMM YYYY". */
-function formatExpiryDisplay(expiry: string): string {
-  if (!expiry || !expiry.trim()) return '';
-  const m = expiry.trim().match(/^(\d{4})-(\d{2})(?:-(\d{2}))?/);
-  if (!m) return expiry;
-  const [, y, month, day] = m;
-  const mi = parseInt(month, 10) - 1;
-  if (mi < 0 || mi > 11) return expiry;
-  if (day) return `${day.padStart(2, '0')} ${MONTHS[mi]} ${y}`;
-  return `${MONTHS[mi]} ${y}`;
+/** Format an ISO expiry as "DD MMM YYYY" or "MMM YYYY"; other text is shown as is. */
+function displayExpiry(expiry: string): string {
+  const parsed = parseExpiry(expiry);
+  return parsed ? formatExpiryDisplay(parsed) : expiry;
 }
 
+/** AIs whose value is a YYMMDD date shown as "DD MMM YYYY" */
+const DATE_AIS = new Set(['11', '12', '13', '15', '16', '17']);
+
 /**
- * Format parsed GS1 data as (01) GTIN, (17) EXPIRY, (10) BATCH/LOT lines for dashboard display.
+ * Format parsed GS1 data as one "(AI) TITLE\tvalue" line per element, e.g. (01) GTIN, (17) EXPIRY, (10) BATCH/LOT.
  */
 export function formatGs1AsKeyValueLines(parsed: ParsedData): string {
+  if (parsed.elements?.length) {
+    return parsed.elements
+      .map((el) => {
+        const value = DATE_AIS.has(el.ai) && el.date ? displayExpiry(el.date) : el.value;
+        return `(${el.ai}) ${el.title}\t${value}`;
+      })
+      .join('\n');
+  }
   const lines: string[] = [];
   if (parsed.upc_gtin && (parsed.type === 'GS1_DATAMATRIX' || parsed.type === 'GS1_LINEAR')) {
     lines.push(`(01) GTIN\t${parsed.upc_gtin}`);
   }
   if (parsed.expiry) {
-    lines.push(`(17) EXPIRY\t${formatExpiryDisplay(parsed.expiry)}`);
+    lines.push(`(17) EXPIRY\t${displayExpiry(parsed.expiry)}`);
   }
   if (parsed.batch) {
     lines.push(`(10) BATCH/LOT\t${parsed.batch}`);
@@ -0,0 +1,76 @@
+/**
+ * Label-format drafts for the format editor: formats being edited are kept in localStorage until they are
+ * published (or discarded); the published set and corrected scans (labelled samples) are fetched from the
+ * socket server.
+ */
+
+import {
+  DEFAULT_LABEL_FORMATS,
+  LABEL_FORMATS_ENDPOINT,
+  labelSamplesEndpoint,
+  type CorrectedLabelSample,
+  type LabelFormatDefinition,
+} from '@scanning-poc/shared';
+
+const DRAFTS_STORAGE_KEY = 'scanning-poc:dashboard-label-format-drafts';
+
+export function loadLabelFormatDrafts(): LabelFormatDefinition[] | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DRAFTS_STORAGE_KEY) || 'null') as LabelFormatDefinition[] | null;
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Store (or remove, with null) the drafts */
+export function saveLabelFormatDrafts(formats: LabelFormatDefinition[] | null): void {
+  try {
+    if (formats) localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(formats));
+    else localStorage.removeItem(DRAFTS_STORAGE_KEY);
+  } catch {
+    // storage blocked: drafts last for this page load only
+  }
+}
+
+/** Formats published on the server; the built-in formats when the server has none or cannot be reached */
+export async function fetchPublishedLabelFormats(baseUrl: string): Promise<LabelFormatDefinition[]> {
+  try {
+    const response = await fetch(`${baseUrl}${LABEL_FORMATS_ENDPOINT}`);
+    if (!response.ok) return DEFAULT_LABEL_FORMATS;
+    const data = (await response.json()) as { formats?: LabelFormatDefinition[] };
+    return Array.isArray(data.formats) && data.formats.length ? data.formats : DEFAULT_LABEL_FORMATS;
+  } catch {
+    return DEFAULT_LABEL_FORMATS;
+  }
+}
+
+/**
+ * OCR scans of the session whose fields a person corrected, newest first; empty without the session's owner key
+ * or when the server cannot be reached
+ */
+export async function fetchCorrectedSamples(baseUrl: string, sid: string, key: string | undefined): Promise<CorrectedLabelSample[]> {
+  if (!key) return [];
+  try {
+    const response = await fetch(`${baseUrl}${labelSamplesEndpoint(sid)}`, { headers: { 'X-Session-Key': key } });
+    if (!response.ok) return [];
+    const data = (await response.json()) as { samples?: CorrectedLabelSample[] };
+    return Array.isArray(data.samples) ? data.samples : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Drafts without the blank regex and template lines left while editing */
+export function cleanLabelFormats(formats: LabelFormatDefinition[]): LabelFormatDefinition[] {
+  const lines = (list: string[]) => list.map((s) => s.trim()).filter(Boolean);
+  return formats.map((format) => ({
+    ...format,
+    fields: format.fields.map(({ charTemplates, ...field }) => ({
+      ...field,
+      anchors: lines(field.anchors),
+      values: lines(field.values),
+      ...(charTemplates && lines(charTemplates).length && { charTemplates: lines(charTemplates) }),
+    })),
+  }));
+}
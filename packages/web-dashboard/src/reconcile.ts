@@ -0,0 +1,295 @@
+/**
+ * Expected-inventory reconciliation: a manifest (CSV or JSON of GTIN / lot / expiry / qty) is uploaded into a
+ * session and scans are matched against it, giving matched, unexpected, over-count and missing items.
+ * Manifests are stored per session in localStorage.
+ */
+
+import { normalizeExpiry } from '@scanning-poc/shared';
+
+export type ExpectedItem = {
+  gtin?: string;
+  lot?: string;
+  /** YYYY-MM-DD or YYYY-MM */
+  expiry?: string;
+  qty: number;
+};
+
+export type Manifest = {
+  /** File name it was loaded from */
+  name: string;
+  loadedAt: number;
+  items: ExpectedItem[];
+};
+
+/** Identifying fields of a scan (from ParsedData / label JSON); quantity is the GS1 (30)/(37) count */
+export type ScanMatchFields = { gtin?: string; lot?: string; expiry?: string; quantity?: string };
+
+/** Scan fields after normalisation; units is how many items the scan counts for */
+export type NormalizedScanFields = { gtin?: string; lot?: string; expiry?: string; units: number };
+
+export type ReconcileStatus = 'matched' | 'over' | 'missing';
+
+export type ReconcileLine = {
+  item: ExpectedItem;
+  scanned: number;
+  /** missing covers both nothing scanned and fewer than qty */
+  status: ReconcileStatus;
+};
+
+export type ReconcileResult<T> = {
+  lines: ReconcileLine[];
+  /** Scans that match no manifest line, with the reason */
+  unexpected: Array<{ scan: T; fields: NormalizedScanFields; reason: string }>;
+  /** Scans without GTIN or lot (cannot be reconciled) */
+  unidentified: T[];
+};
+
+const MANIFEST_STORAGE_PREFIX = 'scanning-poc:dashboard-manifest:';
+
+/** Column names accepted in CSV headers / JSON keys, lower-cased */
+const FIELD_ALIASES: Record<keyof ExpectedItem, string[]> = {
+  gtin: ['gtin', 'upc_gtin', 'upc', 'ean', 'gtin14'],
+  lot: ['lot', 'lot_no', 'batch', 'batch_no', 'lot_number', 'batch_number'],
+  expiry: ['expiry', 'expiry_date', 'exp', 'expiration', 'expiration_date', 'use_by'],
+  qty: ['qty', 'quantity', 'count', 'expected', 'expected_qty'],
+};
+
+/** GTIN-8/12/13/14 padded to 14 digits so the same product matches in any form */
+export function normalizeGtin(value: string | undefined): string | undefined {
+  const digits = value?.replace(/\s/g, '');
+  if (!digits) return undefined;
+  return /^\d{8}$|^\d{12,14}$/.test(digits) ? digits.padStart(14, '0') : digits.toUpperCase();
+}
+
+function normalizeLot(value: string | undefined): string | undefined {
+  const lot = value?.trim().toUpperCase();
+  return lot || undefined;
+}
+
+/** Manifest and scan expiries as ISO (YYYY-MM-DD / YYYY-MM); manifests are read day-first (DD/MM/YYYY) */
+function toIsoExpiry(value: string | undefined): string | undefined {
+  return value?.trim() ? normalizeExpiry(value, { dayFirst: true }) : undefined;
+}
+
+function toExpectedItem(get: (field: keyof ExpectedItem) => unknown): ExpectedItem | null {
+  const text = (field: keyof ExpectedItem) => {
+    const v = get(field);
+    return v == null || v === '' ? undefined : String(v);
+  };
+  const gtin = normalizeGtin(text('gtin'));
+  const lot = normalizeLot(text('lot'));
+  if (!gtin && !lot) return null;
+  const qtyText = text('qty');
+  const qty = qtyText == null ? 1 : Number(qtyText);
+  return {
+    ...(gtin && { gtin }),
+    ...(lot && { lot }),
+    ...(text('expiry') && { expiry: toIsoExpiry(text('expiry')) }),
+    qty: Number.isFinite(qty) && qty >= 0 ? Math.floor(qty) : 1,
+  };
+}
+
+/** Split one CSV line (quotes, doubled quotes); delimiter , or ; */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function fieldIndex(headers: string[], field: keyof ExpectedItem): number {
+  return headers.findIndex((h) => FIELD_ALIASES[field].includes(h));
+}
+
+/**
+ * Parse a manifest file: JSON (array of objects, or { items: [...] }) or CSV with a header row.
+ * Rows without GTIN and lot are skipped and reported; qty defaults to 1.
+ */
+export function parseManifest(name: string, text: string): { manifest: Manifest; skipped: number } | { error: string } {
+  const items: ExpectedItem[] = [];
+  let skipped = 0;
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (e) {
+      return { error: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` };
+    }
+    const rows = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown })?.items;
+    if (!Array.isArray(rows)) return { error: 'JSON manifest must be an array of items or { items: [...] }' };
+    for (const row of rows) {
+      const record = Object.fromEntries(
+        Object.entries(typeof row === 'object' && row ? row : {}).map(([k, v]) => [k.toLowerCase(), v])
+      );
+      const item = toExpectedItem((field) => FIELD_ALIASES[field].map((alias) => record[alias]).find((v) => v != null));
+      if (item) items.push(item);
+      else skipped++;
+    }
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter((l) => l.trim());
+    if (lines.length === 0) return { error: 'Empty manifest' };
+    const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+    const headers = splitCsvLine(lines[0], delimiter).map((h) => h.toLowerCase());
+    const index = {
+      gtin: fieldIndex(headers, 'gtin'),
+      lot: fieldIndex(headers, 'lot'),
+      expiry: fieldIndex(headers, 'expiry'),
+      qty: fieldIndex(headers, 'qty'),
+    };
+    if (index.gtin < 0 && index.lot < 0) return { error: 'CSV header needs a gtin or lot column' };
+    for (const line of lines.slice(1)) {
+      const cells = splitCsvLine(line, delimiter);
+      const item = toExpectedItem((field) => (index[field] >= 0 ? cells[index[field]] : undefined));
+      if (item) items.push(item);
+      else skipped++;
+    }
+  }
+  if (items.length === 0) return { error: 'No items with a GTIN or lot found' };
+  return { manifest: { name, loadedAt: Date.now(), items }, skipped };
+}
+
+export function loadManifest(sid: string): Manifest | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(MANIFEST_STORAGE_PREFIX + sid) || 'null') as Manifest | null;
+    return parsed && Array.isArray(parsed.items) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Store (or remove, with null) the manifest of a session */
+export function saveManifest(sid: string, manifest: Manifest | null): void {
+  try {
+    if (manifest) localStorage.setItem(MANIFEST_STORAGE_PREFIX + sid, JSON.stringify(manifest));
+    else localStorage.removeItem(MANIFEST_STORAGE_PREFIX + sid);
+  } catch {
+    // storage blocked: manifest applies to this page load only
+  }
+}
+
+/**
+ * Expiries match when equal at the precision both have (YYYY-MM vs YYYY-MM-DD compares the month).
+ * A scan without expiry (e.g. plain UPC) matches any expiry.
+ */
+function expiryMatches(expected: string | undefined, scanned: string | undefined): boolean {
+  if (!expected || !scanned) return true;
+  const length = Math.min(expected.length, scanned.length);
+  return expected.slice(0, length) === scanned.slice(0, length);
+}
+
+/** How many of GTIN, lot and expiry a manifest line pins down */
+function specificity(item: ExpectedItem): number {
+  return Number(!!item.gtin) + Number(!!item.lot) + Number(!!item.expiry);
+}
+
+/** A scan's GS1 quantity as a whole number of units; 1 without one (or when it is not a positive count) */
+function scanUnits(quantity: string | undefined): number {
+  const units = Number(quantity?.trim());
+  return Number.isInteger(units) && units > 0 ? units : 1;
+}
+
+/**
+ * Match scans against the manifest. Each scan counts its GS1 quantity (one unit without one) toward the most
+ * specific lines it matches (GTIN + lot + expiry over GTIN only). Lines without a GTIN, and scans without one,
+ * are matched on lot (and expiry).
+ */
+export function reconcile<T>(
+  manifest: Manifest,
+  scans: T[],
+  fieldsOf: (scan: T) => ScanMatchFields
+): ReconcileResult<T> {
+  const counts = manifest.items.map(() => 0);
+  const unexpected: ReconcileResult<T>['unexpected'] = [];
+  const unidentified: T[] = [];
+  for (const scan of scans) {
+    const raw = fieldsOf(scan);
+    const fields: NormalizedScanFields = {
+      gtin: normalizeGtin(raw.gtin),
+      lot: normalizeLot(raw.lot),
+      expiry: toIsoExpiry(raw.expiry),
+      units: scanUnits(raw.quantity),
+    };
+    if (!fields.gtin && !fields.lot) {
+      unidentified.push(scan);
+      continue;
+    }
+    const candidates = manifest.items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) =>
+        fields.gtin && item.gtin ? item.gtin === fields.gtin : !!item.lot && item.lot === fields.lot
+      );
+    if (candidates.length === 0) {
+      const byGtin = !!fields.gtin && manifest.items.some((item) => item.gtin);
+      unexpected.push({ scan, fields, reason: byGtin ? 'GTIN not on manifest' : 'Lot not on manifest' });
+      continue;
+    }
+    const matching = candidates
+      .filter(({ item }) => (!item.lot || item.lot === fields.lot) && expiryMatches(item.expiry, fields.expiry))
+      .sort((a, b) => specificity(b.item) - specificity(a.item));
+    if (matching.length === 0) {
+      const lotKnown = candidates.some(({ item }) => !item.lot || item.lot === fields.lot);
+      unexpected.push({ scan, fields, reason: lotKnown ? 'Expiry differs from manifest' : 'Lot not on manifest' });
+      continue;
+    }
+    // Fill lines in order of specificity, then overflow into the most specific one
+    for (let unit = 0; unit < fields.units; unit++) {
+      const target = matching.find(({ index, item }) => counts[index] < item.qty) ?? matching[0];
+      counts[target.index] += 1;
+    }
+  }
+  const lines = manifest.items.map((item, index): ReconcileLine => {
+    const scanned = counts[index];
+    return { item, scanned, status: scanned === item.qty ? 'matched' : scanned > item.qty ? 'over' : 'missing' };
+  });
+  return { lines, unexpected, unidentified };
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Discrepancy report: every manifest line that is not matched, then every unexpected scan */
+export function discrepancyReportCsv<T>(result: ReconcileResult<T>): string {
+  const rows: string[][] = [['status', 'gtin', 'lot', 'expiry', 'expected_qty', 'scanned_qty', 'difference', 'note']];
+  for (const line of result.lines) {
+    if (line.status === 'matched') continue;
+    const { item, scanned } = line;
+    rows.push([
+      line.status === 'over' ? 'over-count' : 'missing',
+      item.gtin ?? '',
+      item.lot ?? '',
+      item.expiry ?? '',
+      String(item.qty),
+      String(scanned),
+      String(scanned - item.qty),
+      '',
+    ]);
+  }
+  // Unexpected scans of the same product are summed into one row
+  const unexpected = new Map<string, string[]>();
+  for (const { fields, reason } of result.unexpected) {
+    const row = ['unexpected', fields.gtin ?? '', fields.lot ?? '', fields.expiry ?? '', '0', '0', '0', reason];
+    const key = row.join('|');
+    const existing = unexpected.get(key) ?? row;
+    existing[5] = existing[6] = String(Number(existing[5]) + fields.units);
+    unexpected.set(key, existing);
+  }
+  rows.push(...unexpected.values());
+  return `${rows.map((row) => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+}
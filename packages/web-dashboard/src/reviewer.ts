@@ -0,0 +1,24 @@
+/**
+ * Reviewer name recorded with corrections and approvals of scan fields, persisted in localStorage.
+ */
+
+const REVIEWER_STORAGE_KEY = 'scanning-poc:dashboard-reviewer';
+
+export const DEFAULT_REVIEWER = 'Dashboard';
+
+export function loadReviewerName(): string {
+  try {
+    return localStorage.getItem(REVIEWER_STORAGE_KEY) || DEFAULT_REVIEWER;
+  } catch {
+    return DEFAULT_REVIEWER;
+  }
+}
+
+export function saveReviewerName(name: string): void {
+  try {
+    if (name.trim()) localStorage.setItem(REVIEWER_STORAGE_KEY, name.trim());
+    else localStorage.removeItem(REVIEWER_STORAGE_KEY);
+  } catch {
+    // storage blocked: name applies to this page load only
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Dashboard sessions persisted in localStorage: the current session (room) survives reloads,
+ * and sessions created on this browser are remembered so they can be picked again later.
+ */
+
+export type LocalSession = {
+  sid: string;
+  name?: string;
+  createdAt: number;
+  /** Owner key issued by the socket server when this browser created the session */
+  key?: string;
+};
+
+const CURRENT_SID_STORAGE_KEY = 'scanning-poc:dashboard-sid';
+const SESSIONS_STORAGE_KEY = 'scanning-poc:dashboard-sessions';
+const MAX_LOCAL_SESSIONS = 50;
+
+export function createSid(): string {
+  return `dashboard-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/** Sessions created or opened on this browser, most recent first. */
+export function getLocalSessions(): LocalSession[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SESSIONS_STORAGE_KEY) || '[]') as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (s): s is LocalSession => typeof s?.sid === 'string' && typeof s?.createdAt === 'number'
+    );
+  } catch {
+    return [];
+  }
+}
+
+/** Add or update a session in the local list (moves it to the top; fields not given, e.g. key, are kept). */
+export function rememberSession(session: LocalSession): LocalSession[] {
+  const local = getLocalSessions();
+  const merged = { ...local.find((s) => s.sid === session.sid), ...session };
+  const sessions = [merged, ...local.filter((s) => s.sid !== session.sid)].slice(
+    0,
+    MAX_LOCAL_SESSIONS
+  );
+  try {
+    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+  } catch {
+    // storage blocked (private mode): list lives for this page load only
+  }
+  return sessions;
+}
+
+/** The session to resume on load; creates and stores a new one the first time. */
+export function getCurrentSession(): LocalSession {
+  let sid: string | null = null;
+  try {
+    sid = localStorage.getItem(CURRENT_SID_STORAGE_KEY);
+  } catch {
+    // storage blocked
+  }
+  const known = sid ? getLocalSessions().find((s) => s.sid === sid) : undefined;
+  if (known) return known;
+  const session: LocalSession = { sid: sid || createSid(), createdAt: Date.now() };
+  setCurrentSession(session);
+  return session;
+}
+
+export function setCurrentSession(session: LocalSession): void {
+  rememberSession(session);
+  try {
+    localStorage.setItem(CURRENT_SID_STORAGE_KEY, session.sid);
+  } catch {
+    // storage blocked
+  }
+}